@@ -27,9 +27,48 @@ export default [
         HTMLElement: 'readonly',
         HTMLFormElement: 'readonly',
         HTMLInputElement: 'readonly',
+        HTMLButtonElement: 'readonly',
+        HTMLDivElement: 'readonly',
+        HTMLUListElement: 'readonly',
         TextEncoder: 'readonly',
         TextDecoder: 'readonly',
         crypto: 'readonly',
+        CryptoKey: 'readonly',
+        performance: 'readonly',
+        ReadableStream: 'readonly',
+        TransformStream: 'readonly',
+        CompressionStream: 'readonly',
+        DecompressionStream: 'readonly',
+        MediaSource: 'readonly',
+        SourceBuffer: 'readonly',
+        DOMException: 'readonly',
+        EventTarget: 'readonly',
+        queueMicrotask: 'readonly',
+        Blob: 'readonly',
+        URL: 'readonly',
+        navigator: 'readonly',
+        MediaMetadata: 'readonly',
+        HTMLAudioElement: 'readonly',
+        IntersectionObserver: 'readonly',
+        KeyboardEvent: 'readonly',
+        WheelEvent: 'readonly',
+        Worker: 'readonly',
+        MessageEvent: 'readonly',
+        ErrorEvent: 'readonly',
+        self: 'readonly',
+        MessageChannel: 'readonly',
+        MessagePort: 'readonly',
+        Event: 'readonly',
+        Request: 'readonly',
+        Response: 'readonly',
+        Location: 'readonly',
+        Cache: 'readonly',
+        caches: 'readonly',
+        IDBDatabase: 'readonly',
+        IDBObjectStore: 'readonly',
+        IDBRequest: 'readonly',
+        indexedDB: 'readonly',
+        BroadcastChannel: 'readonly',
         require: 'readonly',
       },
     },
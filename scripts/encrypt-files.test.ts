@@ -0,0 +1,70 @@
+// @vitest-environment node
+
+/**
+ * Test suite for the content command-line tool
+ * Tests its commands on a site in a temporary directory
+ */
+
+import { describe, it, expect, vi, afterAll, beforeAll } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseKeyring } from '../src/utils/keyring';
+import { decryptSearchIndex, searchContent } from '../src/utils/search-index';
+import { openSession } from '../src/utils/session';
+
+const PASSWORD = 'ToolPassword#1';
+const site = vi.hoisted(() => ({ root: '' }));
+
+// The tool finds the site from its own location; put it in the temporary one
+vi.mock('url', async importOriginal => {
+  const url = await importOriginal<typeof import('url')>();
+  return {
+    ...url,
+    fileURLToPath: (href: string | URL) =>
+      String(href).endsWith('/scripts/encrypt-files.ts')
+        ? `${site.root}/scripts/encrypt-files.ts`
+        : url.fileURLToPath(href),
+  };
+});
+
+describe('Content tool', () => {
+  let tool: typeof import('./encrypt-files');
+
+  const sitePath = (path: string) => join(site.root, ...path.split('/'));
+  const writeSource = (path: string, text: string) => {
+    mkdirSync(join(sitePath(path), '..'), { recursive: true });
+    writeFileSync(sitePath(path), text, 'utf-8');
+  };
+  const readSite = (path: string) => readFileSync(sitePath(path), 'utf-8');
+
+  beforeAll(async () => {
+    site.root = mkdtempSync(join(tmpdir(), 'encrypt-files-'));
+    vi.stubEnv('VITE_SITE_PASSWORD', PASSWORD);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`Exited with ${code}`);
+    });
+    tool = await import('./encrypt-files');
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    rmSync(site.root, { recursive: true, force: true });
+  });
+
+  it('should drop pruned files from the search index', async () => {
+    writeSource('public/poems/the-lake.txt', 'Still water under the birches.');
+    writeSource('public/poems/snow.txt', 'Snow on the roofs.');
+    await tool.encryptFiles();
+
+    rmSync(sitePath('public/poems/snow.txt'));
+    await tool.prune(['--apply']);
+
+    const session = await openSession(PASSWORD, parseKeyring(readSite('public/keyring.json')));
+    const index = await decryptSearchIndex(readSite('public/search-index.enc'), session);
+    expect(index.categories.poems.map(document => document.title)).toEqual(['the lake']);
+    expect(searchContent(index, 'roofs')).toEqual([]);
+  }, 60_000);
+});
@@ -0,0 +1,1951 @@
+#!/usr/bin/env -S npx tsx
+
+/**
+ * Command-line tool for the encrypted content: the pre-commit hook encrypts with it,
+ * and it reads the committed objects back
+ * Run this from the repository root: npx tsx scripts/encrypt-files.ts [command]
+ * (tsx lets it import the shared TypeScript envelope code from src/utils, so files
+ * are encrypted and decrypted by the same code as in the browser)
+ *
+ * encrypt (the default):
+ * 1. Reads all files from public content directories
+ * 2. Encrypts each with a random data key wrapped by its category's access-level key
+ *    (public/keyring.json holds the level keys in password-protected key slots;
+ *    the password in .env must open a slot holding every level)
+ * 3. Creates public/objects/<name>.enc files ready for commit: binary containers
+ *    encrypted in 64 KiB segments, with text deflate-compressed first (skip that
+ *    with --no-compress). Names are HMACs of the category and path, so the site
+ *    does not reveal file names or folders.
+ * 4. Writes public/manifest.enc mapping each category's files to their objects, and
+ *    public/search-index.enc with their titles, folders and the text of text files
+ * 5. For images in gallery categories, also encrypts smaller WebP copies and lists
+ *    them on the manifest entry with the image's size and dominant colour
+ *
+ * Titles, dates, tags, descriptions and cover images go in a YAML front-matter block
+ * at the top of text files, or in a sidecar next to any other file
+ * (`song.mp3.meta.yml`); they are listed on the manifest entry. Sidecars are not
+ * encrypted themselves.
+ *
+ * Photos (JPEG, PNG, WebP) lose their metadata before encryption, except for the
+ * orientation and capture date; choose the kept fields with
+ * --keep-metadata orientation,captureDate (or none). Photos listed in the local
+ * .metadata-keep file (`category/path` per line, or a folder ending in /) are
+ * encrypted as they are.
+ *
+ * Read the committed content back (originals are gitignored, so a fresh clone only
+ * has the objects) with:
+ *   npx tsx scripts/encrypt-files.ts list [category]
+ *   npx tsx scripts/encrypt-files.ts decrypt <category/path | objects/<name>.enc> [--out <file>]
+ *   npx tsx scripts/encrypt-files.ts restore [--force]
+ * (restore writes every original back under public/<category>/, keeping files that
+ * differ from their encrypted copy unless --force is given)
+ *
+ * Check that the site can open everything committed, decrypting every object with
+ * the browser's code and comparing it with the manifest (exits non-zero on problems):
+ *   npx tsx scripts/encrypt-files.ts verify
+ *
+ * Rotate the password with: npx tsx scripts/encrypt-files.ts rekey
+ * (reads the new password from NEW_SITE_PASSWORD or prompts for it; only
+ * public/keyring.json changes)
+ *
+ * Manage extra passwords with:
+ *   npx tsx scripts/encrypt-files.ts slot list
+ *   npx tsx scripts/encrypt-files.ts slot add <name> [--levels shared,private]
+ *   npx tsx scripts/encrypt-files.ts slot remove <name>
+ * (the new slot's password comes from SLOT_PASSWORD or a prompt)
+ *
+ * Unchanged sources are skipped, using the local .encrypt-state.json. See what the
+ * next run would encrypt, and what has no source any more, with:
+ *   npx tsx scripts/encrypt-files.ts status
+ * List or delete encrypted files whose source was deleted with:
+ *   npx tsx scripts/encrypt-files.ts prune [--apply]
+ *
+ * Tune the password KDF for this site with:
+ *   npx tsx scripts/encrypt-files.ts calibrate [--kdf argon2id|pbkdf2] [--target-ms 1000] [--dry-run]
+ * (measures this machine, scales to a phone-class device and re-wraps the
+ * VITE_SITE_PASSWORD slot with the result; extra slots reuse its parameters)
+ */
+
+import {
+  readFileSync,
+  writeFileSync,
+  mkdirSync,
+  readdirSync,
+  statSync,
+  existsSync,
+  renameSync,
+  rmSync,
+  unlinkSync,
+  openSync,
+  readSync,
+  closeSync,
+  createReadStream,
+  createWriteStream,
+} from 'fs';
+import { join, dirname, relative, resolve, sep } from 'path';
+import { createHash } from 'crypto';
+import { Readable, Writable } from 'stream';
+import { fileURLToPath } from 'url';
+import { createInterface } from 'readline/promises';
+import sharp from 'sharp';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { ACCESS_LEVELS, CATEGORIES } from '../src/utils/content-categories';
+import {
+  METADATA_SIDECAR_SUFFIX,
+  isMetadataSidecar,
+  splitFrontMatter,
+  toEntryMetadata,
+} from '../src/utils/content-metadata';
+import { decryptEnvelope, generateMasterKey } from '../src/utils/crypto-utils';
+import { bytesToStream, streamToBytes } from '../src/utils/encoding';
+import { decryptResponse } from '../src/utils/encrypted-fetch';
+import { parseEnvelope } from '../src/utils/envelope';
+import {
+  VARIANT_CONTENT_TYPE,
+  entryObjectPaths,
+  hasExpectedVariants,
+  hasVariants,
+  toHexColor,
+  variantPath,
+  variantWidths,
+} from '../src/utils/image-variants';
+import {
+  DEFAULT_KEPT_METADATA,
+  METADATA_FIELDS,
+  canStripMetadata,
+  stripImageMetadata,
+  type MetadataField,
+  type StrippedImage,
+} from '../src/utils/image-metadata';
+import { PHONE_SLOWDOWN, calibrateKdf } from '../src/utils/kdf';
+import {
+  INCORRECT_PASSWORD,
+  createKeyring,
+  keyringLevels,
+  parseKeyring,
+  rekeyKeyring,
+  removeSlot,
+  serializeKeyring,
+  unlockKeyring,
+  withSlot,
+  wrapSlot,
+  type Keyring,
+  type UnlockedSlot,
+} from '../src/utils/keyring';
+import {
+  MANIFEST_VERSION,
+  decryptManifest,
+  encryptManifest,
+  type ContentManifest,
+  type EntryMetadata,
+  type ImageInfo,
+  type ManifestEntry,
+} from '../src/utils/manifest';
+import { getMimeType, isTextType } from '../src/utils/mime-types';
+import { OBJECTS_DIR, deriveNamingKey, objectName } from '../src/utils/object-names';
+import {
+  SEARCH_INDEX_VERSION,
+  decryptSearchIndex,
+  describeForSearch,
+  encryptSearchIndex,
+  isSearchableText,
+  type SearchDocument,
+  type SearchIndex,
+} from '../src/utils/search-index';
+import { openSession, sessionFromKeys, type ContentSession } from '../src/utils/session';
+import {
+  decodeStreamHeader,
+  isStreamContainer,
+  type StreamCompression,
+} from '../src/utils/stream-envelope';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const projectRoot = join(__dirname, '..');
+
+const PUBLIC_DIR = join(projectRoot, 'public');
+const MANIFEST_PATH = join(PUBLIC_DIR, 'manifest.enc');
+const SEARCH_INDEX_PATH = join(PUBLIC_DIR, 'search-index.enc');
+const OBJECTS_PATH = join(PUBLIC_DIR, OBJECTS_DIR);
+// Local only (gitignored): which source produced which object, to skip unchanged files
+const STATE_PATH = join(projectRoot, '.encrypt-state.json');
+const STATE_VERSION = 1;
+const KEYRING_PATH = join(PUBLIC_DIR, 'keyring.json');
+const DEFAULT_UNLOCK_TARGET_MS = 1000;
+// Enough to hold any binary container header
+const STREAM_HEADER_READ_BYTES = 64 * 1024 + 9;
+// WebP quality of the smaller image copies; the original is one click away
+const VARIANT_QUALITY = 75;
+// Local only (gitignored): photos encrypted with their metadata, one `category/path` per line
+const METADATA_KEEP_PATH = join(projectRoot, '.metadata-keep');
+// Metadata policy recorded for those photos in the state file
+const ORIGINAL_METADATA = 'original';
+
+type Categories = Record<string, ManifestEntry[]>;
+
+/** What the state file remembers about a source, keyed by `category/relativePath` */
+interface StateRecord {
+  /** SHA-256 and size of the plaintext that was encrypted */
+  sha256: string;
+  size: number;
+  /** SHA-256 of the source, when it differs from the plaintext (stripped photos) */
+  source?: string;
+  /** Metadata policy the photo was encrypted under */
+  metadata?: string;
+  /** Site-absolute URL of the object */
+  object: string;
+  level: string;
+  compression: StreamCompression;
+  image?: ImageInfo;
+}
+
+interface EncryptState {
+  version: typeof STATE_VERSION;
+  files: Record<string, StateRecord>;
+}
+
+/** Plaintext size and SHA-256, measured while encrypting */
+interface PlaintextStats {
+  size: number;
+  sha256: string;
+}
+
+/** An existing .enc file, opened far enough to tell how it was encrypted */
+interface OpenedObject {
+  /** Access level its data key is wrapped under; null if encrypted with the password */
+  keyId: string | null;
+  /** Null for legacy JSON envelopes */
+  compression: StreamCompression | null;
+  plaintext: () => Promise<ReadableStream<Uint8Array>>;
+}
+
+/**
+ * Message of a caught error
+ */
+function messageOf(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Recursively find all files in a directory
+ */
+function findFiles(dir: string): string[] {
+  const files: string[] = [];
+
+  function walk(current: string) {
+    const entries = readdirSync(current);
+
+    for (const entry of entries) {
+      const fullPath = join(current, entry);
+      const stat = statSync(fullPath);
+
+      if (stat.isDirectory()) {
+        walk(fullPath);
+      } else {
+        files.push(fullPath);
+      }
+    }
+  }
+
+  walk(dir);
+  return files;
+}
+
+/**
+ * Read the site password from the environment or .env
+ */
+function loadPassword(): string {
+  let password = process.env.VITE_SITE_PASSWORD;
+
+  if (!password) {
+    // Try to load from .env file
+    try {
+      const envPath = join(projectRoot, '.env');
+      const envContent = readFileSync(envPath, 'utf-8');
+      const match = envContent.match(/VITE_SITE_PASSWORD=(.+)/);
+      if (match) {
+        password = match[1].trim().replace(/^['"]|['"]$/g, '');
+      }
+    } catch {
+      // .env might not exist yet
+    }
+  }
+
+  if (!password) {
+    throw new Error(
+      'VITE_SITE_PASSWORD not found. Set it in .env or environment variables.'
+    );
+  }
+
+  return password;
+}
+
+/**
+ * Prompt for a secret unless it is already set in the environment
+ */
+async function readSecret(envName: string, question: string): Promise<string> {
+  let secret = process.env[envName];
+  if (!secret) {
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    secret = (await rl.question(question)).trim();
+    rl.close();
+  }
+
+  if (!secret) {
+    throw new Error('Password must not be empty');
+  }
+  return secret;
+}
+
+function readKeyring(): Keyring {
+  if (!existsSync(KEYRING_PATH)) {
+    throw new Error(`${KEYRING_PATH} not found. Run the encrypt script first.`);
+  }
+  return parseKeyring(readFileSync(KEYRING_PATH, 'utf-8'));
+}
+
+function writeKeyring(keyring: Keyring): void {
+  writeFileSync(KEYRING_PATH, serializeKeyring(keyring), 'utf-8');
+}
+
+/**
+ * Rethrow a failed unlock, naming the keyring if the site password opens no slot
+ * Any other failure (a malformed slot, the KDF) keeps its own message.
+ */
+function explainUnlockError(err: unknown): never {
+  if (err instanceof Error && err.message === INCORRECT_PASSWORD) {
+    throw new Error(`VITE_SITE_PASSWORD does not unlock ${KEYRING_PATH}`);
+  }
+  throw err;
+}
+
+/**
+ * Unwrap every level key the site password's slot holds (extractable, for re-wrapping)
+ */
+async function unlockOwnerSlot(keyring: Keyring, password: string): Promise<UnlockedSlot> {
+  return unlockKeyring(keyring, password, true).catch(explainUnlockError);
+}
+
+/**
+ * Open public/keyring.json with the site password, creating the keyring on first
+ * run and generating keys for access levels that no slot holds yet
+ */
+async function openContentKeys(
+  password: string
+): Promise<{ keyring: Keyring; slot: string; keys: Map<string, CryptoKey> }> {
+  if (!existsSync(KEYRING_PATH)) {
+    const { keyring, keys } = await createKeyring(password, ACCESS_LEVELS);
+    writeKeyring(keyring);
+    console.log(`✓ Created keyring: ${KEYRING_PATH}`);
+    return { keyring, slot: keyring.slots[0].name, keys };
+  }
+
+  let keyring = readKeyring();
+  const { slot, keys } = await unlockOwnerSlot(keyring, password);
+  const knownLevels = keyringLevels(keyring);
+  const added: string[] = [];
+
+  for (const level of ACCESS_LEVELS) {
+    if (keys.has(level)) continue;
+    if (knownLevels.includes(level)) {
+      throw new Error(`Key slot "${slot}" cannot unlock the "${level}" access level`);
+    }
+    keys.set(level, await generateMasterKey());
+    added.push(level);
+  }
+
+  if (added.length > 0) {
+    const { kdf } = keyring.slots.find(s => s.name === slot)!;
+    keyring = withSlot(keyring, await wrapSlot(slot, password, keys, kdf));
+    writeKeyring(keyring);
+    console.log(`✓ Added access levels to slot "${slot}": ${added.join(', ')}`);
+  }
+
+  return { keyring, slot, keys };
+}
+
+/**
+ * Drop keys for access levels no category uses any more (e.g. the single
+ * pre-slot master key), once every file has moved to its category's level
+ */
+function pruneUnusedLevels(keyring: Keyring): void {
+  const unused = keyringLevels(keyring).filter(level => !ACCESS_LEVELS.includes(level));
+  if (unused.length === 0) {
+    return;
+  }
+
+  writeKeyring({
+    ...keyring,
+    slots: keyring.slots.map(slot => ({
+      ...slot,
+      wrappedKeys: Object.fromEntries(
+        Object.entries(slot.wrappedKeys).filter(([level]) => ACCESS_LEVELS.includes(level))
+      ),
+    })),
+  });
+  console.log(`✓ Removed unused access levels from the keyring: ${unused.join(', ')}`);
+}
+
+/**
+ * Last segment of a '/'-separated path
+ */
+function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Human-readable file size
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Site-absolute URL of a file under public/
+ */
+function siteUrl(filePath: string): string {
+  return '/' + relative(PUBLIC_DIR, filePath).split(sep).join('/');
+}
+
+/**
+ * File under public/ behind a site-absolute URL
+ */
+function publicFile(url: string): string {
+  return join(PUBLIC_DIR, ...url.split('/'));
+}
+
+/**
+ * Original of a file, under public/<category>/
+ */
+function sourceFile(category: string, relativePath: string): string {
+  return join(PUBLIC_DIR, category, ...relativePath.split('/'));
+}
+
+/**
+ * Build the manifest entry for an encrypted object from its plaintext size and hash
+ * @param image - Size, placeholder and copies, for gallery images
+ * @param meta - Title, date, tags, description and cover, if the file has any
+ */
+function describeFile(
+  objectPath: string,
+  relativePath: string,
+  { size, sha256 }: PlaintextStats,
+  image?: ImageInfo,
+  meta?: EntryMetadata
+): ManifestEntry {
+  const name = fileName(relativePath);
+
+  return {
+    path: siteUrl(objectPath),
+    name,
+    relativePath,
+    size,
+    contentType: getMimeType(name),
+    sha256,
+    ...(image && { image }),
+    ...(meta && { meta }),
+  };
+}
+
+/**
+ * Replace the image info of a manifest entry (dropping it if there is none)
+ */
+function withImage<T extends { image?: ImageInfo }>(
+  { image: _previous, ...entry }: T,
+  image: ImageInfo | undefined
+): T {
+  return (image ? { ...entry, image } : entry) as T;
+}
+
+/**
+ * Replace the metadata of a manifest entry (dropping it if there is none)
+ */
+function withMeta(
+  { meta: _previous, ...entry }: ManifestEntry,
+  meta: EntryMetadata | undefined
+): ManifestEntry {
+  return meta ? { ...entry, meta } : entry;
+}
+
+/**
+ * Image info for a gallery image, rendering and encrypting its smaller copies
+ * The copies listed in `previous` (recorded for the same plaintext) are kept when
+ * they are the ones the image needs and are still on disk, so unchanged images are
+ * not even decoded.
+ * @param label - Name for messages
+ * @param readSource - Resolves to the original: a file path or its bytes
+ * @param variantObjectPath - Resolves to the .enc path for a copy of a given width
+ * @returns The image info, or undefined if the image cannot be decoded
+ */
+async function writeImageVariants(
+  label: string,
+  previous: ImageInfo | undefined,
+  readSource: () => Promise<string | Uint8Array>,
+  variantObjectPath: (width: number) => Promise<string>,
+  session: ContentSession,
+  level: string
+): Promise<ImageInfo | undefined> {
+  if (previous) {
+    const paths = await Promise.all(variantWidths(previous.width).map(variantObjectPath));
+    if (hasExpectedVariants(previous, paths.map(siteUrl)) && paths.every(existsSync)) {
+      return previous;
+    }
+  }
+
+  try {
+    const source = await readSource();
+    const metadata = await sharp(source).metadata();
+    // EXIF orientations 5-8 are stored on their side
+    const sideways = (metadata.orientation ?? 1) >= 5;
+    const width = sideways ? metadata.height : metadata.width;
+    const height = sideways ? metadata.width : metadata.height;
+    const { dominant } = await sharp(source).stats();
+
+    const variants = [];
+    for (const variantWidth of variantWidths(width)) {
+      const { data, info } = await sharp(source)
+        .rotate()
+        .resize({ width: variantWidth })
+        .webp({ quality: VARIANT_QUALITY })
+        .toBuffer({ resolveWithObject: true });
+      const objectPath = await variantObjectPath(variantWidth);
+      const stats = await writeEncrypted(bytesToStream(data), objectPath, session, level, 'none');
+      variants.push({
+        path: siteUrl(objectPath),
+        width: info.width,
+        height: info.height,
+        size: stats.size,
+        contentType: VARIANT_CONTENT_TYPE,
+        sha256: stats.sha256,
+      });
+    }
+
+    if (variants.length > 0) {
+      const widths = variants.map(variant => `${variant.width}w`).join(', ');
+      console.log(`✓ Made smaller copies of ${label}: ${widths}`);
+    }
+    return { width, height, placeholder: toHexColor(dominant), variants };
+  } catch (err) {
+    console.warn(`⚠️  No smaller copies of ${label}: ${messageOf(err)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Parse `--keep-metadata a,b` (or `none`): the EXIF fields left on photos
+ */
+function parseKeptMetadata(args: string[]): MetadataField[] {
+  const option = readOption(args, '--keep-metadata');
+  if (option === undefined) {
+    return DEFAULT_KEPT_METADATA;
+  }
+  if (option.trim() === 'none') {
+    return [];
+  }
+
+  const fields = option
+    .split(',')
+    .map((field: string) => field.trim())
+    .filter(Boolean);
+  const unknown = fields.filter((field: string) => !METADATA_FIELDS.includes(field as MetadataField));
+  if (fields.length === 0 || unknown.length > 0) {
+    throw new Error(
+      `--keep-metadata must be none or list fields from: ${METADATA_FIELDS.join(', ')}`
+    );
+  }
+  return fields as MetadataField[];
+}
+
+/**
+ * Read .metadata-keep, the photos to encrypt with their metadata intact
+ * Each line is a `category/path`, or a folder ending in `/`; `#` starts a comment.
+ * @returns Whether a `category/relativePath` key is listed
+ */
+function readMetadataKeepList(): (key: string) => boolean {
+  if (!existsSync(METADATA_KEEP_PATH)) {
+    return () => false;
+  }
+
+  const lines = readFileSync(METADATA_KEEP_PATH, 'utf-8')
+    .split('\n')
+    .map(line => line.replace(/#.*/, '').trim())
+    .filter(Boolean);
+  return (key: string) => lines.some(line => (line.endsWith('/') ? key.startsWith(line) : key === line));
+}
+
+/**
+ * Metadata policy recorded for photos stripped down to the kept fields
+ * It is in the state file, so changing the kept fields re-encrypts photos.
+ */
+function strippedPolicy(kept: MetadataField[]): string {
+  return `keep:${kept.join(',')}`;
+}
+
+/**
+ * The metadata policy each source is encrypted under
+ * @returns For a `category/relativePath` key: ORIGINAL_METADATA for photos listed in
+ * .metadata-keep, the stripped policy for other photos, undefined for other files
+ */
+function metadataPolicies(kept: MetadataField[]): (key: string) => string | undefined {
+  const keepsOriginal = readMetadataKeepList();
+  const stripped = strippedPolicy(kept);
+  return (key: string) => {
+    if (!canStripMetadata(getMimeType(fileName(key)))) {
+      return undefined;
+    }
+    return keepsOriginal(key) ? ORIGINAL_METADATA : stripped;
+  };
+}
+
+/**
+ * Strip a photo's metadata down to the kept fields
+ * @param key - `category/relativePath`, for the file type and messages
+ */
+function stripPhoto(key: string, bytes: Uint8Array, kept: MetadataField[]): StrippedImage {
+  try {
+    return stripImageMetadata(bytes, getMimeType(fileName(key)), kept);
+  } catch (err) {
+    throw new Error(
+      `Cannot strip metadata from ${key} (${messageOf(err)}); ` +
+        'list it in .metadata-keep to encrypt it as is'
+    );
+  }
+}
+
+/**
+ * Read a source file's metadata: its .meta.yml sidecar, overridden field by field by
+ * the front matter of a text file
+ * Metadata that cannot be read is reported and left out; it never stops encryption.
+ * @param key - `category/relativePath`, for messages
+ * @returns The metadata, or undefined if the file has none
+ */
+function readEntryMetadata(
+  key: string,
+  filePath: string,
+  relativePath: string
+): EntryMetadata | undefined {
+  try {
+    const sidecarPath = filePath + METADATA_SIDECAR_SUFFIX;
+    const sidecar = existsSync(sidecarPath)
+      ? toEntryMetadata(parseYaml(readFileSync(sidecarPath, 'utf-8')), relativePath)
+      : {};
+    const { frontMatter } = getMimeType(fileName(relativePath)).startsWith('text/')
+      ? splitFrontMatter(readFileSync(filePath, 'utf-8'))
+      : { frontMatter: null };
+    const front = frontMatter ? toEntryMetadata(parseYaml(frontMatter), relativePath) : {};
+
+    const meta = { ...sidecar, ...front };
+    return Object.keys(meta).length > 0 ? meta : undefined;
+  } catch (err) {
+    // YAML errors go on to quote the offending line
+    console.warn(`⚠️  Ignoring the metadata of ${key}: ${messageOf(err).split('\n')[0]}`);
+    return undefined;
+  }
+}
+
+/**
+ * Drop covers that do not name an image of the category, reporting each
+ */
+function checkCovers(dir: string, entries: ManifestEntry[]): void {
+  const images = new Set(
+    entries.filter(entry => entry.contentType.startsWith('image/')).map(e => e.relativePath)
+  );
+
+  for (const [i, entry] of entries.entries()) {
+    const cover = entry.meta?.cover;
+    if (cover !== undefined && !images.has(cover)) {
+      console.warn(
+        `⚠️  Leaving out the cover of ${dir}/${entry.relativePath}: ${cover} is not an image in ${dir}`
+      );
+      const { cover: _cover, ...meta } = entry.meta!;
+      entries[i] = withMeta(entry, Object.keys(meta).length > 0 ? meta : undefined);
+    }
+  }
+}
+
+/**
+ * SHA-256 of bytes in memory, lowercase hex
+ */
+function hashBytes(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+/**
+ * Compression to apply before encrypting a file: deflate for text, none otherwise
+ * (media formats are already compressed)
+ */
+function compressionFor(relativePath: string, compress: boolean): StreamCompression {
+  const mimeType = getMimeType(fileName(relativePath));
+  return compress && isTextType(mimeType) ? 'deflate' : 'none';
+}
+
+/**
+ * Pass-through that hashes and counts the plaintext as it streams by
+ * `stats` is filled in once the stream has ended.
+ */
+function measurePlaintext(): {
+  stream: TransformStream<Uint8Array, Uint8Array>;
+  stats: PlaintextStats;
+} {
+  const hash = createHash('sha256');
+  const stats = { size: 0, sha256: '' };
+
+  const stream = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      hash.update(chunk);
+      stats.size += chunk.length;
+      controller.enqueue(chunk);
+    },
+    flush() {
+      stats.sha256 = hash.digest('hex');
+    },
+  });
+  return { stream, stats };
+}
+
+/**
+ * A file's contents as a web stream, for the stream transforms shared with the browser
+ */
+function fileSource(filePath: string): ReadableStream<Uint8Array> {
+  // Node's web streams are the same objects under their own type declarations
+  return Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>;
+}
+
+/**
+ * A web stream writing to a file
+ */
+function fileSink(filePath: string): WritableStream<Uint8Array> {
+  return Writable.toWeb(createWriteStream(filePath)) as WritableStream<Uint8Array>;
+}
+
+/**
+ * Encrypt plaintext to an .enc binary container
+ * Goes through a temporary file, so a failure never leaves a partial .enc behind
+ * (and the source may be the .enc being replaced).
+ * @returns Plaintext size and SHA-256 for the manifest
+ */
+async function writeEncrypted(
+  plaintext: ReadableStream<Uint8Array>,
+  encFilePath: string,
+  session: ContentSession,
+  level: string,
+  compression: StreamCompression
+): Promise<PlaintextStats> {
+  mkdirSync(dirname(encFilePath), { recursive: true });
+  const { stream, stats } = measurePlaintext();
+  const tempPath = `${encFilePath}.tmp`;
+
+  try {
+    await plaintext
+      .pipeThrough(stream)
+      .pipeThrough(await session.encryptStream(level, compression))
+      .pipeTo(fileSink(tempPath));
+    renameSync(tempPath, encFilePath);
+  } finally {
+    rmSync(tempPath, { force: true });
+  }
+  return stats;
+}
+
+/**
+ * Decrypt an object to a file
+ * Goes through a temporary file, so a failure never leaves a partial file behind.
+ * @param sha256 - SHA-256 the plaintext must have, if known
+ * @returns Plaintext size and SHA-256
+ */
+async function writeDecrypted(
+  object: OpenedObject,
+  filePath: string,
+  sha256?: string
+): Promise<PlaintextStats> {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const { stream, stats } = measurePlaintext();
+  const tempPath = `${filePath}.tmp`;
+
+  try {
+    await (await object.plaintext()).pipeThrough(stream).pipeTo(fileSink(tempPath));
+    if (sha256 !== undefined && stats.sha256 !== sha256) {
+      throw new Error(`Decrypted content of ${filePath} does not match the manifest's SHA-256`);
+    }
+    renameSync(tempPath, filePath);
+  } finally {
+    rmSync(tempPath, { force: true });
+  }
+  return stats;
+}
+
+/**
+ * Read the start of a file, enough to detect its format and parse a stream header
+ */
+function readFileStart(filePath: string): Uint8Array {
+  const fd = openSync(filePath, 'r');
+  try {
+    const buffer = new Uint8Array(STREAM_HEADER_READ_BYTES);
+    return buffer.subarray(0, readSync(fd, buffer, 0, buffer.length, 0));
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Open an existing .enc file: a binary container, or a legacy JSON envelope
+ * @returns The level its data key is wrapped under (null if encrypted directly with
+ * the password), its compression (null for JSON envelopes), and a function
+ * resolving to its plaintext
+ */
+function openEncrypted(
+  filePath: string,
+  session: ContentSession,
+  password: string
+): OpenedObject {
+  const start = readFileStart(filePath);
+
+  if (isStreamContainer(start)) {
+    const decoded = decodeStreamHeader(start);
+    if (!decoded) {
+      throw new Error(`Truncated stream header: ${filePath}`);
+    }
+    return {
+      keyId: decoded.header.keyId,
+      compression: decoded.header.compression,
+      plaintext: async () =>
+        fileSource(filePath).pipeThrough(session.decryptStream()),
+    };
+  }
+
+  const envelope = parseEnvelope(readFileSync(filePath, 'utf-8'));
+  const decrypt = () =>
+    envelope.kind === 'wrapped-key'
+      ? session.decrypt(envelope)
+      : decryptEnvelope(envelope, password);
+
+  return {
+    keyId: envelope.kind === 'wrapped-key' ? envelope.keyId : null,
+    compression: null,
+    plaintext: async () => bytesToStream(await decrypt()),
+  };
+}
+
+/**
+ * Categories of the current public/manifest.enc, the only record of where files
+ * whose original is absent live (empty before the first run)
+ */
+async function readPreviousManifest(session: ContentSession): Promise<Categories> {
+  if (!existsSync(MANIFEST_PATH)) {
+    return {};
+  }
+  return (await decryptManifest(readFileSync(MANIFEST_PATH, 'utf-8'), session)).categories;
+}
+
+/**
+ * Encrypt the categories to public/manifest.enc
+ */
+async function writeManifest(categories: Categories, session: ContentSession): Promise<void> {
+  const manifest: ContentManifest = {
+    version: MANIFEST_VERSION,
+    generatedAt: new Date().toISOString(),
+    categories,
+  };
+  writeFileSync(MANIFEST_PATH, await encryptManifest(manifest, session), 'utf-8');
+}
+
+/**
+ * Open the committed site with the site password, for the commands that read it back
+ * @returns The password, a session with the level keys of its slot, and the categories
+ * of public/manifest.enc
+ */
+async function openSite(): Promise<{
+  password: string;
+  session: ContentSession;
+  categories: Categories;
+}> {
+  const password = loadPassword();
+  const { keys } = await unlockOwnerSlot(readKeyring(), password);
+  const session = sessionFromKeys(keys);
+  return { password, session, categories: await readPreviousManifest(session) };
+}
+
+/**
+ * Categories of the current public/search-index.enc (empty before the first run)
+ */
+async function readPreviousSearchIndex(
+  session: ContentSession
+): Promise<Record<string, SearchDocument[]>> {
+  if (!existsSync(SEARCH_INDEX_PATH)) {
+    return {};
+  }
+  return (await decryptSearchIndex(readFileSync(SEARCH_INDEX_PATH, 'utf-8'), session)).categories;
+}
+
+/**
+ * Build the search index for the files of the manifest
+ * Text files keep their text from the previous index while their plaintext is
+ * unchanged; otherwise their object is decrypted, since the original may be absent.
+ */
+async function buildSearchIndex(
+  categories: Categories,
+  previous: Record<string, SearchDocument[]>,
+  session: ContentSession,
+  password: string
+): Promise<SearchIndex> {
+  const indexed: Record<string, SearchDocument[]> = {};
+
+  for (const [category, entries] of Object.entries(categories)) {
+    const known = new Map((previous[category] ?? []).map(document => [document.path, document]));
+    indexed[category] = [];
+
+    for (const entry of entries) {
+      const before = known.get(entry.path);
+      if (!isSearchableText(entry.contentType)) {
+        indexed[category].push(describeForSearch(entry));
+      } else if (before && before.sha256 === entry.sha256) {
+        indexed[category].push({ ...describeForSearch(entry), text: before.text });
+      } else {
+        const encPath = publicFile(entry.path);
+        const plaintext = await openEncrypted(encPath, session, password).plaintext();
+        const text = new TextDecoder().decode(await streamToBytes(plaintext));
+        indexed[category].push(describeForSearch(entry, text));
+      }
+    }
+  }
+
+  return { version: SEARCH_INDEX_VERSION, categories: indexed };
+}
+
+/**
+ * Rebuild public/search-index.enc for the files of the manifest, rewriting it only
+ * if its documents changed
+ */
+async function updateSearchIndex(
+  categories: Categories,
+  session: ContentSession,
+  password: string
+): Promise<void> {
+  const previousIndex = await readPreviousSearchIndex(session);
+  const searchIndex = await buildSearchIndex(categories, previousIndex, session, password);
+  const indexChanged =
+    !existsSync(SEARCH_INDEX_PATH) ||
+    CATEGORIES.some(
+      ({ id }) => JSON.stringify(previousIndex[id]) !== JSON.stringify(searchIndex.categories[id])
+    );
+  if (indexChanged) {
+    writeFileSync(SEARCH_INDEX_PATH, await encryptSearchIndex(searchIndex, session), 'utf-8');
+    console.log(`✓ Wrote search index: ${SEARCH_INDEX_PATH}`);
+  }
+}
+
+/**
+ * Read the local state file: for each `category/relativePath` source, the hash it
+ * had when last encrypted and the object it went to
+ */
+function readState(): EncryptState {
+  if (!existsSync(STATE_PATH)) {
+    return { version: STATE_VERSION, files: {} };
+  }
+
+  const state = JSON.parse(readFileSync(STATE_PATH, 'utf-8'));
+  if (state.version !== STATE_VERSION || typeof state.files !== 'object') {
+    throw new Error(`Unsupported state file ${STATE_PATH}; delete it to re-encrypt everything`);
+  }
+  return state;
+}
+
+function writeState(state: EncryptState): void {
+  writeFileSync(STATE_PATH, JSON.stringify(state, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * SHA-256 of a file, lowercase hex
+ */
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Find outputs that no longer have a source
+ * @returns Manifest entries whose original was encrypted here (it is in the state
+ * file) but has since been deleted, and files in public/objects the manifest does
+ * not reference (e.g. from a removed category or an interrupted run)
+ */
+function findPruneCandidates(
+  categories: Categories,
+  state: EncryptState
+): { deleted: { category: string; key: string; entry: ManifestEntry }[]; unreferenced: string[] } {
+  const deleted: { category: string; key: string; entry: ManifestEntry }[] = [];
+  const referenced = new Set<string>();
+
+  for (const [category, entries] of Object.entries(categories)) {
+    for (const entry of entries) {
+      const key = `${category}/${entry.relativePath}`;
+      const source = sourceFile(category, entry.relativePath);
+      for (const path of entryObjectPaths(entry)) {
+        referenced.add(publicFile(path));
+      }
+      if (state.files[key] && !existsSync(source)) {
+        deleted.push({ category, key, entry });
+      }
+    }
+  }
+
+  const unreferenced = existsSync(OBJECTS_PATH)
+    ? findFiles(OBJECTS_PATH).filter(file => !referenced.has(file))
+    : [];
+  return { deleted, unreferenced };
+}
+
+/**
+ * Main encryption process
+ * @param args - `--no-compress` stores text uncompressed, `--keep-metadata a,b` sets
+ * the EXIF fields left on photos
+ */
+async function encryptFiles(args: string[] = []): Promise<boolean> {
+  try {
+    const password = loadPassword();
+    const compress = !args.includes('--no-compress');
+    const kept = parseKeptMetadata(args);
+    const strippedMetadata = strippedPolicy(kept);
+    const metadataPolicyFor = metadataPolicies(kept);
+
+    console.log('🔐 Starting file encryption...');
+
+    const { keyring, keys } = await openContentKeys(password);
+    const session = sessionFromKeys(keys);
+
+    const previous = await readPreviousManifest(session);
+    const state = readState();
+    const namingKeys = new Map<string, CryptoKey>();
+    for (const level of ACCESS_LEVELS) {
+      namingKeys.set(level, await deriveNamingKey(keys.get(level)!));
+    }
+    const objectPathFor = async (category: string, level: string, relativePath: string) =>
+      join(OBJECTS_PATH, `${await objectName(namingKeys.get(level)!, category, relativePath)}.enc`);
+    const variantPathsFor = (category: string, level: string, relativePath: string) =>
+      (width: number) => objectPathFor(category, level, variantPath(relativePath, width));
+
+    let filesEncrypted = 0;
+    let filesUnchanged = 0;
+    let photosStripped = 0;
+    let hadErrors = false;
+    const encryptedFiles: { original: string; encrypted: string; size: number }[] = [];
+    const categories: Categories = {};
+
+    for (const { id: dir, accessLevel, view } of CATEGORIES) {
+      const contentDir = join(PUBLIC_DIR, dir);
+      const wantsVariants = (relativePath: string) =>
+        view === 'gallery' && hasVariants(getMimeType(fileName(relativePath)));
+      const imageFor = (
+        relativePath: string,
+        previous: ImageInfo | undefined,
+        readSource: () => Promise<string | Uint8Array>
+      ) =>
+        wantsVariants(relativePath)
+          ? writeImageVariants(
+              `${dir}/${relativePath}`,
+              previous,
+              readSource,
+              variantPathsFor(dir, accessLevel, relativePath),
+              session,
+              accessLevel
+            )
+          : undefined;
+      const entries: ManifestEntry[] = [];
+      categories[dir] = entries;
+
+      try {
+        const files = existsSync(contentDir) ? findFiles(contentDir) : [];
+        const relativeOf = (file: string) => relative(contentDir, file).split(sep).join('/');
+        const sources = new Set<string>();
+        const written = new Set<string>();
+        // Sidecars only describe other files
+        const originals = files.filter(file => !file.endsWith('.enc') && !isMetadataSidecar(file));
+        for (const sidecar of files.filter(file => isMetadataSidecar(file))) {
+          if (!originals.includes(sidecar.slice(0, -METADATA_SIDECAR_SUFFIX.length))) {
+            console.warn(`⚠️  No file next to ${dir}/${relativeOf(sidecar)} to describe`);
+          }
+        }
+
+        for (const filePath of originals) {
+          const relativePath = relativeOf(filePath);
+          const key = `${dir}/${relativePath}`;
+          const meta = readEntryMetadata(key, filePath, relativePath);
+          const objectPath = await objectPathFor(dir, accessLevel, relativePath);
+          const compression = compressionFor(relativePath, compress);
+          const metadata = metadataPolicyFor(key);
+          const strips = metadata === strippedMetadata;
+          const record = state.files[key];
+          sources.add(relativePath);
+          written.add(objectPath);
+
+          // Stripped photos record the hash of the source apart from the plaintext's
+          const unchanged =
+            record !== undefined &&
+            record.level === accessLevel &&
+            record.compression === compression &&
+            record.metadata === metadata &&
+            record.object === siteUrl(objectPath) &&
+            existsSync(objectPath) &&
+            (record.source ?? record.sha256) === (await hashFile(filePath));
+          if (unchanged) {
+            const readSource = async () =>
+              strips ? stripPhoto(key, readFileSync(filePath), kept).bytes : filePath;
+            const image = await imageFor(relativePath, record.image, readSource);
+            state.files[key] = withImage(record, image);
+            entries.push(describeFile(objectPath, relativePath, record, image, meta));
+            filesUnchanged++;
+            continue;
+          }
+
+          // Photos read whole to strip them never open a stream on the file
+          let plaintext: ReadableStream<Uint8Array>;
+          let source: string | undefined;
+          let readSource = async (): Promise<string | Uint8Array> => filePath;
+          if (strips) {
+            const original = readFileSync(filePath);
+            const { bytes, removed } = stripPhoto(key, original, kept);
+            if (removed.length > 0) {
+              console.log(`🧽 Stripped from ${key}: ${removed.join(', ')}`);
+              photosStripped++;
+            }
+            plaintext = bytesToStream(bytes);
+            source = hashBytes(original);
+            readSource = async () => bytes;
+          } else {
+            if (metadata === ORIGINAL_METADATA) {
+              console.log(`ℹ️  Kept the metadata of ${key} (listed in .metadata-keep)`);
+            }
+            plaintext = fileSource(filePath);
+          }
+
+          const stats = await writeEncrypted(
+            plaintext,
+            objectPath,
+            session,
+            accessLevel,
+            compression
+          );
+
+          const image = await imageFor(relativePath, undefined, readSource);
+          const entry = describeFile(objectPath, relativePath, stats, image, meta);
+          state.files[key] = withImage<StateRecord>(
+            {
+              sha256: stats.sha256,
+              size: stats.size,
+              ...(source && { source }),
+              ...(metadata && { metadata }),
+              object: entry.path,
+              level: accessLevel,
+              compression,
+            },
+            image
+          );
+          entries.push(entry);
+          encryptedFiles.push({
+            original: filePath,
+            encrypted: objectPath,
+            size: stats.size,
+          });
+
+          filesEncrypted++;
+          console.log(`✓ Encrypted: ${filePath} → ${objectPath}`);
+        }
+
+        // Files whose original is absent (e.g. a fresh clone) still belong in the
+        // manifest: .enc files from before object names sat next to the originals,
+        // everything since is only known from the previous manifest
+        const carried: { encPath: string; relativePath: string; entry?: ManifestEntry }[] = [
+          ...files
+            .filter(file => file.endsWith('.enc'))
+            .map(file => ({ encPath: file, relativePath: relativeOf(file).slice(0, -4) })),
+          ...(previous[dir] ?? []).map(entry => ({
+            encPath: publicFile(entry.path),
+            relativePath: entry.relativePath,
+            entry,
+          })),
+        ];
+        const consumed = new Set<string>();
+
+        for (const { encPath, relativePath, entry } of carried) {
+          if (consumed.has(encPath)) {
+            continue;
+          }
+          consumed.add(encPath);
+
+          if (sources.has(relativePath)) {
+            // Superseded by the object just written from the original
+            if (!written.has(encPath) && existsSync(encPath)) {
+              unlinkSync(encPath);
+            }
+            continue;
+          }
+          sources.add(relativePath);
+
+          const objectPath = await objectPathFor(dir, accessLevel, relativePath);
+          const existing = openEncrypted(encPath, session, password);
+          const compression = compressionFor(relativePath, compress);
+          const upToDate =
+            entry !== undefined &&
+            encPath === objectPath &&
+            existing.keyId === accessLevel &&
+            existing.compression === compression;
+
+          if (upToDate) {
+            const image = await imageFor(relativePath, entry.image, async () =>
+              streamToBytes(await existing.plaintext())
+            );
+            entries.push(withMeta(withImage(entry, image), entry.meta));
+            continue;
+          }
+
+          // A legacy file, a JSON envelope, or encrypted under another level's key or
+          // with other compression (the category moved level): re-encrypt. Images are
+          // read whole, to strip their metadata and render copies from the same plaintext.
+          const key = `${dir}/${relativePath}`;
+          const strips = metadataPolicyFor(key) === strippedMetadata;
+          let bytes =
+            strips || wantsVariants(relativePath)
+              ? await streamToBytes(await existing.plaintext())
+              : null;
+          if (bytes && strips) {
+            const stripped = stripPhoto(key, bytes, kept);
+            if (stripped.removed.length > 0) {
+              console.log(`🧽 Stripped from ${key}: ${stripped.removed.join(', ')}`);
+              photosStripped++;
+            }
+            bytes = stripped.bytes;
+          }
+          const stats = await writeEncrypted(
+            bytes ? bytesToStream(bytes) : await existing.plaintext(),
+            objectPath,
+            session,
+            accessLevel,
+            compression
+          );
+          written.add(objectPath);
+          if (encPath !== objectPath) {
+            unlinkSync(encPath);
+          }
+          const image = await imageFor(
+            relativePath,
+            undefined,
+            async () => bytes ?? (await streamToBytes(await existing.plaintext()))
+          );
+          entries.push(describeFile(objectPath, relativePath, stats, image, entry?.meta));
+          console.log(`↻ Re-encrypted ${dir}/${relativePath} for "${accessLevel}": ${objectPath}`);
+        }
+      } catch (err) {
+        hadErrors = true;
+        console.error(`Error processing ${dir}:`, messageOf(err));
+      }
+
+      checkCovers(dir, entries);
+      entries.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+    }
+
+    // Rewriting an unchanged manifest would still change every byte (fresh nonces)
+    const manifestChanged =
+      !existsSync(MANIFEST_PATH) ||
+      Object.keys(previous).length !== CATEGORIES.length ||
+      CATEGORIES.some(({ id }) => JSON.stringify(previous[id]) !== JSON.stringify(categories[id]));
+    if (manifestChanged) {
+      await writeManifest(categories, session);
+      console.log(`✓ Wrote manifest: ${MANIFEST_PATH}`);
+    }
+    writeState(state);
+
+    await updateSearchIndex(categories, session, password);
+
+    const { deleted, unreferenced } = findPruneCandidates(categories, state);
+    if (deleted.length + unreferenced.length > 0) {
+      console.log(
+        `\n🧹 ${deleted.length + unreferenced.length} encrypted files have no source any more;` +
+          ' list them with `npm run prune` and delete them with `npm run prune -- --apply`'
+      );
+    }
+
+    // Keep old level keys until every file has been moved off them
+    if (!hadErrors) {
+      pruneUnusedLevels(keyring);
+    }
+
+    console.log(`\n✅ Successfully encrypted ${filesEncrypted} files (${filesUnchanged} unchanged)`);
+    if (photosStripped > 0) {
+      console.log(`🧽 Stripped metadata from ${photosStripped} photos`);
+    }
+
+    if (filesEncrypted > 0) {
+      console.log('\n📋 Encrypted files:');
+      for (const file of encryptedFiles) {
+        console.log(`  ${file.encrypted} (${file.size} bytes)`);
+      }
+    }
+
+    return filesEncrypted > 0;
+  } catch (err) {
+    console.error('❌ Encryption failed:', messageOf(err));
+    process.exit(1);
+  }
+}
+
+/**
+ * Rotate the site password by re-wrapping the keys of its slot
+ * Only public/keyring.json is rewritten; no .enc file changes.
+ */
+async function rekey(): Promise<void> {
+  try {
+    const currentPassword = loadPassword();
+    const keyring = readKeyring();
+    const newPassword = await readSecret('NEW_SITE_PASSWORD', 'New site password: ');
+
+    const rotated = await rekeyKeyring(keyring, currentPassword, newPassword).catch(
+      explainUnlockError
+    );
+    writeKeyring(rotated);
+
+    console.log(`✅ Re-wrapped access-level keys: ${KEYRING_PATH}`);
+    console.log('📝 Update VITE_SITE_PASSWORD in .env to the new password before the next commit');
+  } catch (err) {
+    console.error('❌ Rekey failed:', messageOf(err));
+    process.exit(1);
+  }
+}
+
+/**
+ * Read the value following a `--flag` argument
+ */
+function readOption(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : (args[index + 1] ?? '');
+}
+
+/**
+ * Parse `--levels a,b` from the slot add arguments
+ */
+function parseLevels(args: string[]): string[] {
+  const option = readOption(args, '--levels');
+  if (option === undefined) {
+    return ACCESS_LEVELS;
+  }
+
+  const levels = option.split(',').map(level => level.trim()).filter(Boolean);
+  const unknown = levels.filter(level => !ACCESS_LEVELS.includes(level));
+  if (levels.length === 0 || unknown.length > 0) {
+    throw new Error(`--levels must list access levels from: ${ACCESS_LEVELS.join(', ')}`);
+  }
+  return levels;
+}
+
+/**
+ * List, add or remove key slots (extra passwords)
+ */
+async function slot([action, name, ...args]: string[]): Promise<void> {
+  try {
+    const keyring = readKeyring();
+
+    if (action === 'list') {
+      for (const s of keyring.slots) {
+        console.log(`${s.name}: ${Object.keys(s.wrappedKeys).join(', ')}`);
+      }
+      return;
+    }
+
+    if (!name || (action !== 'add' && action !== 'remove')) {
+      throw new Error('Usage: slot list | slot add <name> [--levels a,b] | slot remove <name>');
+    }
+
+    const password = loadPassword();
+    const owner = await unlockOwnerSlot(keyring, password);
+
+    if (action === 'remove') {
+      if (name === owner.slot) {
+        throw new Error(`Cannot remove slot "${name}": VITE_SITE_PASSWORD opens it`);
+      }
+      writeKeyring(removeSlot(keyring, name));
+      console.log(`✅ Removed key slot "${name}"`);
+      return;
+    }
+
+    if (keyring.slots.some(s => s.name === name)) {
+      throw new Error(`Key slot "${name}" already exists; remove it first`);
+    }
+
+    const levels = parseLevels(args);
+    const keys = new Map<string, CryptoKey>();
+    for (const level of levels) {
+      const key = owner.keys.get(level);
+      if (key) keys.set(level, key);
+    }
+    if (levels.some(level => !keys.has(level))) {
+      throw new Error(`Key slot "${owner.slot}" cannot grant every requested access level`);
+    }
+
+    const slotPassword = await readSecret('SLOT_PASSWORD', `Password for "${name}": `);
+    const { kdf } = keyring.slots.find(s => s.name === owner.slot)!;
+    writeKeyring(withSlot(keyring, await wrapSlot(name, slotPassword, keys, kdf)));
+    console.log(`✅ Added key slot "${name}" for: ${levels.join(', ')}`);
+  } catch (err) {
+    console.error('❌ Slot command failed:', messageOf(err));
+    process.exit(1);
+  }
+}
+
+/**
+ * Delete encrypted files whose source is gone
+ * Lists what would be removed unless `--apply` is given.
+ */
+async function prune(args: string[]): Promise<void> {
+  try {
+    const apply = args.includes('--apply');
+    const { password, session, categories } = await openSite();
+    const state = readState();
+
+    const { deleted, unreferenced } = findPruneCandidates(categories, state);
+    if (deleted.length + unreferenced.length === 0) {
+      console.log('✅ Nothing to prune');
+      return;
+    }
+
+    for (const { key, entry } of deleted) {
+      console.log(`${apply ? '🗑️ ' : '-'} ${entry.path} (source ${key} was deleted)`);
+    }
+    for (const file of unreferenced) {
+      console.log(`${apply ? '🗑️ ' : '-'} ${siteUrl(file)} (not in the manifest)`);
+    }
+    if (!apply) {
+      console.log('\nDry run: re-run with --apply to delete these files');
+      return;
+    }
+
+    for (const { category, key, entry } of deleted) {
+      for (const path of entryObjectPaths(entry)) {
+        rmSync(publicFile(path), { force: true });
+      }
+      categories[category] = categories[category].filter(e => e !== entry);
+      delete state.files[key];
+    }
+    for (const file of unreferenced) {
+      rmSync(file, { force: true });
+    }
+
+    // The search index would otherwise still hold their titles and text
+    if (deleted.length > 0) {
+      await writeManifest(categories, session);
+      writeState(state);
+      await updateSearchIndex(categories, session, password);
+    }
+    console.log(`\n✅ Pruned ${deleted.length + unreferenced.length} files`);
+  } catch (err) {
+    console.error('❌ Prune failed:', messageOf(err));
+    process.exit(1);
+  }
+}
+
+/**
+ * Pick KDF parameters for a target unlock time on a phone-class device and
+ * re-wrap the VITE_SITE_PASSWORD slot with them
+ */
+async function calibrate(args: string[]): Promise<void> {
+  try {
+    const kdfOption = (readOption(args, '--kdf') ?? 'argon2id').toLowerCase();
+    if (kdfOption !== 'argon2id' && kdfOption !== 'pbkdf2') {
+      throw new Error('--kdf must be argon2id or pbkdf2');
+    }
+    const targetMs = Number(readOption(args, '--target-ms') ?? DEFAULT_UNLOCK_TARGET_MS);
+    const slowdown = Number(readOption(args, '--slowdown') ?? PHONE_SLOWDOWN);
+
+    console.log(`⏱️  Calibrating for ~${targetMs}ms on a device ${slowdown}× slower than this one...`);
+    const kdf = await calibrateKdf(kdfOption === 'pbkdf2' ? 'PBKDF2' : 'Argon2id', {
+      targetMs,
+      slowdown,
+    });
+    console.log(`✓ ${JSON.stringify(kdf)}`);
+
+    if (args.includes('--dry-run')) {
+      return;
+    }
+
+    const password = loadPassword();
+    const keyring = readKeyring();
+    const rewrapped = await rekeyKeyring(keyring, password, password, kdf).catch(
+      explainUnlockError
+    );
+    writeKeyring(rewrapped);
+    console.log(`✅ Re-wrapped the VITE_SITE_PASSWORD slot: ${KEYRING_PATH}`);
+  } catch (err) {
+    console.error('❌ Calibration failed:', messageOf(err));
+    process.exit(1);
+  }
+}
+
+/**
+ * Find the object `decrypt` was asked for
+ * @param target - A file as `category/relativePath`, or an .enc file by its path
+ * (`public/objects/…`, or its site URL `/objects/…`)
+ * @returns The .enc file, and the SHA-256 of its plaintext if the manifest lists it
+ */
+function findObject(categories: Categories, target: string): { encPath: string; sha256?: string } {
+  for (const [category, entries] of Object.entries(categories)) {
+    const entry = entries.find(e => `${category}/${e.relativePath}` === target);
+    if (entry) {
+      return { encPath: publicFile(entry.path), sha256: entry.sha256 };
+    }
+  }
+
+  const encPath = [resolve(target), join(PUBLIC_DIR, target)].find(
+    path => existsSync(path) && statSync(path).isFile()
+  );
+  if (!encPath) {
+    throw new Error(`${target} is neither a file in the manifest nor an encrypted file`);
+  }
+  const url = siteUrl(encPath);
+  const listed = Object.values(categories)
+    .flat()
+    .flatMap(entry => [entry, ...(entry.image?.variants ?? [])])
+    .find(object => object.path === url);
+  return { encPath, sha256: listed?.sha256 };
+}
+
+/**
+ * Decrypt one file to stdout, or to the path given with `--out`
+ * The plaintext is checked against the manifest's SHA-256 when it lists the file.
+ */
+async function decrypt([target, ...args]: string[]): Promise<void> {
+  try {
+    if (!target || target.startsWith('--')) {
+      throw new Error('Usage: decrypt <category/path | objects/<name>.enc> [--out <file>]');
+    }
+    const { password, session, categories } = await openSite();
+    const { encPath, sha256 } = findObject(categories, target);
+    const object = openEncrypted(encPath, session, password);
+    const out = readOption(args, '--out');
+
+    if (out) {
+      const { size } = await writeDecrypted(object, out, sha256);
+      console.log(`✅ Decrypted ${target} → ${out} (${formatSize(size)})`);
+      return;
+    }
+
+    const { stream, stats } = measurePlaintext();
+    const stdout = Writable.toWeb(process.stdout) as WritableStream<Uint8Array>;
+    await (await object.plaintext()).pipeThrough(stream).pipeTo(stdout, { preventClose: true });
+    if (sha256 !== undefined && stats.sha256 !== sha256) {
+      throw new Error(`Decrypted content of ${target} does not match the manifest's SHA-256`);
+    }
+  } catch (err) {
+    console.error('❌ Decrypt failed:', messageOf(err));
+    process.exit(1);
+  }
+}
+
+/**
+ * Write a .meta.yml sidecar next to a restored file, holding the metadata its
+ * manifest entry lists beyond what the file itself carries (sidecars are not
+ * encrypted, so a fresh clone has none; text files keep their front matter)
+ * An existing sidecar is left alone.
+ * @param key - `category/relativePath`, for messages
+ */
+function restoreSidecar(key: string, filePath: string, entry: ManifestEntry): void {
+  const sidecarPath = filePath + METADATA_SIDECAR_SUFFIX;
+  if (!entry.meta || existsSync(sidecarPath)) {
+    return;
+  }
+  const own = readEntryMetadata(key, filePath, entry.relativePath);
+  if (JSON.stringify(own) === JSON.stringify(entry.meta)) {
+    return;
+  }
+
+  // Covers are listed within the category; a leading / resolves them there again
+  const { cover, ...meta } = entry.meta;
+  writeFileSync(sidecarPath, stringifyYaml({ ...meta, ...(cover && { cover: `/${cover}` }) }));
+  console.log(`✓ Wrote metadata: ${sidecarPath}`);
+}
+
+/**
+ * Write the originals of the files in the manifest back to public/<category>/, e.g.
+ * to edit content on a fresh clone, where only the .enc files exist
+ * Files that differ from their encrypted copy are kept unless `--force` is given.
+ * Restored files go in the state file, so the next run does not re-encrypt them.
+ * @param args - `--force`, and the encrypt options (`--keep-metadata`) to record
+ */
+async function restore(args: string[]): Promise<void> {
+  try {
+    const force = args.includes('--force');
+    const { password, session, categories } = await openSite();
+    const state = readState();
+    const metadataPolicyFor = metadataPolicies(parseKeptMetadata(args));
+    let restored = 0;
+    let upToDate = 0;
+    let kept = 0;
+    let failed = 0;
+
+    for (const [category, entries] of Object.entries(categories)) {
+      for (const entry of entries) {
+        const key = `${category}/${entry.relativePath}`;
+        const filePath = sourceFile(category, entry.relativePath);
+
+        try {
+          const exists = existsSync(filePath);
+          const same = exists && (await hashFile(filePath)) === entry.sha256;
+          if (exists && !same && !force) {
+            console.log(`⏭️  Kept ${key}: it differs from the encrypted copy (--force replaces it)`);
+            kept++;
+            continue;
+          }
+          if (same && state.files[key]) {
+            upToDate++;
+            continue;
+          }
+
+          const object = openEncrypted(publicFile(entry.path), session, password);
+          if (same) {
+            upToDate++;
+          } else {
+            await writeDecrypted(object, filePath, entry.sha256);
+            restoreSidecar(key, filePath, entry);
+            console.log(`✓ Restored: ${key}`);
+            restored++;
+          }
+
+          // Legacy JSON envelopes are left out, so the next run re-encrypts them
+          if (object.keyId !== null && object.compression !== null) {
+            const metadata = metadataPolicyFor(key);
+            state.files[key] = withImage<StateRecord>(
+              {
+                sha256: entry.sha256,
+                size: entry.size,
+                ...(metadata && { metadata }),
+                object: entry.path,
+                level: object.keyId,
+                compression: object.compression,
+              },
+              entry.image
+            );
+          }
+        } catch (err) {
+          failed++;
+          console.error(`Error restoring ${key}:`, messageOf(err));
+        }
+      }
+    }
+    writeState(state);
+
+    console.log(`\n✅ Restored ${restored} files (${upToDate} up to date, ${kept} kept)`);
+    if (failed > 0) {
+      throw new Error(`${failed} files could not be restored`);
+    }
+  } catch (err) {
+    console.error('❌ Restore failed:', messageOf(err));
+    process.exit(1);
+  }
+}
+
+/**
+ * Print the files of the manifest with their size, type, title and object
+ * @param args - A category, to list only its files
+ */
+async function list([category]: string[]): Promise<void> {
+  try {
+    const { categories } = await openSite();
+    if (category !== undefined && !Object.hasOwn(categories, category)) {
+      throw new Error(
+        `No category "${category}" in the manifest; it has: ${Object.keys(categories).join(', ')}`
+      );
+    }
+
+    for (const [id, entries] of Object.entries(categories)) {
+      if (category !== undefined && id !== category) {
+        continue;
+      }
+      console.log(`\n📁 ${id} (${entries.length} files)`);
+      for (const entry of entries) {
+        const title = entry.meta?.title ? ` "${entry.meta.title}"` : '';
+        const copies = entry.image?.variants.length
+          ? `, ${entry.image.variants.length} smaller copies`
+          : '';
+        console.log(`  ${entry.relativePath}${title}`);
+        console.log(
+          `    ${formatSize(entry.size)}, ${entry.contentType}${copies} → ${entry.path}`
+        );
+      }
+    }
+  } catch (err) {
+    console.error('❌ List failed:', messageOf(err));
+    process.exit(1);
+  }
+}
+
+/**
+ * Why the next run would re-encrypt an unchanged source, if it would
+ * @param expected - How the source would be encrypted now
+ */
+function staleReason(
+  record: StateRecord | undefined,
+  expected: Pick<StateRecord, 'object' | 'level' | 'compression' | 'metadata'>
+): string | undefined {
+  if (!record) {
+    return 'not in .encrypt-state.json';
+  }
+  if (record.object !== expected.object || !existsSync(publicFile(record.object))) {
+    return 'object missing';
+  }
+  if (record.level !== expected.level) {
+    return `encrypted for "${record.level}", not "${expected.level}"`;
+  }
+  if (record.compression !== expected.compression) {
+    return `compression is ${record.compression}, not ${expected.compression}`;
+  }
+  if (record.metadata !== expected.metadata) {
+    return 'photo metadata settings changed';
+  }
+  return undefined;
+}
+
+/**
+ * Compare the originals under public/ with the manifest: what the next run would
+ * encrypt (new and changed files) or re-encrypt (stale ones), and what prune would
+ * delete
+ * @param args - The encrypt options (`--no-compress`, `--keep-metadata`) to compare with
+ */
+async function status(args: string[]): Promise<void> {
+  try {
+    const { password, session, categories } = await openSite();
+    const state = readState();
+    const compress = !args.includes('--no-compress');
+    const metadataPolicyFor = metadataPolicies(parseKeptMetadata(args));
+    const { deleted, unreferenced } = findPruneCandidates(categories, state);
+    const deletedKeys = new Set(deleted.map(({ key }) => key));
+    const changes: string[] = [];
+    const report = (label: string, what: string, reason?: string) =>
+      changes.push(`  ${label.padEnd(12)} ${what}${reason ? ` (${reason})` : ''}`);
+    let upToDate = 0;
+    let encryptedOnly = 0;
+
+    for (const { id: dir, accessLevel } of CATEGORIES) {
+      const contentDir = join(PUBLIC_DIR, dir);
+      const levelKey = session.keys.get(accessLevel);
+      const namingKey = levelKey && (await deriveNamingKey(levelKey));
+      const objectUrlFor = async (relativePath: string) =>
+        namingKey
+          ? siteUrl(join(OBJECTS_PATH, `${await objectName(namingKey, dir, relativePath)}.enc`))
+          : '';
+      const entries = new Map((categories[dir] ?? []).map(entry => [entry.relativePath, entry]));
+      const files = existsSync(contentDir) ? findFiles(contentDir) : [];
+      const sources = new Set<string>();
+
+      for (const filePath of files.filter(f => !f.endsWith('.enc') && !isMetadataSidecar(f))) {
+        const relativePath = relative(contentDir, filePath).split(sep).join('/');
+        const key = `${dir}/${relativePath}`;
+        const entry = entries.get(relativePath);
+        const record = state.files[key];
+        sources.add(relativePath);
+
+        if (!entry) {
+          report('new', key);
+          continue;
+        }
+        const encrypted = record ? (record.source ?? record.sha256) : entry.sha256;
+        if ((await hashFile(filePath)) !== encrypted) {
+          report('changed', key);
+          continue;
+        }
+        const reason = staleReason(record, {
+          object: await objectUrlFor(relativePath),
+          level: accessLevel,
+          compression: compressionFor(relativePath, compress),
+          metadata: metadataPolicyFor(key),
+        });
+        if (reason) {
+          report('stale', key, reason);
+        } else {
+          upToDate++;
+        }
+      }
+
+      for (const file of files.filter(f => f.endsWith('.enc'))) {
+        const key = `${dir}/${relative(contentDir, file).split(sep).join('/')}`;
+        report('stale', key, 'encrypted next to the originals, from before object names');
+      }
+      // Files known only from their object, as on a fresh clone
+      for (const [relativePath, entry] of entries) {
+        const key = `${dir}/${relativePath}`;
+        if (sources.has(relativePath) || deletedKeys.has(key)) {
+          continue;
+        }
+        encryptedOnly++;
+        const encPath = publicFile(entry.path);
+        if (!existsSync(encPath)) {
+          report('missing', key, `${entry.path} is gone`);
+          continue;
+        }
+        const object = openEncrypted(encPath, session, password);
+        if (entry.path !== (await objectUrlFor(relativePath)) || object.keyId !== accessLevel) {
+          report('stale', key, `not encrypted for "${accessLevel}"`);
+        } else if (object.compression !== compressionFor(relativePath, compress)) {
+          report('stale', key, `compression is ${object.compression ?? 'a JSON envelope'}`);
+        }
+      }
+    }
+
+    for (const { key, entry } of deleted) {
+      report('deleted', key, `source deleted; prune removes ${entry.path}`);
+    }
+    for (const file of unreferenced) {
+      report('unreferenced', siteUrl(file), 'not in the manifest');
+    }
+
+    console.log(changes.length > 0 ? changes.join('\n') : '✅ Everything is encrypted');
+    console.log(`\n${upToDate} up to date, ${encryptedOnly} only encrypted`);
+    if (encryptedOnly > 0) {
+      console.log('💡 Write the originals of files only encrypted with `npm run restore`');
+    }
+  } catch (err) {
+    console.error('❌ Status failed:', messageOf(err));
+    process.exit(1);
+  }
+}
+
+/**
+ * Decrypt one object the way the site does and compare it with its manifest listing
+ * @returns What is wrong with it, or undefined if nothing is
+ */
+async function verifyObject(
+  filePath: string,
+  expected: Pick<ManifestEntry, 'path' | 'size' | 'sha256'>,
+  session: ContentSession
+): Promise<string | undefined> {
+  if (!existsSync(filePath)) {
+    return `${expected.path} is missing`;
+  }
+
+  const { stream, stats } = measurePlaintext();
+  try {
+    const plaintext = await decryptResponse(new Response(fileSource(filePath)), session);
+    await plaintext.pipeThrough(stream).pipeTo(new WritableStream());
+  } catch (err) {
+    return `${expected.path} does not decrypt: ${messageOf(err)}`;
+  }
+  if (stats.sha256 !== expected.sha256) {
+    return `${expected.path} does not match the manifest's SHA-256`;
+  }
+  if (stats.size !== expected.size) {
+    return `${expected.path} holds ${stats.size} bytes, the manifest says ${expected.size}`;
+  }
+  return undefined;
+}
+
+/**
+ * Check that the site can open everything committed: decrypt the manifest, the
+ * search index and every object with the browser's code, and compare each object
+ * with the manifest
+ * The session is opened as the password gate opens it, and objects go through the
+ * same decryptResponse as a fetched file. Missing objects (originals or smaller
+ * copies), objects that do not decrypt or differ from the manifest, objects the
+ * manifest does not reference and search index documents for files it no longer lists
+ * are reported; any of them makes the exit code non-zero.
+ */
+async function verify(): Promise<void> {
+  try {
+    const session = await openSession(loadPassword(), readKeyring()).catch(explainUnlockError);
+    if (!existsSync(MANIFEST_PATH)) {
+      throw new Error(`${MANIFEST_PATH} not found. Run the encrypt script first.`);
+    }
+    const { categories } = await decryptManifest(readFileSync(MANIFEST_PATH, 'utf-8'), session);
+    const problems: string[] = [];
+    const referenced = new Set<string>();
+    let verified = 0;
+
+    if (existsSync(SEARCH_INDEX_PATH)) {
+      const index = await decryptSearchIndex(readFileSync(SEARCH_INDEX_PATH, 'utf-8'), session)
+        .catch(err => {
+          problems.push(`${siteUrl(SEARCH_INDEX_PATH)} does not decrypt: ${messageOf(err)}`);
+        });
+      for (const [category, documents] of Object.entries(index?.categories ?? {})) {
+        const listed = new Set((categories[category] ?? []).map(entry => entry.path));
+        for (const document of documents.filter(document => !listed.has(document.path))) {
+          problems.push(
+            `${siteUrl(SEARCH_INDEX_PATH)} lists ${category}/${document.title} ` +
+              `(${document.path}), which is not in the manifest`
+          );
+        }
+      }
+    }
+
+    for (const [category, entries] of Object.entries(categories)) {
+      console.log(`🔎 Verifying ${category} (${entries.length} files)...`);
+      for (const entry of entries) {
+        const key = `${category}/${entry.relativePath}`;
+        const objects = [
+          { label: key, object: entry },
+          ...(entry.image?.variants ?? []).map(variant => ({
+            label: `${key} (${variant.width}w copy)`,
+            object: variant,
+          })),
+        ];
+
+        for (const { label, object } of objects) {
+          const filePath = publicFile(object.path);
+          referenced.add(filePath);
+          const problem = await verifyObject(filePath, object, session);
+          if (problem) {
+            problems.push(`${label}: ${problem}`);
+          } else {
+            verified++;
+          }
+        }
+      }
+    }
+
+    const unreferenced = existsSync(OBJECTS_PATH)
+      ? findFiles(OBJECTS_PATH).filter(file => !referenced.has(file))
+      : [];
+    for (const file of unreferenced) {
+      problems.push(`${siteUrl(file)} is not in the manifest (see \`npm run prune\`)`);
+    }
+
+    if (problems.length === 0) {
+      console.log(`\n✅ All ${verified} objects decrypt and match the manifest`);
+      return;
+    }
+    console.log(`\n${problems.map(problem => `  ✗ ${problem}`).join('\n')}`);
+    console.log(
+      `\n❌ ${problems.length} problems found; ${verified} objects decrypt and match the manifest`
+    );
+    process.exit(1);
+  } catch (err) {
+    console.error('❌ Verify failed:', messageOf(err));
+    process.exit(1);
+  }
+}
+
+// Subcommands, by name; running without one (or with only --flags) encrypts
+const COMMANDS: Record<string, (args: string[]) => Promise<unknown>> = {
+  encrypt: encryptFiles,
+  decrypt,
+  restore,
+  list,
+  status,
+  verify,
+  rekey,
+  slot,
+  calibrate,
+  prune,
+};
+
+// Run if called directly
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const [command, ...args] = process.argv.slice(2);
+  if (command === undefined || command.startsWith('--')) {
+    encryptFiles(process.argv.slice(2));
+  } else if (Object.hasOwn(COMMANDS, command)) {
+    COMMANDS[command](args);
+  } else {
+    console.error(`❌ Unknown command "${command}"; use one of: ${Object.keys(COMMANDS).join(', ')}`);
+    process.exit(1);
+  }
+}
+
+export { encryptFiles, decrypt, restore, list, status, verify, rekey, slot, calibrate, prune };
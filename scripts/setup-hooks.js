@@ -27,11 +27,12 @@ set -e
 echo "🔐 Encrypting files before commit..."
 
 # Run the encryption script
-node scripts/encrypt-files.js
+npx tsx scripts/encrypt-files.ts
 
-# Stage the encrypted files
+# Stage the encrypted objects, and the removal of replaced ones
 echo "📋 Staging encrypted files..."
-git add public/**/*.enc 2>/dev/null || true
+git add -A public/objects 2>/dev/null || true
+git add public/manifest.enc public/search-index.enc public/keyring.json 2>/dev/null || true
 
 echo "✅ All done! Encrypted files are ready to commit."
 `;
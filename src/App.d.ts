@@ -1,2 +0,0 @@
-export default function App(): import("react/jsx-runtime").JSX.Element;
-//# sourceMappingURL=App.d.ts.map
\ No newline at end of file
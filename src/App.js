@@ -1,5 +0,0 @@
-import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
-export default function App() {
-    return (_jsxs("div", { className: "min-h-screen bg-gradient-to-br from-purple-100 to-blue-100", children: [_jsx("header", { className: "bg-white shadow", children: _jsx("div", { className: "max-w-7xl mx-auto px-4 py-6", children: _jsx("h1", { className: "text-3xl font-bold text-gray-900", children: "buhbuh" }) }) }), _jsx("main", { className: "max-w-7xl mx-auto px-4 py-12", children: _jsx("p", { className: "text-gray-600", children: "Welcome! Password protection coming soon." }) })] }));
-}
-//# sourceMappingURL=App.js.map
\ No newline at end of file
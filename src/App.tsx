@@ -1,15 +1,56 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { RouterProvider } from '@tanstack/react-router'
+import { useCallback, useEffect, useState } from 'react'
+import { useAutoLock, useAutoLockSettings } from './components/auth/use-auto-lock'
+import { lockContent } from './components/auth/use-content-queries'
+import { router } from './router'
+import { restoreDevice } from './utils/remembered-device'
+import { sessionFromKeys, type ContentSession } from './utils/session'
+
+// Decryption failures are not transient, so retrying would only repeat the work
+const queryClient = new QueryClient({
+  defaultOptions: { queries: { retry: false, refetchOnWindowFocus: false } },
+})
+
 export default function App() {
+  const [session, setSession] = useState<ContentSession | null>(null)
+  // Held until a remembered device has had its chance to skip the password gate
+  const [restoring, setRestoring] = useState(true)
+
+  useEffect(() => {
+    restoreDevice()
+      .then(keys => keys && setSession(sessionFromKeys(keys)))
+      .catch(() => undefined)
+      .finally(() => setRestoring(false))
+  }, [])
+
+  const [autoLock, setAutoLock] = useAutoLockSettings()
+
+  // Drops every decrypted file along with the keys; unmounting the pages and
+  // stopping the player revokes their object URLs
+  const clear = useCallback(() => {
+    lockContent(queryClient)
+    setSession(null)
+  }, [])
+
+  // Locks this tab and every other tab of the site
+  const lock = useAutoLock({ active: session !== null, settings: autoLock, onLock: clear })
+
+  // Re-run the route guards so the gate forwards to the requested page once unlocked
+  useEffect(() => {
+    void router.invalidate()
+  }, [session])
+
+  if (restoring) {
+    return null
+  }
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-purple-100 to-blue-100">
-      <header className="bg-white shadow">
-        <div className="max-w-7xl mx-auto px-4 py-6">
-          <h1 className="text-3xl font-bold text-gray-900">buhbuh</h1>
-        </div>
-      </header>
-      
-      <main className="max-w-7xl mx-auto px-4 py-12">
-        <p className="text-gray-600">Welcome! Password protection coming soon.</p>
-      </main>
-    </div>
+    <QueryClientProvider client={queryClient}>
+      <RouterProvider
+        router={router}
+        context={{ session, setSession, lock, autoLock, setAutoLock }}
+      />
+    </QueryClientProvider>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,44 @@
+/**
+ * Auto-lock settings under the lock button
+ */
+
+import { IDLE_MINUTES_OPTIONS, type AutoLockSettings } from '@/utils/auto-lock';
+
+interface AutoLockControlsProps {
+  settings: AutoLockSettings;
+  onChange: (settings: AutoLockSettings) => void;
+}
+
+export function AutoLockControls({ settings, onChange }: AutoLockControlsProps) {
+  return (
+    <div className="flex flex-col items-end gap-1 text-xs text-slate-400">
+      <label className="flex items-center gap-2">
+        Auto-lock
+        <select
+          value={settings.idleMinutes ?? 'off'}
+          onChange={e => {
+            const value = e.currentTarget.value;
+            onChange({ ...settings, idleMinutes: value === 'off' ? null : Number(value) });
+          }}
+          className="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white"
+        >
+          {IDLE_MINUTES_OPTIONS.map(minutes => (
+            <option key={minutes} value={minutes}>
+              after {minutes} min idle
+            </option>
+          ))}
+          <option value="off">never</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={settings.lockWhenHidden}
+          onChange={e => onChange({ ...settings, lockWhenHidden: e.currentTarget.checked })}
+          className="accent-blue-500"
+        />
+        Lock when the tab is hidden
+      </label>
+    </div>
+  );
+}
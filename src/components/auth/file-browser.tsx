@@ -1,124 +1,273 @@
 /**
  * Component for browsing and viewing encrypted files
  * Shows available content categories and allows downloading/viewing decrypted files
+ * The category and open file come from the URL; selecting one asks the router to
+ * navigate, so every view can be linked to. Listings can be sorted and narrowed to a
+ * tag, using the titles, dates and tags the manifest carries for each file.
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback, FormEvent } from 'react';
+import { Gallery } from '@/components/gallery/gallery';
+import { Lightbox } from '@/components/gallery/lightbox';
+import { useBlobUrlCache, useImageUrl } from '@/components/gallery/use-image-url';
+import { OfflineToggle } from '@/components/offline/offline-toggle';
+import { usePlayerControls } from '@/components/player/player-context';
+import { Reader } from '@/components/reader/reader';
+import { CommandPalette } from '@/components/search/command-palette';
+import { AutoLockControls } from './auto-lock-controls';
+import { FileViewer } from './file-viewer';
+import { RememberedDeviceNotice } from './remembered-device-notice';
+import { useDecryptedFile, useManifest } from './use-content-queries';
 import { useDecryption } from './use-decryption';
+import type { AutoLockSettings } from '@/utils/auto-lock';
+import type { BlobUrlCache } from '@/utils/blob-url-cache';
+import { CATEGORIES } from '@/utils/content-categories';
+import {
+  ENTRY_ORDERS,
+  entryTags,
+  entryTitle,
+  hasTag,
+  sortEntries,
+  splitFrontMatter,
+  type EntryOrder,
+} from '@/utils/content-metadata';
+import { pickVariant } from '@/utils/image-variants';
+import type { ManifestEntry } from '@/utils/manifest';
+import type { ContentSession } from '@/utils/session';
 
-interface ContentCategoryConfig {
-  id: string;
-  label: string;
-  emoji: string;
-  description: string;
+interface FileBrowserProps {
+  /** Session unlocked by the password gate */
+  session: ContentSession;
+  /** Category shown */
+  category: string;
+  /** Path within the category of the open file, if any */
+  file?: string;
+  /** Called when a second password adds access levels to the session */
+  onSessionChange: (session: ContentSession) => void;
+  onSelectCategory: (categoryId: string) => void;
+  /** `replace` swaps the history entry, for stepping through images */
+  onSelectFile: (entry: ManifestEntry, options?: { replace?: boolean }) => void;
+  onCloseFile: () => void;
+  /** Opens a file of any category, from search */
+  onOpenFile: (categoryId: string, entry: ManifestEntry) => void;
+  /** Forgets the session and every decrypted file */
+  onLock: () => void;
+  autoLock: AutoLockSettings;
+  onAutoLockChange: (settings: AutoLockSettings) => void;
 }
 
-const CATEGORIES: ContentCategoryConfig[] = [
-  { id: 'poems', label: 'Poems', emoji: '📝', description: 'Poetry collection' },
-  { id: 'music', label: 'Music', emoji: '🎵', description: 'Audio files' },
-  { id: 'art', label: 'Art', emoji: '🎨', description: 'Artwork' },
-  { id: 'pictures', label: 'Pictures', emoji: '📷', description: 'Photography' },
-  { id: 'writing', label: 'Writing', emoji: '✍️', description: 'Written works' },
-];
+export function FileBrowser({
+  session: gateSession,
+  category: selectedCategory,
+  file,
+  onSessionChange,
+  onSelectCategory,
+  onSelectFile,
+  onCloseFile,
+  onOpenFile,
+  onLock,
+  autoLock,
+  onAutoLockChange,
+}: FileBrowserProps) {
+  const decryption = useDecryption(gateSession);
+  // Grows when a second password unlocks more access levels
+  const session = decryption.session ?? gateSession;
+  const manifest = useManifest(session);
+  const files = manifest.data?.categories ?? NO_FILES;
+  const { playTracks } = usePlayerControls();
+  const imageCache = useBlobUrlCache();
+  const [order, setOrder] = useState<EntryOrder>('name');
+  // Remembered with its category, so switching category shows everything again
+  const [tagFilter, setTagFilter] = useState<{ category: string; tag: string } | null>(null);
 
-interface FileBrowserProps {
-  password: string;
-  onFileDecrypted: (file: { name: string; content: string | Uint8Array; mimeType: string }) => void;
-}
+  useEffect(() => {
+    if (decryption.session && decryption.session !== gateSession) {
+      onSessionChange(decryption.session);
+    }
+  }, [decryption.session, gateSession, onSessionChange]);
+
+  const selectedConfig = CATEGORIES.find(c => c.id === selectedCategory);
+  const selectedLocked = !session.keys.has(selectedConfig?.accessLevel ?? '');
+  const isGallery = selectedConfig?.view === 'gallery';
+
+  const categoryFiles = useMemo(() => files[selectedCategory] ?? [], [files, selectedCategory]);
+  const openEntry = file ? categoryFiles.find(entry => entry.relativePath === file) : undefined;
+  const fileMissing = file !== undefined && !openEntry && !manifest.isPending && !selectedLocked;
+
+  // Everything below works on the listing as sorted and filtered, so the player, the
+  // lightbox and the reader step through files in the order they are shown
+  const tags = useMemo(() => entryTags(categoryFiles), [categoryFiles]);
+  const activeTag =
+    tagFilter?.category === selectedCategory && tags.includes(tagFilter.tag) ? tagFilter.tag : null;
+  const shownFiles = useMemo(
+    () =>
+      sortEntries(
+        activeTag ? categoryFiles.filter(entry => hasTag(entry, activeTag)) : categoryFiles,
+        order
+      ),
+    [categoryFiles, activeTag, order]
+  );
+
+  // Audio goes to the persistent player, queued with the rest of the listing
+  const tracks = useMemo(() => shownFiles.filter(entry => isAudio(entry)), [shownFiles]);
+
+  // Gallery categories show their images as a grid, and any other files as a list
+  const images = useMemo(
+    () => (isGallery ? shownFiles.filter(entry => isImage(entry)) : []),
+    [shownFiles, isGallery]
+  );
+  const listed = isGallery ? shownFiles.filter(entry => !isImage(entry)) : shownFiles;
+  const lightboxEntry = openEntry && isGallery && isImage(openEntry) ? openEntry : undefined;
 
-export function FileBrowser({ password, onFileDecrypted }: FileBrowserProps) {
-  const decryption = useDecryption();
-  const [selectedCategory, setSelectedCategory] = useState<string>('poems');
-  const [files, setFiles] = useState<Record<string, string[]>>({});
-  const [loadingFiles, setLoadingFiles] = useState(false);
+  // Text opens in the reader, which steps through the category's other text files
+  const texts = useMemo(() => shownFiles.filter(entry => isText(entry)), [shownFiles]);
+  const readerEntry = openEntry && isText(openEntry) ? openEntry : undefined;
 
-  // Load encrypted file list on mount
+  // Audio streams through the player and images through the gallery cache instead
+  const decryptedEntry =
+    openEntry && !lightboxEntry && !isAudio(openEntry) ? openEntry : undefined;
+  const opened = useDecryptedFile(decryptedEntry, session);
+  const openFile = opened.data;
+  // Front matter is already shown as the title, or was never meant to be read
+  const readerText =
+    readerEntry && typeof openFile?.content === 'string'
+      ? splitFrontMatter(openFile.content).body
+      : null;
+
+  // Audio named in the URL starts in the player, queued with the rest of the listing
   useEffect(() => {
-    const loadFiles = async () => {
-      setLoadingFiles(true);
-      const fileMap: Record<string, string[]> = {};
-
-      for (const category of CATEGORIES) {
-        try {
-          // Try to fetch a manifest or scan the directory
-          // For now, we'll assume files are listed via a simple manifest
-          const response = await fetch(`/api/files/${category.id}?format=json`);
-          if (response.ok) {
-            fileMap[category.id] = await response.json();
-          }
-        } catch {
-          // Category might be empty
-          fileMap[category.id] = [];
-        }
-      }
-
-      setFiles(fileMap);
-      setLoadingFiles(false);
-    };
-
-    loadFiles();
-  }, []);
-
-  const handleFileSelect = async (filePath: string) => {
-    try {
-      const file = await decryption.decryptFile(filePath, password);
-      if (file) {
-        onFileDecrypted(file);
-      }
-    } catch (err) {
-      console.error('Failed to decrypt file:', err);
+    if (openEntry && isAudio(openEntry)) {
+      playTracks(tracks, openEntry);
+    }
+  }, [openEntry, playTracks, tracks]);
+
+  // Stepping through images or texts replaces the history entry, so Back closes the view
+  const stepTo = useCallback(
+    (entry: ManifestEntry) => onSelectFile(entry, { replace: true }),
+    [onSelectFile]
+  );
+
+  const errorMessage =
+    manifest.error?.message ?? opened.error?.message ?? decryption.error ?? null;
+
+  const handleFileSelect = (entry: ManifestEntry) => {
+    // Start from the click itself, so autoplay policies allow it
+    if (isAudio(entry)) {
+      playTracks(tracks, entry);
     }
+    onSelectFile(entry);
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 p-6">
       <div className="max-w-6xl mx-auto">
         {/* Header */}
-        <div className="mb-12 text-center">
+        <div className="relative mb-12 text-center">
           <h1 className="text-4xl font-bold text-white mb-2">buhbuh</h1>
           <p className="text-slate-300">Explore encrypted content</p>
+          <RememberedDeviceNotice onForget={onLock} />
+          <div className="mt-4 flex flex-col items-center gap-2 md:absolute md:right-0 md:top-0 md:mt-0 md:items-end">
+            <CommandPalette
+              session={session}
+              files={files}
+              onSelectCategory={onSelectCategory}
+              onOpenFile={onOpenFile}
+            />
+            <button
+              onClick={onLock}
+              title="Lock every open tab and forget everything decrypted"
+              className="px-3 py-2 text-sm text-slate-300 bg-slate-700/50 hover:bg-slate-700 rounded-lg transition-colors"
+            >
+              🔒 Lock
+            </button>
+            <AutoLockControls settings={autoLock} onChange={onAutoLockChange} />
+          </div>
         </div>
 
         {/* Categories Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-12">
-          {CATEGORIES.map(category => (
-            <button
-              key={category.id}
-              onClick={() => setSelectedCategory(category.id)}
-              className={`p-6 rounded-lg border-2 transition-all text-center ${
-                selectedCategory === category.id
-                  ? 'bg-blue-600/20 border-blue-500'
-                  : 'bg-slate-700/30 border-slate-600 hover:border-slate-500'
-              }`}
-            >
-              <div className="text-4xl mb-2">{category.emoji}</div>
-              <h3 className="text-lg font-semibold text-white">{category.label}</h3>
-              <p className="text-sm text-slate-400">{category.description}</p>
-            </button>
-          ))}
+          {CATEGORIES.map(category => {
+            const locked = !session.keys.has(category.accessLevel);
+
+            return (
+              <button
+                key={category.id}
+                onClick={() => onSelectCategory(category.id)}
+                className={`p-6 rounded-lg border-2 transition-all text-center ${
+                  selectedCategory === category.id
+                    ? 'bg-blue-600/20 border-blue-500'
+                    : 'bg-slate-700/30 border-slate-600 hover:border-slate-500'
+                } ${locked ? 'opacity-60' : ''}`}
+              >
+                <div className="text-4xl mb-2">{locked ? '🔒' : category.emoji}</div>
+                <h3 className="text-lg font-semibold text-white">{category.label}</h3>
+                <p className="text-sm text-slate-400">
+                  {locked ? 'Needs another password' : category.description}
+                </p>
+              </button>
+            );
+          })}
         </div>
 
         {/* File List */}
         <div className="bg-slate-800 rounded-lg border border-slate-700 p-8">
-          <h2 className="text-2xl font-bold text-white mb-6">
-            {CATEGORIES.find(c => c.id === selectedCategory)?.label} Files
-          </h2>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <h2 className="text-2xl font-bold text-white">
+              {CATEGORIES.find(c => c.id === selectedCategory)?.label} Files
+            </h2>
+            {!selectedLocked && <OfflineToggle entries={categoryFiles} />}
+          </div>
+
+          {openFile && !readerEntry && (
+            <FileViewer file={openFile} onClose={onCloseFile} />
+          )}
+
+          {fileMissing && (
+            <p className="mb-6 text-slate-400">&ldquo;{file}&rdquo; is not in this category.</p>
+          )}
 
-          {loadingFiles ? (
+          {selectedLocked ? (
+            <UnlockCategoryPrompt
+              isLoading={decryption.isLoading}
+              onUnlock={password => decryption.unlock(password)}
+            />
+          ) : manifest.isPending ? (
             <div className="text-center py-8 text-slate-400">
               <div className="animate-spin text-2xl mb-2">⏳</div>
               <p>Loading files...</p>
             </div>
-          ) : (files[selectedCategory]?.length ?? 0) > 0 ? (
-            <div className="space-y-2">
-              {files[selectedCategory]?.map(filePath => (
-                <FileListItem
-                  key={filePath}
-                  filePath={filePath}
-                  isLoading={decryption.isLoading}
-                  onSelect={handleFileSelect}
+          ) : categoryFiles.length > 0 ? (
+            <div className="space-y-6">
+              <ListingControls
+                order={order}
+                onOrderChange={setOrder}
+                tags={tags}
+                activeTag={activeTag}
+                onTagChange={tag => setTagFilter(tag ? { category: selectedCategory, tag } : null)}
+              />
+              {images.length > 0 && (
+                <Gallery
+                  entries={images}
+                  session={session}
+                  cache={imageCache}
+                  onOpen={onSelectFile}
                 />
-              ))}
+              )}
+              {listed.length > 0 && (
+                <div className="space-y-2">
+                  {listed.map(entry => (
+                    <FileListItem
+                      key={entry.path}
+                      entry={entry}
+                      cover={categoryFiles.find(e => e.relativePath === entry.meta?.cover)}
+                      session={session}
+                      cache={imageCache}
+                      isLoading={opened.isFetching}
+                      onSelect={handleFileSelect}
+                    />
+                  ))}
+                </div>
+              )}
             </div>
           ) : (
             <div className="text-center py-8 text-slate-400">
@@ -127,10 +276,32 @@ export function FileBrowser({ password, onFileDecrypted }: FileBrowserProps) {
           )}
         </div>
 
+        {lightboxEntry && (
+          <Lightbox
+            entries={images}
+            current={lightboxEntry}
+            session={session}
+            cache={imageCache}
+            onNavigate={stepTo}
+            onClose={onCloseFile}
+          />
+        )}
+
+        {readerEntry && (
+          <Reader
+            entry={readerEntry}
+            text={readerText}
+            layout={selectedConfig?.view === 'verse' ? 'verse' : 'prose'}
+            entries={texts}
+            onNavigate={stepTo}
+            onClose={onCloseFile}
+          />
+        )}
+
         {/* Error display */}
-        {decryption.error && (
+        {errorMessage && (
           <div className="mt-6 p-4 bg-red-900/20 border border-red-700 rounded-lg">
-            <p className="text-red-400">{decryption.error}</p>
+            <p className="text-red-400">{errorMessage}</p>
           </div>
         )}
       </div>
@@ -138,30 +309,227 @@ export function FileBrowser({ password, onFileDecrypted }: FileBrowserProps) {
   );
 }
 
+interface UnlockCategoryPromptProps {
+  isLoading: boolean;
+  /** Resolves to whether the password opened a key slot */
+  onUnlock: (password: string) => Promise<boolean>;
+}
+
+/**
+ * Second-password form shown in place of a locked category's files
+ */
+function UnlockCategoryPrompt({ isLoading, onUnlock }: UnlockCategoryPromptProps) {
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (password.trim() && (await onUnlock(password))) {
+      setPassword('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm mx-auto py-8 text-center space-y-4">
+      <div className="text-3xl">🔒</div>
+      <p className="text-slate-300">This category needs a different password.</p>
+      <input
+        type="password"
+        value={password}
+        onChange={e => setPassword(e.currentTarget.value)}
+        placeholder="Enter password..."
+        disabled={isLoading}
+        className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+      />
+      <button
+        type="submit"
+        disabled={isLoading || !password.trim()}
+        className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed"
+      >
+        {isLoading ? 'Verifying...' : 'Unlock'}
+      </button>
+    </form>
+  );
+}
+
+const ORDER_LABELS: Record<EntryOrder, string> = {
+  name: 'File name',
+  title: 'Title',
+  date: 'Newest first',
+};
+
+interface ListingControlsProps {
+  order: EntryOrder;
+  onOrderChange: (order: EntryOrder) => void;
+  /** Tags used in the category */
+  tags: string[];
+  activeTag: string | null;
+  onTagChange: (tag: string | null) => void;
+}
+
+/**
+ * Sort order and tag filter for a category's files
+ */
+function ListingControls({
+  order,
+  onOrderChange,
+  tags,
+  activeTag,
+  onTagChange,
+}: ListingControlsProps) {
+  const tagClass = (active: boolean) =>
+    `px-2 py-1 rounded-full border transition-colors ${
+      active
+        ? 'bg-blue-600/30 border-blue-500 text-white'
+        : 'border-slate-600 text-slate-300 hover:border-slate-500'
+    }`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <label className="flex items-center gap-2 text-slate-400">
+        Sort by
+        <select
+          value={order}
+          onChange={e => onOrderChange(e.currentTarget.value as EntryOrder)}
+          className="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white focus:outline-none focus:border-blue-500"
+        >
+          {ENTRY_ORDERS.map(option => (
+            <option key={option} value={option}>
+              {ORDER_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Filter by tag">
+          <button
+            onClick={() => onTagChange(null)}
+            aria-pressed={activeTag === null}
+            className={tagClass(activeTag === null)}
+          >
+            All
+          </button>
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => onTagChange(tag === activeTag ? null : tag)}
+              aria-pressed={tag === activeTag}
+              className={tagClass(tag === activeTag)}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface FileListItemProps {
-  filePath: string;
+  entry: ManifestEntry;
+  /** Image named as the file's cover, if the category has it */
+  cover?: ManifestEntry;
+  session: ContentSession;
+  cache: BlobUrlCache;
   isLoading: boolean;
-  onSelect: (filePath: string) => void;
+  onSelect: (entry: ManifestEntry) => void;
 }
 
-function FileListItem({ filePath, isLoading, onSelect }: FileListItemProps) {
-  const fileName = filePath.split('/').pop() || filePath;
-  const fileExtension = fileName.split('.').pop() || '';
+function FileListItem({ entry, cover, session, cache, isLoading, onSelect }: FileListItemProps) {
+  const fileExtension = entry.name.split('.').pop() || '';
+  const title = entryTitle(entry);
 
   return (
     <button
-      onClick={() => onSelect(filePath)}
+      onClick={() => onSelect(entry)}
       disabled={isLoading}
       className="w-full p-4 text-left bg-slate-700 hover:bg-slate-600 rounded-lg border border-slate-600 hover:border-slate-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-between"
     >
-      <div className="flex items-center gap-3 flex-1">
-        <span className="text-xl">📄</span>
-        <div>
-          <p className="text-white font-medium">{fileName}</p>
-          <p className="text-xs text-slate-400">{fileExtension.toUpperCase()}</p>
+      <div className="flex items-center gap-3 flex-1 min-w-0">
+        {cover ? (
+          <CoverThumbnail cover={cover} session={session} cache={cache} />
+        ) : (
+          <span className="text-xl">📄</span>
+        )}
+        <div className="min-w-0">
+          <p className="text-white font-medium">{title}</p>
+          {entry.meta?.description && (
+            <p className="text-sm text-slate-300 line-clamp-2">{entry.meta.description}</p>
+          )}
+          <p className="text-xs text-slate-400">
+            {entry.meta?.date && <>{formatDate(entry.meta.date)} · </>}
+            {title !== entry.relativePath && <>{entry.relativePath} · </>}
+            {fileExtension.toUpperCase()} · {formatSize(entry.size)}
+            {entry.meta?.tags?.map(tag => (
+              <span key={tag} className="ml-2 text-slate-300">
+                #{tag}
+              </span>
+            ))}
+          </p>
         </div>
       </div>
       <span className="text-slate-400">→</span>
     </button>
   );
 }
+
+// Shown at 48 CSS pixels
+const COVER_SIZE = 48;
+
+function CoverThumbnail({
+  cover,
+  session,
+  cache,
+}: {
+  cover: ManifestEntry;
+  session: ContentSession;
+  cache: BlobUrlCache;
+}) {
+  const source = useMemo(
+    () => pickVariant(cover, COVER_SIZE * (window.devicePixelRatio || 1)),
+    [cover]
+  );
+  const image = useImageUrl(cache, source, session);
+
+  return (
+    <span
+      style={{ backgroundColor: cover.image?.placeholder }}
+      className="relative w-12 h-12 shrink-0 overflow-hidden rounded bg-slate-600"
+    >
+      {image.url && (
+        <img src={image.url} alt="" className="absolute inset-0 w-full h-full object-cover" />
+      )}
+    </span>
+  );
+}
+
+const NO_FILES: Record<string, ManifestEntry[]> = {};
+
+function isAudio(entry: ManifestEntry): boolean {
+  return entry.contentType.startsWith('audio/');
+}
+
+function isImage(entry: ManifestEntry): boolean {
+  return entry.contentType.startsWith('image/');
+}
+
+// Matches the types useDecryptedFile decodes to a string
+function isText(entry: ManifestEntry): boolean {
+  return entry.contentType.startsWith('text/');
+}
+
+/**
+ * A YYYY-MM-DD date in the reader's locale
+ */
+function formatDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { dateStyle: 'medium' });
+}
+
+/**
+ * Human-readable file size
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,59 @@
+/**
+ * Viewer for a decrypted binary file
+ * Images and video play from an object URL; anything else is offered as a download.
+ * (Text opens in the reader and audio in the persistent player instead.)
+ */
+
+import { useState, useEffect } from 'react';
+import type { DecryptedFile } from './use-content-queries';
+
+interface FileViewerProps {
+  file: DecryptedFile;
+  onClose: () => void;
+}
+
+export function FileViewer({ file, onClose }: FileViewerProps) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  // Binary content is only reachable through an object URL; release it on change
+  useEffect(() => {
+    if (typeof file.content === 'string') {
+      setUrl(null);
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(
+      new Blob([new Uint8Array(file.content)], { type: file.mimeType })
+    );
+    setUrl(objectUrl);
+
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+    };
+  }, [file]);
+
+  return (
+    <div className="mb-6 bg-slate-900 rounded-lg border border-slate-600 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white truncate">{file.name}</h3>
+        <button
+          onClick={onClose}
+          className="text-slate-400 hover:text-slate-200 transition-colors"
+          aria-label="Close file"
+        >
+          ✕
+        </button>
+      </div>
+
+      {!url ? null : file.mimeType.startsWith('image/') ? (
+        <img src={url} alt={file.name} className="max-h-[70vh] mx-auto rounded" />
+      ) : file.mimeType.startsWith('video/') ? (
+        <video src={url} controls className="w-full max-h-[70vh]" />
+      ) : (
+        <a href={url} download={file.name} className="text-blue-400 hover:text-blue-300">
+          Download {file.name}
+        </a>
+      )}
+    </div>
+  );
+}
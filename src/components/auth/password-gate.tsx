@@ -4,10 +4,14 @@
  */
 
 import { useState, FormEvent, ChangeEvent } from 'react';
+import { DEFAULT_REMEMBER_DAYS, REMEMBER_DAYS_OPTIONS } from '@/utils/remembered-device';
 
 interface PasswordGateProps {
-  /** Callback when correct password is submitted */
-  onUnlock: (password: string) => void;
+  /**
+   * Callback when a password is submitted; it unlocks whichever key slot it opens
+   * `rememberDays` is set when the visitor asked to remember this device
+   */
+  onUnlock: (password: string, rememberDays?: number) => void;
   /** Optional message to display */
   message?: string;
   /** Whether to show as loading */
@@ -27,11 +31,13 @@ export function PasswordGate({
 }: PasswordGateProps) {
   const [password, setPassword] = useState('');
   const [show, setShow] = useState(false);
+  const [remember, setRemember] = useState(false);
+  const [rememberDays, setRememberDays] = useState(DEFAULT_REMEMBER_DAYS);
 
   const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (password.trim()) {
-      onUnlock(password);
+      onUnlock(password, remember ? rememberDays : undefined);
     }
   };
 
@@ -82,6 +88,30 @@ export function PasswordGate({
               </button>
             </div>
 
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={remember}
+                onChange={e => setRemember(e.currentTarget.checked)}
+                disabled={isLoading}
+                className="accent-blue-500"
+              />
+              Remember this device for
+              <select
+                value={rememberDays}
+                onChange={e => setRememberDays(Number(e.currentTarget.value))}
+                disabled={isLoading || !remember}
+                className="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white disabled:opacity-50"
+              >
+                {REMEMBER_DAYS_OPTIONS.map(days => (
+                  <option key={days} value={days}>
+                    {days}
+                  </option>
+                ))}
+              </select>
+              {rememberDays === 1 ? 'day' : 'days'}
+            </label>
+
             <button
               type="submit"
               disabled={isLoading || !password.trim()}
@@ -102,6 +132,7 @@ export function PasswordGate({
           <div className="mt-8 text-center text-xs text-slate-400">
             <p>Your content is encrypted end-to-end</p>
             <p>Password is never transmitted anywhere</p>
+            {remember && <p>Only remember devices that no one else uses</p>}
           </div>
         </div>
 
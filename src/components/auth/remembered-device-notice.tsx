@@ -0,0 +1,54 @@
+/**
+ * Shows until when this device stays unlocked, with a way to forget it
+ * Renders nothing unless the device was remembered at the password gate.
+ */
+
+import { useEffect, useState } from 'react';
+import { forgetDevice, rememberedUntil } from '@/utils/remembered-device';
+
+interface RememberedDeviceNoticeProps {
+  /** Called once the device is forgotten, to lock the open session too */
+  onForget: () => void;
+}
+
+export function RememberedDeviceNotice({ onForget }: RememberedDeviceNoticeProps) {
+  const [until, setUntil] = useState<Date | null>(null);
+  const [forgetting, setForgetting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    rememberedUntil()
+      .then(date => !cancelled && setUntil(date))
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!until) {
+    return null;
+  }
+
+  const handleForget = async () => {
+    setForgetting(true);
+    try {
+      await forgetDevice();
+    } finally {
+      setUntil(null);
+      onForget();
+    }
+  };
+
+  return (
+    <p className="mt-2 text-xs text-slate-400">
+      Remembered on this device until {until.toLocaleDateString()} ·{' '}
+      <button
+        onClick={handleForget}
+        disabled={forgetting}
+        className="underline hover:text-slate-200 disabled:opacity-50"
+      >
+        Forget this device
+      </button>
+    </p>
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * Test suite for the auto-lock hook
+ * Tests the idle timeout, locking hidden tabs and locking across tabs
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useAutoLock, useAutoLockSettings, type LockChannel } from './use-auto-lock';
+import {
+  AUTO_LOCK_SETTINGS_KEY,
+  type AutoLockSettings,
+  type LockMessage,
+} from '@/utils/auto-lock';
+
+const MINUTE_MS = 60 * 1000;
+
+class FakeChannel implements LockChannel {
+  sent: LockMessage[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  closed = false;
+
+  postMessage(message: LockMessage) {
+    this.sent.push(message);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  receive(data: unknown) {
+    this.onmessage?.({ data } as MessageEvent);
+  }
+}
+
+function setup(settings: AutoLockSettings, active = true) {
+  const channel = new FakeChannel();
+  const onLock = vi.fn();
+  const createChannel = () => channel;
+  const hook = renderHook(props => useAutoLock({ ...props, onLock, createChannel }), {
+    initialProps: { active, settings },
+  });
+  return { channel, onLock, hook };
+}
+
+function setVisibility(state: typeof document.visibilityState) {
+  Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+describe('useAutoLock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setVisibility('visible');
+  });
+
+  it('should lock every tab after the idle timeout', () => {
+    const { channel, onLock } = setup({ idleMinutes: 5, lockWhenHidden: false });
+
+    act(() => vi.advanceTimersByTime(5 * MINUTE_MS - 1));
+    expect(onLock).not.toHaveBeenCalled();
+
+    act(() => vi.advanceTimersByTime(1));
+    expect(onLock).toHaveBeenCalledTimes(1);
+    expect(channel.sent).toEqual([{ type: 'lock' }]);
+  });
+
+  it('should restart the timeout on activity and share it with other tabs', () => {
+    const { channel, onLock } = setup({ idleMinutes: 5, lockWhenHidden: false });
+
+    act(() => vi.advanceTimersByTime(4 * MINUTE_MS));
+    act(() => {
+      window.dispatchEvent(new Event('keydown'));
+    });
+    act(() => vi.advanceTimersByTime(4 * MINUTE_MS));
+
+    expect(onLock).not.toHaveBeenCalled();
+    expect(channel.sent).toEqual([{ type: 'activity', at: Date.now() - 4 * MINUTE_MS }]);
+
+    act(() => vi.advanceTimersByTime(MINUTE_MS));
+    expect(onLock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count activity in other tabs', () => {
+    const { channel, onLock } = setup({ idleMinutes: 5, lockWhenHidden: false });
+
+    act(() => vi.advanceTimersByTime(4 * MINUTE_MS));
+    act(() => channel.receive({ type: 'activity', at: Date.now() }));
+    act(() => vi.advanceTimersByTime(4 * MINUTE_MS));
+
+    expect(onLock).not.toHaveBeenCalled();
+  });
+
+  it('should not time out when disabled or locked', () => {
+    const disabled = setup({ idleMinutes: null, lockWhenHidden: false });
+    const locked = setup({ idleMinutes: 5, lockWhenHidden: false }, false);
+
+    act(() => vi.advanceTimersByTime(60 * MINUTE_MS));
+
+    expect(disabled.onLock).not.toHaveBeenCalled();
+    expect(locked.onLock).not.toHaveBeenCalled();
+  });
+
+  it('should lock when another tab locks', () => {
+    const { channel, onLock } = setup({ idleMinutes: null, lockWhenHidden: false }, false);
+
+    act(() => channel.receive({ type: 'lock' }));
+    act(() => channel.receive({ type: 'unlock' }));
+
+    expect(onLock).toHaveBeenCalledTimes(1);
+    expect(channel.sent).toEqual([]);
+  });
+
+  it('should lock and announce from the lock button', () => {
+    const { channel, onLock, hook } = setup({ idleMinutes: null, lockWhenHidden: false });
+
+    act(() => hook.result.current());
+
+    expect(onLock).toHaveBeenCalledTimes(1);
+    expect(channel.sent).toEqual([{ type: 'lock' }]);
+  });
+
+  it('should lock only this tab when it is hidden', () => {
+    const { channel, onLock } = setup({ idleMinutes: null, lockWhenHidden: true });
+
+    act(() => setVisibility('hidden'));
+
+    expect(onLock).toHaveBeenCalledTimes(1);
+    expect(channel.sent).toEqual([]);
+  });
+
+  it('should leave hidden tabs unlocked unless asked', () => {
+    const { onLock } = setup({ idleMinutes: null, lockWhenHidden: false });
+
+    act(() => setVisibility('hidden'));
+
+    expect(onLock).not.toHaveBeenCalled();
+  });
+
+  it('should close the channel on unmount', () => {
+    const { channel, hook } = setup({ idleMinutes: 5, lockWhenHidden: false });
+
+    hook.unmount();
+
+    expect(channel.closed).toBe(true);
+  });
+});
+
+describe('useAutoLockSettings', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should save changed settings', () => {
+    const { result } = renderHook(() => useAutoLockSettings());
+
+    act(() => result.current[1]({ idleMinutes: 15, lockWhenHidden: true }));
+
+    expect(result.current[0]).toEqual({ idleMinutes: 15, lockWhenHidden: true });
+    expect(JSON.parse(window.localStorage.getItem(AUTO_LOCK_SETTINGS_KEY)!)).toEqual({
+      idleMinutes: 15,
+      lockWhenHidden: true,
+    });
+    expect(renderHook(() => useAutoLockSettings()).result.current[0].idleMinutes).toBe(15);
+  });
+});
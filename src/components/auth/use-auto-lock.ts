@@ -0,0 +1,164 @@
+/**
+ * Locking on inactivity, on hiding the tab, and across tabs
+ * Every lock in one tab is announced over a BroadcastChannel so the site's other
+ * tabs lock too, except locking a hidden tab, which only empties that tab.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ACTIVITY_SHARE_INTERVAL,
+  AUTO_LOCK_SETTINGS_KEY,
+  LOCK_CHANNEL,
+  idleTimeRemaining,
+  isLockMessage,
+  parseAutoLockSettings,
+  type AutoLockSettings,
+  type LockMessage,
+} from '@/utils/auto-lock';
+
+/** The parts of a BroadcastChannel used here */
+export interface LockChannel {
+  postMessage(message: LockMessage): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+  close(): void;
+}
+
+// Input that counts as the visitor still being there
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'];
+
+function openBroadcastChannel(name: string): LockChannel | null {
+  return typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(name);
+}
+
+interface UseAutoLockOptions {
+  /** Whether anything is unlocked; timers only run while it is */
+  active: boolean;
+  settings: AutoLockSettings;
+  /** Clears this tab's session and decrypted content */
+  onLock: () => void;
+  /** Opens the channel to the other tabs; null where there is none */
+  createChannel?: (name: string) => LockChannel | null;
+}
+
+/**
+ * Locks this tab when the settings say so, or when another tab locks
+ * @returns Locks every tab, for the lock button
+ */
+export function useAutoLock({
+  active,
+  settings: { idleMinutes, lockWhenHidden },
+  onLock,
+  createChannel = openBroadcastChannel,
+}: UseAutoLockOptions): () => void {
+  const onLockRef = useRef(onLock);
+  const channelRef = useRef<LockChannel | null>(null);
+  const lastActivityRef = useRef(Date.now());
+
+  useEffect(() => {
+    onLockRef.current = onLock;
+  }, [onLock]);
+
+  useEffect(() => {
+    const channel = createChannel(LOCK_CHANNEL);
+    channelRef.current = channel;
+    if (channel) {
+      channel.onmessage = event => {
+        const message: unknown = event.data;
+        if (!isLockMessage(message)) {
+          return;
+        }
+        if (message.type === 'lock') {
+          onLockRef.current();
+        } else {
+          lastActivityRef.current = Math.max(lastActivityRef.current, message.at);
+        }
+      };
+    }
+    return () => {
+      channel?.close();
+      channelRef.current = null;
+    };
+  }, [createChannel]);
+
+  const lock = useCallback(() => {
+    onLockRef.current();
+    channelRef.current?.postMessage({ type: 'lock' });
+  }, []);
+
+  useEffect(() => {
+    if (!active || idleMinutes === null) {
+      return;
+    }
+
+    lastActivityRef.current = Date.now();
+    let lastShared = 0;
+    let timer: number;
+
+    // Checks again when the timeout would pass, as activity keeps moving it
+    const check = () => {
+      const remaining = idleTimeRemaining(lastActivityRef.current, idleMinutes, Date.now());
+      if (remaining === 0) {
+        lock();
+      } else {
+        timer = window.setTimeout(check, remaining);
+      }
+    };
+    const handleActivity = () => {
+      const now = Date.now();
+      lastActivityRef.current = now;
+      if (now - lastShared >= ACTIVITY_SHARE_INTERVAL) {
+        lastShared = now;
+        channelRef.current?.postMessage({ type: 'activity', at: now });
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(type =>
+      window.addEventListener(type, handleActivity, { passive: true, capture: true })
+    );
+    check();
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(type =>
+        window.removeEventListener(type, handleActivity, { capture: true })
+      );
+    };
+  }, [active, idleMinutes, lock]);
+
+  // Only this tab: the other tabs are on screen, or will lock when they are hidden
+  useEffect(() => {
+    if (!active || !lockWhenHidden) {
+      return;
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        onLockRef.current();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [active, lockWhenHidden]);
+
+  return lock;
+}
+
+/**
+ * Auto-lock settings, saved to localStorage on change
+ */
+export function useAutoLockSettings(): [AutoLockSettings, (settings: AutoLockSettings) => void] {
+  const [settings, setSettings] = useState(() =>
+    parseAutoLockSettings(window.localStorage.getItem(AUTO_LOCK_SETTINGS_KEY))
+  );
+
+  const update = useCallback((next: AutoLockSettings) => {
+    setSettings(next);
+    try {
+      window.localStorage.setItem(AUTO_LOCK_SETTINGS_KEY, JSON.stringify(next));
+    } catch {
+      // Storage can be full or disabled; the choice still applies for this visit
+    }
+  }, []);
+
+  return [settings, update];
+}
@@ -0,0 +1,234 @@
+/**
+ * Test suite for the content query hooks
+ * Tests decryption, sharing of concurrent requests, eviction and locking
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createElement, type ReactNode } from 'react';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import {
+  FILE_GC_TIME,
+  contentKeys,
+  lockContent,
+  useDecryptedFile,
+  useManifest,
+  useSearchIndex,
+} from './use-content-queries';
+import { bytesToStream } from '@/utils/encoding';
+import { fetchDecryptedStream } from '@/utils/encrypted-fetch';
+import { fetchManifest } from '@/utils/manifest';
+import { fetchSearchIndex } from '@/utils/search-index';
+import type { ContentSession } from '@/utils/session';
+import { manifestEntry } from '@/test/fixtures';
+
+vi.mock('@/utils/encrypted-fetch');
+vi.mock('@/utils/manifest', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/utils/manifest')>()),
+  fetchManifest: vi.fn(),
+}));
+vi.mock('@/utils/search-index', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/utils/search-index')>()),
+  fetchSearchIndex: vi.fn(),
+}));
+
+function mockSession(...levels: string[]): ContentSession {
+  return {
+    keys: new Map(levels.map(level => [level, {} as CryptoKey])),
+    encrypt: vi.fn(),
+    decrypt: vi.fn(),
+    encryptStream: vi.fn(),
+    decryptStream: vi.fn(),
+  };
+}
+
+function setup() {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+  return { queryClient, wrapper };
+}
+
+describe('useDecryptedFile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchDecryptedStream).mockImplementation(async () =>
+      bytesToStream(new TextEncoder().encode('a poem'))
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should decode text files to a string', async () => {
+    const { wrapper } = setup();
+    const session = mockSession('public');
+    const poem = manifestEntry('summer/lake.md');
+
+    const { result } = renderHook(() => useDecryptedFile(poem, session), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(fetchDecryptedStream).toHaveBeenCalledWith(poem.path, session);
+    expect(result.current.data).toMatchObject({
+      name: 'lake.md',
+      content: 'a poem',
+      mimeType: 'text/markdown',
+    });
+  });
+
+  it('should keep other files as bytes', async () => {
+    const { wrapper } = setup();
+
+    const { result } = renderHook(
+      () => useDecryptedFile(manifestEntry('scan.pdf'), mockSession('public')),
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    const content = result.current.data?.content;
+    expect(typeof content).not.toBe('string');
+    expect(Array.from(content as Uint8Array)).toEqual(
+      Array.from(new TextEncoder().encode('a poem'))
+    );
+  });
+
+  it('should decrypt a file once for concurrent readers', async () => {
+    const { wrapper } = setup();
+    const session = mockSession('public');
+    const poem = manifestEntry('lake.txt');
+
+    const { result } = renderHook(
+      () => [useDecryptedFile(poem, session), useDecryptedFile(poem, mockSession('public'))],
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.every(query => query.isSuccess)).toBe(true));
+    expect(fetchDecryptedStream).toHaveBeenCalledTimes(1);
+    expect(result.current[0].data).toBe(result.current[1].data);
+  });
+
+  it('should not share files between sessions with different levels', async () => {
+    const { wrapper } = setup();
+    const poem = manifestEntry('lake.txt');
+
+    const { result } = renderHook(
+      () => [
+        useDecryptedFile(poem, mockSession('public')),
+        useDecryptedFile(poem, mockSession('public', 'private')),
+      ],
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.every(query => query.isSuccess)).toBe(true));
+    expect(fetchDecryptedStream).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stay idle without an entry', () => {
+    const { wrapper } = setup();
+
+    const { result } = renderHook(() => useDecryptedFile(undefined, mockSession('public')), {
+      wrapper,
+    });
+
+    expect(result.current.fetchStatus).toBe('idle');
+    expect(fetchDecryptedStream).not.toHaveBeenCalled();
+  });
+
+  it('should report decryption errors', async () => {
+    vi.mocked(fetchDecryptedStream).mockRejectedValueOnce(new Error('Decryption failed'));
+    const { wrapper } = setup();
+
+    const { result } = renderHook(
+      () => useDecryptedFile(manifestEntry('test.txt'), mockSession('public')),
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(result.current.error?.message).toBe('Decryption failed');
+  });
+
+  it('should evict plaintext once nothing has shown it for a while', async () => {
+    const { queryClient, wrapper } = setup();
+    const session = mockSession('public');
+    const poem = manifestEntry('lake.txt');
+
+    const { result, unmount } = renderHook(() => useDecryptedFile(poem, session), { wrapper });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    vi.useFakeTimers();
+    unmount();
+    act(() => vi.advanceTimersByTime(FILE_GC_TIME - 1));
+    expect(queryClient.getQueryData(contentKeys.file(session, poem))).toBeDefined();
+
+    act(() => vi.advanceTimersByTime(1));
+    expect(queryClient.getQueryData(contentKeys.file(session, poem))).toBeUndefined();
+  });
+});
+
+describe('useManifest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should decrypt the manifest with the session', async () => {
+    const manifest = {
+      version: 2 as const,
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      categories: { poems: [manifestEntry('lake.txt')] },
+    };
+    vi.mocked(fetchManifest).mockResolvedValueOnce(manifest);
+    const { wrapper } = setup();
+    const session = mockSession('public');
+
+    const { result } = renderHook(() => useManifest(session), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(fetchManifest).toHaveBeenCalledWith(session);
+    expect(result.current.data).toBe(manifest);
+  });
+});
+
+describe('useSearchIndex', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should only fetch the index once enabled', async () => {
+    const index = { version: 1 as const, categories: { poems: [] } };
+    vi.mocked(fetchSearchIndex).mockResolvedValueOnce(index);
+    const { wrapper } = setup();
+    const session = mockSession('public');
+
+    const { result, rerender } = renderHook(
+      ({ enabled }) => useSearchIndex(session, enabled),
+      { wrapper, initialProps: { enabled: false } }
+    );
+    expect(result.current.fetchStatus).toBe('idle');
+    expect(fetchSearchIndex).not.toHaveBeenCalled();
+
+    rerender({ enabled: true });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(fetchSearchIndex).toHaveBeenCalledWith(session);
+    expect(result.current.data).toBe(index);
+  });
+});
+
+describe('lockContent', () => {
+  it('should forget every manifest and decrypted file', async () => {
+    vi.mocked(fetchDecryptedStream).mockImplementation(async () =>
+      bytesToStream(new TextEncoder().encode('a poem'))
+    );
+    const { queryClient, wrapper } = setup();
+    const session = mockSession('public');
+    const poem = manifestEntry('lake.txt');
+
+    const { result } = renderHook(() => useDecryptedFile(poem, session), { wrapper });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    lockContent(queryClient);
+
+    expect(queryClient.getQueryCache().getAll()).toHaveLength(0);
+  });
+});
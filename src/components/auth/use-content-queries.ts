@@ -0,0 +1,119 @@
+/**
+ * Query hooks for the manifest and decrypted files
+ * Results live in the TanStack Query cache, keyed on the session's unlocked levels
+ * and the file, so every component asking for the same file shares one decryption.
+ * Plaintext is dropped from memory a short while after nothing shows it, and
+ * clearing the cache (see {@link lockContent}) forgets it all at once.
+ */
+
+import { useQuery, type QueryClient } from '@tanstack/react-query';
+import { streamToBytes } from '@/utils/encoding';
+import { fetchDecryptedStream } from '@/utils/encrypted-fetch';
+import { fetchManifest, type ManifestEntry } from '@/utils/manifest';
+import { fetchSearchIndex } from '@/utils/search-index';
+import type { ContentSession } from '@/utils/session';
+
+export interface DecryptedFile {
+  name: string;
+  path: string;
+  content: string | Uint8Array;
+  mimeType: string;
+}
+
+/** How long unused plaintext stays cached, in milliseconds */
+export const FILE_GC_TIME = 60 * 1000;
+
+/** How long an unused manifest stays cached, in milliseconds */
+export const MANIFEST_GC_TIME = 10 * 60 * 1000;
+
+/**
+ * Identifies a session by the access levels it has unlocked
+ * Two sessions with the same levels decrypt the same things, so they share entries.
+ */
+function sessionKey(session: ContentSession): string {
+  return [...session.keys.keys()].sort().join('+');
+}
+
+export const contentKeys = {
+  all: ['content'] as const,
+  manifest: (session: ContentSession) =>
+    [...contentKeys.all, sessionKey(session), 'manifest'] as const,
+  searchIndex: (session: ContentSession) =>
+    [...contentKeys.all, sessionKey(session), 'search-index'] as const,
+  // The hash changes when a file is re-encrypted under the same name
+  file: (session: ContentSession, entry: ManifestEntry) =>
+    [...contentKeys.all, sessionKey(session), 'file', entry.path, entry.sha256] as const,
+};
+
+/**
+ * Fetches and decrypts a whole file
+ * Text types are decoded to a string; everything else stays as bytes.
+ * @throws If the request fails, the file is corrupt or its access level is locked
+ */
+export async function fetchDecryptedFile(
+  entry: ManifestEntry,
+  session: ContentSession
+): Promise<DecryptedFile> {
+  const decrypted = await streamToBytes(await fetchDecryptedStream(entry.path, session));
+  const mimeType = entry.contentType;
+
+  return {
+    name: entry.name,
+    path: entry.path,
+    content: mimeType.startsWith('text/') ? new TextDecoder().decode(decrypted) : decrypted,
+    mimeType,
+  };
+}
+
+/**
+ * The decrypted manifest for a session
+ * While a grown session's manifest loads, the previous listing stays on screen.
+ */
+export function useManifest(session: ContentSession) {
+  return useQuery({
+    queryKey: contentKeys.manifest(session),
+    queryFn: () => fetchManifest(session),
+    staleTime: Infinity,
+    gcTime: MANIFEST_GC_TIME,
+    placeholderData: previous => previous,
+  });
+}
+
+/**
+ * The decrypted search index, fetched the first time `enabled` is set
+ * It holds the text of every text file, so it is only loaded once search is used.
+ */
+export function useSearchIndex(session: ContentSession, enabled: boolean) {
+  return useQuery({
+    queryKey: contentKeys.searchIndex(session),
+    queryFn: () => fetchSearchIndex(session),
+    enabled,
+    staleTime: Infinity,
+    gcTime: MANIFEST_GC_TIME,
+    placeholderData: previous => previous,
+  });
+}
+
+/**
+ * A decrypted file, or nothing while `entry` is undefined
+ * Concurrent callers share one fetch; the plaintext is evicted {@link FILE_GC_TIME}
+ * after the last caller unmounts.
+ */
+export function useDecryptedFile(entry: ManifestEntry | undefined, session: ContentSession) {
+  return useQuery({
+    queryKey: entry ? contentKeys.file(session, entry) : [...contentKeys.all, 'none'],
+    queryFn: () => fetchDecryptedFile(entry!, session),
+    enabled: entry !== undefined,
+    staleTime: Infinity,
+    gcTime: FILE_GC_TIME,
+  });
+}
+
+/**
+ * Forgets every manifest, search index and decrypted file
+ * Part of locking: afterwards nothing decrypted is reachable from the cache.
+ */
+export function lockContent(queryClient: QueryClient): void {
+  void queryClient.cancelQueries({ queryKey: contentKeys.all });
+  queryClient.clear();
+}
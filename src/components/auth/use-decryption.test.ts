@@ -6,10 +6,26 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useDecryption } from './use-decryption';
-import * as cryptoUtils from '@/utils/crypto-utils';
-
-// Mock the crypto utility
-vi.mock('@/utils/crypto-utils');
+import * as session from '@/utils/session';
+import * as device from '@/utils/remembered-device';
+import { KEYRING_URL } from '@/utils/keyring';
+import { bytesToStream, streamToBytes } from '@/utils/encoding';
+import type { ContentSession } from '@/utils/session';
+import { manifestEntry } from '@/test/fixtures';
+
+// Mock the session module
+vi.mock('@/utils/session');
+vi.mock('@/utils/remembered-device');
+
+function mockSession(decrypt = vi.fn()): ContentSession {
+  return {
+    keys: new Map(),
+    encrypt: vi.fn(),
+    decrypt,
+    encryptStream: vi.fn(),
+    decryptStream: vi.fn(),
+  };
+}
 
 describe('useDecryption Hook', () => {
   beforeEach(() => {
@@ -21,73 +37,151 @@ describe('useDecryption Hook', () => {
 
     expect(result.current.isLoading).toBe(false);
     expect(result.current.error).toBe(null);
-    expect(result.current.password).toBe('');
+    expect(result.current.session).toBe(null);
     expect(result.current.isAuthenticated).toBe(false);
-    expect(result.current.decryptedFiles.size).toBe(0);
   });
 
-  it('should set password', () => {
+  it('should unlock when the key check accepts the password', async () => {
+    const opened = mockSession();
+    vi.mocked(session.fetchSession).mockResolvedValueOnce(opened);
     const { result } = renderHook(() => useDecryption());
 
-    act(() => {
-      result.current.setPassword('test123');
-    });
-
-    expect(result.current.password).toBe('test123');
-  });
-
-  it('should verify password if correct password provided', () => {
-    const { result } = renderHook(() => useDecryption('correct'));
-
-    act(() => {
-      result.current.setPassword('correct');
+    let unlocked = false;
+    await act(async () => {
+      unlocked = await result.current.unlock('correct');
     });
 
+    expect(session.fetchSession).toHaveBeenCalledWith('correct', KEYRING_URL, false);
+    expect(device.rememberDevice).not.toHaveBeenCalled();
+    expect(unlocked).toBe(true);
+    expect(result.current.session).toBe(opened);
     expect(result.current.isAuthenticated).toBe(true);
   });
 
-  it('should reject wrong password', () => {
-    const { result } = renderHook(() => useDecryption('correct'));
+  it('should reject wrong password', async () => {
+    vi.mocked(session.fetchSession).mockRejectedValueOnce(new Error('Incorrect password'));
+    const { result } = renderHook(() => useDecryption());
 
-    act(() => {
-      result.current.setPassword('wrong');
+    let unlocked = true;
+    await act(async () => {
+      unlocked = await result.current.unlock('wrong');
     });
 
+    expect(unlocked).toBe(false);
     expect(result.current.isAuthenticated).toBe(false);
+    expect(result.current.error).toBe('Incorrect password');
   });
 
-  it('should clear error when password changes', () => {
+  it('should clear error', async () => {
+    vi.mocked(session.fetchSession).mockRejectedValueOnce(new Error('Incorrect password'));
     const { result } = renderHook(() => useDecryption());
 
-    act(() => {
-      // Simulate an error state
-      result.current.clearError = vi.fn();
+    await act(async () => {
+      await result.current.unlock('wrong');
     });
 
-    // Change password should clear error
     act(() => {
-      result.current.setPassword('newpass');
+      result.current.clearError();
     });
 
-    // Error should be null after password change
     expect(result.current.error).toBe(null);
   });
 
-  it('should reset state', () => {
+  it('should reset state', async () => {
+    vi.mocked(session.fetchSession).mockResolvedValueOnce(mockSession());
     const { result } = renderHook(() => useDecryption());
 
-    act(() => {
-      result.current.setPassword('test');
+    await act(async () => {
+      await result.current.unlock('test');
     });
 
     act(() => {
       result.current.reset();
     });
 
-    expect(result.current.password).toBe('');
+    expect(result.current.session).toBe(null);
     expect(result.current.isAuthenticated).toBe(false);
     expect(result.current.error).toBe(null);
-    expect(result.current.decryptedFiles.size).toBe(0);
+  });
+
+  it('should use a session unlocked elsewhere', () => {
+    const opened = mockSession();
+    const { result } = renderHook(() => useDecryption(opened));
+
+    expect(result.current.session).toBe(opened);
+    expect(result.current.isAuthenticated).toBe(true);
+  });
+
+  it('should add the levels of a second password to the open session', async () => {
+    const opened = mockSession();
+    const second = mockSession();
+    const merged = mockSession();
+    vi.mocked(session.fetchSession).mockResolvedValueOnce(second);
+    vi.mocked(session.mergeSessions).mockReturnValueOnce(merged);
+    const { result } = renderHook(() => useDecryption(opened));
+
+    await act(async () => {
+      await result.current.unlock('friends');
+    });
+
+    expect(session.mergeSessions).toHaveBeenCalledWith(opened, second);
+    expect(result.current.session).toBe(merged);
+  });
+
+  it('should keep the open session when a second password is wrong', async () => {
+    const opened = mockSession();
+    vi.mocked(session.fetchSession).mockRejectedValueOnce(new Error('Incorrect password'));
+    const { result } = renderHook(() => useDecryption(opened));
+
+    await act(async () => {
+      await result.current.unlock('wrong');
+    });
+
+    expect(result.current.session).toBe(opened);
+    expect(result.current.error).toBe('Incorrect password');
+  });
+
+  it('should remember the device when asked', async () => {
+    const opened = mockSession();
+    const restored = new Map<string, CryptoKey>();
+    const remembered = mockSession();
+    vi.mocked(session.fetchSession).mockResolvedValueOnce(opened);
+    vi.mocked(device.rememberDevice).mockResolvedValueOnce(restored);
+    vi.mocked(session.sessionFromKeys).mockReturnValueOnce(remembered);
+    const { result } = renderHook(() => useDecryption());
+
+    await act(async () => {
+      await result.current.unlock('correct', 7);
+    });
+
+    // Unlocked extractable, so the keys can be wrapped under the device key
+    expect(session.fetchSession).toHaveBeenCalledWith('correct', KEYRING_URL, true);
+    expect(device.rememberDevice).toHaveBeenCalledWith(opened.keys, 7);
+    expect(session.sessionFromKeys).toHaveBeenCalledWith(restored);
+    expect(result.current.session).toBe(remembered);
+    expect(result.current.error).toBe(null);
+  });
+
+  it('should still unlock when the device cannot be remembered', async () => {
+    const opened = mockSession();
+    const sealed = mockSession();
+    vi.mocked(session.fetchSession).mockResolvedValueOnce(opened);
+    vi.mocked(device.rememberDevice).mockRejectedValueOnce(new Error('Quota exceeded'));
+    vi.mocked(session.sealSession).mockResolvedValueOnce(sealed);
+    const { result } = renderHook(() => useDecryption());
+
+    let unlocked = false;
+    await act(async () => {
+      unlocked = await result.current.unlock('correct', 7);
+    });
+
+    expect(unlocked).toBe(true);
+    // Not the extractable keys it was unlocked with
+    expect(session.sealSession).toHaveBeenCalledWith(opened);
+    expect(result.current.session).toBe(sealed);
+    expect(result.current.error).toBe(
+      'Unlocked, but this device could not be remembered: Quota exceeded'
+    );
   });
 
   it('should detect file MIME types correctly', async () => {
@@ -105,49 +199,67 @@ describe('useDecryption Hook', () => {
 
     // Just verify the hook doesn't crash with different file types
     for (const _testCase of testCases) {
-      // The MIME type detection happens inside decryptFile
+      // The MIME type comes from the manifest entry
       // We're just verifying the hook can be used
       expect(result.current).toBeDefined();
     }
   });
 
-  it('should handle decryption errors gracefully', async () => {
-    const { result } = renderHook(() => useDecryption());
+  it('should handle file not found errors', async () => {
+    const { result } = renderHook(() => useDecryption(mockSession()));
 
-    // Mock a failed decryption
-    vi.mocked(cryptoUtils.decryptFromJSON).mockRejectedValueOnce(
-      new Error('Decryption failed')
-    );
+    // Mock a fetch error
+    globalThis.fetch = vi.fn().mockResolvedValueOnce({
+      ok: false,
+      statusText: 'Not Found',
+    });
 
     await act(async () => {
       try {
-        await result.current.decryptFile('test.enc', 'password');
+        await result.current.streamFile(manifestEntry('missing.mp3'));
       } catch {
         // Expected to throw
       }
     });
 
-    // Check that error was captured
-    expect(result.current.isLoading).toBe(false);
+    expect(result.current.error).toContain('Failed to load encrypted file');
   });
 
-  it('should handle file not found errors', async () => {
-    const { result } = renderHook(() => useDecryption());
+  it('should stream streamed containers through the session decryptor', async () => {
+    const decryptStream = vi.fn(
+      () =>
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            controller.enqueue(chunk.map(byte => byte + 1));
+          },
+        })
+    );
+    const opened = { ...mockSession(), decryptStream };
+    const { result } = renderHook(() => useDecryption(opened));
+    const container = new Uint8Array([0x42, 0x55, 0x48, 0x53, 1, 2, 3]);
 
-    // Mock a fetch error
-    globalThis.fetch = vi.fn().mockResolvedValueOnce({
-      ok: false,
-      statusText: 'Not Found',
+    globalThis.fetch = vi.fn().mockResolvedValueOnce({ ok: true, body: bytesToStream(container) });
+
+    let file: Awaited<ReturnType<typeof result.current.streamFile>> | null = null;
+    await act(async () => {
+      file = await result.current.streamFile(manifestEntry('song.mp3'));
     });
 
+    expect(file).toMatchObject({ name: 'song.mp3', mimeType: 'audio/mpeg' });
+    expect(decryptStream).toHaveBeenCalledTimes(1);
+    expect(opened.decrypt).not.toHaveBeenCalled();
+    expect(await streamToBytes(file!.stream)).toEqual(container.map(byte => byte + 1));
+  });
+
+  it('should refuse to stream while locked', async () => {
+    const { result } = renderHook(() => useDecryption());
+
     await act(async () => {
-      try {
-        await result.current.decryptFile('missing.enc', 'password');
-      } catch {
-        // Expected to throw
-      }
+      await expect(result.current.streamFile(manifestEntry('song.mp3'))).rejects.toThrow(
+        'Content is locked'
+      );
     });
 
-    expect(result.current.error).toContain('Failed to load encrypted file');
+    expect(result.current.error).toBe('Content is locked');
   });
 });
@@ -1,105 +1,119 @@
 /**
  * Hook for managing encrypted file decryption
- * Provides password validation and file loading
+ * Provides password validation and file streaming; whole files are decrypted through
+ * the query cache (see use-content-queries).
+ * Files are identified by their manifest entry: object URLs are opaque, so names
+ * and types come from the manifest.
  */
 
 import { useState, useCallback } from 'react';
-import { decryptFromJSON } from '@/utils/crypto-utils';
-
-export interface DecryptedFile {
+import { fetchDecryptedStream } from '@/utils/encrypted-fetch';
+import type { ManifestEntry } from '@/utils/manifest';
+import { KEYRING_URL } from '@/utils/keyring';
+import { rememberDevice } from '@/utils/remembered-device';
+import {
+  fetchSession,
+  mergeSessions,
+  sealSession,
+  sessionFromKeys,
+  type ContentSession,
+} from '@/utils/session';
+
+export interface StreamedFile {
   name: string;
   path: string;
-  content: string | Uint8Array;
+  /** Plaintext, decrypted segment by segment as it downloads */
+  stream: ReadableStream<Uint8Array>;
   mimeType: string;
 }
 
 interface UseDecryptionState {
   isLoading: boolean;
   error: string | null;
-  password: string;
-  isAuthenticated: boolean;
-  decryptedFiles: Map<string, DecryptedFile>;
+  session: ContentSession | null;
 }
 
+const initialState = (session: ContentSession | null): UseDecryptionState => ({
+  isLoading: false,
+  error: null,
+  session,
+});
+
 /**
  * Hook for handling encryption/decryption operations
- * @param correctPassword - The correct password for verification
+ * @param initialSession - Session already unlocked elsewhere (e.g. by the password gate)
  */
-export function useDecryption(correctPassword?: string) {
-  const [state, setState] = useState<UseDecryptionState>({
-    isLoading: false,
-    error: null,
-    password: '',
-    isAuthenticated: false,
-    decryptedFiles: new Map(),
-  });
-
-  const verifyPassword = useCallback((password: string): boolean => {
-    if (correctPassword) {
-      return password === correctPassword;
-    }
-    // If no correct password provided, we can't verify in advance
-    // Verification happens during decryption
-    return true;
-  }, [correctPassword]);
-
-  const setPassword = useCallback((password: string) => {
-    setState(prev => ({
-      ...prev,
-      password,
-      isAuthenticated: verifyPassword(password),
-      error: null,
-    }));
-  }, [verifyPassword]);
-
-  const decryptFile = useCallback(
-    async (
-      encryptedPath: string,
-      password: string
-    ): Promise<DecryptedFile | null> => {
+export function useDecryption(initialSession: ContentSession | null = null) {
+  const [state, setState] = useState<UseDecryptionState>(() => initialState(initialSession));
+  const session = state.session ?? initialSession;
+
+  /**
+   * Opens the key slot the password unlocks
+   * When a session is already open, the new access levels are added to it.
+   * @param rememberDays - Also keep the keys on this device for that many days
+   * @returns Whether the password was correct
+   */
+  const unlock = useCallback(
+    async (password: string, rememberDays?: number): Promise<boolean> => {
       setState(prev => ({ ...prev, isLoading: true, error: null }));
 
       try {
-        const response = await fetch(encryptedPath);
-        if (!response.ok) {
-          throw new Error(`Failed to load encrypted file: ${response.statusText}`);
+        let opened = await fetchSession(password, KEYRING_URL, rememberDays !== undefined);
+        let rememberError: string | null = null;
+        if (rememberDays !== undefined) {
+          try {
+            opened = sessionFromKeys(await rememberDevice(opened.keys, rememberDays));
+          } catch (err) {
+            // The password was right, so the content still opens, but with keys that
+            // can no longer be read back out
+            opened = await sealSession(opened);
+            rememberError = `Unlocked, but this device could not be remembered: ${
+              err instanceof Error ? err.message : 'unknown error'
+            }`;
+          }
         }
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          error: rememberError,
+          session: session ? mergeSessions(session, opened) : opened,
+        }));
+        return true;
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown unlock error';
+        setState(prev => ({ ...prev, isLoading: false, error: errorMessage }));
+        return false;
+      }
+    },
+    [session]
+  );
 
-        const jsonText = await response.text();
-        const decrypted = await decryptFromJSON(jsonText, password);
+  /**
+   * Starts decrypting a file without waiting for the download to finish
+   * Used for audio and images; errors in the data surface through the stream.
+   */
+  const streamFile = useCallback(
+    async (entry: ManifestEntry): Promise<StreamedFile> => {
+      setState(prev => ({ ...prev, error: null }));
 
-        const fileName = encryptedPath.split('/').pop()?.replace('.enc', '') || 'file';
-        const mimeType = getMimeType(fileName);
+      try {
+        if (!session) {
+          throw new Error('Content is locked');
+        }
 
-        const file: DecryptedFile = {
-          name: fileName,
-          path: encryptedPath,
-          content: decrypted,
-          mimeType,
+        return {
+          name: entry.name,
+          path: entry.path,
+          stream: await fetchDecryptedStream(entry.path, session),
+          mimeType: entry.contentType,
         };
-
-        setState(prev => {
-          const newFiles = new Map(prev.decryptedFiles);
-          newFiles.set(encryptedPath, file);
-          return {
-            ...prev,
-            decryptedFiles: newFiles,
-            isLoading: false,
-          };
-        });
-
-        return file;
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Unknown decryption error';
-        setState(prev => ({
-          ...prev,
-          isLoading: false,
-          error: errorMessage,
-        }));
+        setState(prev => ({ ...prev, error: errorMessage }));
         throw err;
       }
     },
-    []
+    [session]
   );
 
   const clearError = useCallback(() => {
@@ -107,49 +121,16 @@ export function useDecryption(correctPassword?: string) {
   }, []);
 
   const reset = useCallback(() => {
-    setState({
-      isLoading: false,
-      error: null,
-      password: '',
-      isAuthenticated: false,
-      decryptedFiles: new Map(),
-    });
+    setState(initialState(null));
   }, []);
 
   return {
     ...state,
-    setPassword,
-    decryptFile,
+    session,
+    isAuthenticated: session !== null,
+    unlock,
+    streamFile,
     clearError,
     reset,
   };
 }
-
-/**
- * Determine MIME type from filename
- */
-function getMimeType(filename: string): string {
-  const ext = filename.split('.').pop()?.toLowerCase() || '';
-
-  const mimeTypes: Record<string, string> = {
-    pdf: 'application/pdf',
-    txt: 'text/plain',
-    md: 'text/markdown',
-    json: 'application/json',
-    png: 'image/png',
-    jpg: 'image/jpeg',
-    jpeg: 'image/jpeg',
-    gif: 'image/gif',
-    webp: 'image/webp',
-    mp3: 'audio/mpeg',
-    wav: 'audio/wav',
-    ogg: 'audio/ogg',
-    m4a: 'audio/mp4',
-    svg: 'image/svg+xml',
-    html: 'text/html',
-    css: 'text/css',
-    js: 'text/javascript',
-  };
-
-  return mimeTypes[ext] || 'application/octet-stream';
-}
@@ -0,0 +1,97 @@
+/**
+ * Responsive image grid
+ * Tiles show the image's placeholder colour at once and decrypt the smallest copy
+ * that fills them only once they scroll near the viewport.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import type { BlobUrlCache } from '@/utils/blob-url-cache';
+import { entryTitle } from '@/utils/content-metadata';
+import { pickVariant } from '@/utils/image-variants';
+import type { ManifestEntry } from '@/utils/manifest';
+import type { ContentSession } from '@/utils/session';
+import { useImageUrl } from './use-image-url';
+
+/** How far outside the viewport tiles start loading */
+const PRELOAD_MARGIN = '300px';
+
+interface GalleryProps {
+  entries: ManifestEntry[];
+  session: ContentSession;
+  cache: BlobUrlCache;
+  onOpen: (entry: ManifestEntry) => void;
+}
+
+export function Gallery({ entries, session, cache, onOpen }: GalleryProps) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+      {entries.map(entry => (
+        <GalleryTile
+          key={entry.path}
+          entry={entry}
+          session={session}
+          cache={cache}
+          onOpen={onOpen}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface GalleryTileProps {
+  entry: ManifestEntry;
+  session: ContentSession;
+  cache: BlobUrlCache;
+  onOpen: (entry: ManifestEntry) => void;
+}
+
+function GalleryTile({ entry, session, cache, onOpen }: GalleryTileProps) {
+  const tileRef = useRef<HTMLButtonElement>(null);
+  const [nearView, setNearView] = useState(false);
+  // Device pixels across the tile, measured once it is laid out
+  const [tileWidth, setTileWidth] = useState<number | null>(null);
+  const source = tileWidth === null ? undefined : pickVariant(entry, tileWidth);
+  const image = useImageUrl(cache, source, session, nearView);
+
+  useEffect(() => {
+    const tile = tileRef.current;
+    if (!tile) {
+      return;
+    }
+    setTileWidth(Math.ceil(tile.clientWidth * (window.devicePixelRatio || 1)));
+    if (typeof IntersectionObserver === 'undefined') {
+      setNearView(true);
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      ([observed]) => setNearView(observed.isIntersecting),
+      { rootMargin: PRELOAD_MARGIN }
+    );
+    observer.observe(tile);
+
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <button
+      ref={tileRef}
+      onClick={() => onOpen(entry)}
+      title={entryTitle(entry)}
+      style={{ backgroundColor: entry.image?.placeholder }}
+      className="relative aspect-square overflow-hidden rounded-lg bg-slate-700 border border-slate-600 hover:border-blue-500 transition-colors"
+    >
+      {image.url ? (
+        <img
+          src={image.url}
+          alt={entryTitle(entry)}
+          className="absolute inset-0 w-full h-full object-cover"
+        />
+      ) : (
+        <span className="text-2xl text-slate-500">
+          {image.error ? '⚠️' : entry.image ? null : '🖼️'}
+        </span>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,284 @@
+/**
+ * Full-screen image viewer
+ * Arrow keys or a swipe move between images, the wheel or a pinch zooms (drag to
+ * pan while zoomed), and the slideshow advances on a timer. The neighbouring
+ * images are decrypted ahead so stepping through is instant. The original is only
+ * fetched here; until it is decrypted, the smallest copy stands in for it.
+ */
+
+import {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  type PointerEvent,
+  type ReactNode,
+} from 'react';
+import type { BlobUrlCache } from '@/utils/blob-url-cache';
+import { entryTitle } from '@/utils/content-metadata';
+import { pickVariant } from '@/utils/image-variants';
+import type { ManifestEntry } from '@/utils/manifest';
+import type { ContentSession } from '@/utils/session';
+import { useImageUrl } from './use-image-url';
+
+/** Time each image stays up during a slideshow, in milliseconds */
+const SLIDESHOW_INTERVAL = 4000;
+
+const MAX_ZOOM = 5;
+
+/** Horizontal travel, in pixels, that counts as a swipe */
+const SWIPE_DISTANCE = 50;
+
+interface LightboxProps {
+  entries: ManifestEntry[];
+  current: ManifestEntry;
+  session: ContentSession;
+  cache: BlobUrlCache;
+  onNavigate: (entry: ManifestEntry) => void;
+  onClose: () => void;
+}
+
+export function Lightbox({ entries, current, session, cache, onNavigate, onClose }: LightboxProps) {
+  const [slideshow, setSlideshow] = useState(false);
+  const index = Math.max(entries.findIndex(entry => entry.path === current.path), 0);
+  const neighbour = (delta: number) => entries[(index + delta + entries.length) % entries.length];
+
+  const image = useImageUrl(cache, current, session);
+  const preview = useImageUrl(cache, pickVariant(current, 0), session, !image.url);
+  useImageUrl(cache, neighbour(1), session);
+  useImageUrl(cache, neighbour(-1), session);
+
+  const go = useCallback(
+    (delta: number) => {
+      onNavigate(entries[(index + delta + entries.length) % entries.length]);
+    },
+    [entries, index, onNavigate]
+  );
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'ArrowRight') {
+        go(1);
+      } else if (event.key === 'ArrowLeft') {
+        go(-1);
+      } else if (event.key === 'Escape') {
+        onClose();
+      } else if (event.key === ' ') {
+        event.preventDefault();
+        setSlideshow(playing => !playing);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [go, onClose]);
+
+  // Restarts with each image, so a manual step gets the full interval too
+  useEffect(() => {
+    if (!slideshow || !image.url) {
+      return;
+    }
+    const timer = window.setTimeout(() => go(1), SLIDESHOW_INTERVAL);
+    return () => window.clearTimeout(timer);
+  }, [slideshow, image.url, go]);
+
+  return (
+    <div className="fixed inset-0 z-20 flex flex-col bg-black/95" role="dialog" aria-modal="true">
+      <div className="flex items-center justify-between gap-4 px-4 py-3 text-slate-200">
+        <p className="truncate">
+          <span className="text-slate-400 mr-3">
+            {index + 1} / {entries.length}
+          </span>
+          {entryTitle(current)}
+        </p>
+        <div className="flex items-center gap-2">
+          <LightboxButton
+            label={slideshow ? 'Pause slideshow' : 'Play slideshow'}
+            onClick={() => setSlideshow(!slideshow)}
+          >
+            {slideshow ? '⏸' : '▶️'}
+          </LightboxButton>
+          <LightboxButton label="Close" onClick={onClose}>
+            ✕
+          </LightboxButton>
+        </div>
+      </div>
+
+      <div className="relative flex-1 min-h-0">
+        {image.url ? (
+          <ZoomableImage
+            key={current.path}
+            url={image.url}
+            alt={entryTitle(current)}
+            onSwipe={go}
+          />
+        ) : (
+          <div
+            style={{ backgroundColor: image.error ? undefined : current.image?.placeholder }}
+            className="relative flex h-full items-center justify-center text-slate-400"
+          >
+            {preview.url && !image.error && (
+              <img
+                src={preview.url}
+                alt=""
+                className="absolute inset-0 w-full h-full object-contain blur-sm"
+              />
+            )}
+            <span className="relative rounded bg-black/50 px-3 py-1">
+              {image.error ?? 'Decrypting...'}
+            </span>
+          </div>
+        )}
+
+        {entries.length > 1 && (
+          <>
+            <div className="absolute left-2 top-1/2 -translate-y-1/2">
+              <LightboxButton label="Previous image" onClick={() => go(-1)}>
+                ‹
+              </LightboxButton>
+            </div>
+            <div className="absolute right-2 top-1/2 -translate-y-1/2">
+              <LightboxButton label="Next image" onClick={() => go(1)}>
+                ›
+              </LightboxButton>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ZoomableImageProps {
+  url: string;
+  alt: string;
+  /** Called with +1 (swiped left) or -1 (swiped right) when not zoomed */
+  onSwipe: (delta: number) => void;
+}
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const UNZOOMED: View = { scale: 1, x: 0, y: 0 };
+
+function clampView(view: View): View {
+  const scale = Math.min(Math.max(view.scale, 1), MAX_ZOOM);
+  return scale === 1 ? UNZOOMED : { ...view, scale };
+}
+
+function ZoomableImage({ url, alt, onSwipe }: ZoomableImageProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<View>(UNZOOMED);
+  // Active pointers, for pinch distance and panning
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef({ startX: 0, startY: 0, pinchDistance: 0, pinched: false });
+
+  // Attached natively: React's wheel listener is passive and cannot stop page scroll
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = Math.exp(-event.deltaY / 500);
+      setView(current => clampView({ ...current, scale: current.scale * factor }));
+    };
+    container.addEventListener('wheel', onWheel, { passive: false });
+    return () => container.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const pinchDistance = () => {
+    const [a, b] = [...pointers.current.values()];
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (pointers.current.size === 1) {
+      gesture.current.startX = event.clientX;
+      gesture.current.startY = event.clientY;
+      gesture.current.pinched = false;
+    } else if (pointers.current.size === 2) {
+      gesture.current.pinchDistance = pinchDistance();
+      gesture.current.pinched = true;
+    }
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(event.pointerId);
+    if (!previous) {
+      return;
+    }
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (pointers.current.size === 2) {
+      const distance = pinchDistance();
+      const ratio = distance / (gesture.current.pinchDistance || distance);
+      gesture.current.pinchDistance = distance;
+      setView(current => clampView({ ...current, scale: current.scale * ratio }));
+    } else if (view.scale > 1) {
+      const dx = event.clientX - previous.x;
+      const dy = event.clientY - previous.y;
+      setView(current => ({ ...current, x: current.x + dx, y: current.y + dy }));
+    }
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    const wasSingle = pointers.current.size === 1;
+    pointers.current.delete(event.pointerId);
+    // Lifting the last finger of a pinch is not a swipe
+    if (!wasSingle || gesture.current.pinched || view.scale > 1) {
+      return;
+    }
+
+    const dx = event.clientX - gesture.current.startX;
+    const dy = event.clientY - gesture.current.startY;
+    if (Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) {
+      onSwipe(dx < 0 ? 1 : -1);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => setView(view.scale > 1 ? UNZOOMED : { ...UNZOOMED, scale: 2.5 })}
+      className="flex h-full items-center justify-center overflow-hidden select-none touch-none"
+    >
+      <img
+        src={url}
+        alt={alt}
+        draggable={false}
+        style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+        className="max-w-full max-h-full object-contain"
+      />
+    </div>
+  );
+}
+
+interface LightboxButtonProps {
+  label: string;
+  onClick: () => void;
+  children: ReactNode;
+}
+
+function LightboxButton({ label, onClick, children }: LightboxButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      title={label}
+      aria-label={label}
+      className="w-10 h-10 rounded-full bg-slate-800/70 text-xl text-slate-200 hover:bg-slate-700 transition-colors"
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * Decrypted image URLs for the gallery
+ * The grid and the lightbox share one bounded Blob URL cache, so opening a picture
+ * reuses the decrypted thumbnail and scrolling far through an album lets old
+ * images go.
+ */
+
+import { useState, useEffect } from 'react';
+import { createBlobUrlCache, type BlobUrlCache } from '@/utils/blob-url-cache';
+import { fetchDecryptedStream } from '@/utils/encrypted-fetch';
+import type { ManifestEntry } from '@/utils/manifest';
+import { createMediaUrl } from '@/utils/media-stream';
+import type { ContentSession } from '@/utils/session';
+
+/** Decrypted images kept at once */
+export const IMAGE_CACHE_LIMIT = 48;
+
+/**
+ * A Blob URL cache that lives as long as the component, revoking everything on unmount
+ */
+export function useBlobUrlCache(limit = IMAGE_CACHE_LIMIT): BlobUrlCache {
+  const [cache] = useState(() => createBlobUrlCache(limit));
+
+  useEffect(() => () => cache.clear(), [cache]);
+
+  return cache;
+}
+
+interface ImageUrlState {
+  path: string;
+  url: string | null;
+  error: string | null;
+}
+
+/** An original or one of its smaller copies */
+export type ImageSource = Pick<ManifestEntry, 'path' | 'contentType'>;
+
+/**
+ * Loads an image through the cache
+ * @param enabled - Whether to load now (e.g. the tile is on screen); turning it on
+ * again reloads an image the cache has since evicted
+ * @returns The image's URL or load error, both null while loading
+ */
+export function useImageUrl(
+  cache: BlobUrlCache,
+  entry: ImageSource | undefined,
+  session: ContentSession,
+  enabled = true
+): { url: string | null; error: string | null } {
+  const [state, setState] = useState<ImageUrlState | null>(null);
+
+  useEffect(() => {
+    if (!entry || !enabled) {
+      return;
+    }
+
+    let cancelled = false;
+
+    cache
+      .load(entry.path, async () =>
+        createMediaUrl(await fetchDecryptedStream(entry.path, session), entry.contentType)
+      )
+      .then(url => {
+        if (!cancelled) {
+          setState({ path: entry.path, url, error: null });
+        }
+      })
+      .catch(err => {
+        if (!cancelled) {
+          const error = err instanceof Error ? err.message : 'Failed to load image';
+          setState({ path: entry.path, url: null, error });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cache, entry, session, enabled]);
+
+  return state && state.path === entry?.path
+    ? { url: state.url, error: state.error }
+    : { url: null, error: null };
+}
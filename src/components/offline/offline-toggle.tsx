@@ -0,0 +1,47 @@
+/**
+ * "Make available offline" switch for a category
+ * Saves the category's encrypted files to the service worker cache, or drops them.
+ */
+
+import type { ManifestEntry } from '@/utils/manifest';
+import { useOfflineCategory } from './use-offline-category';
+
+interface OfflineToggleProps {
+  entries: ManifestEntry[];
+}
+
+export function OfflineToggle({ entries }: OfflineToggleProps) {
+  const { status, progress, error, save, remove } = useOfflineCategory(entries);
+  if (!status || status.total === 0) {
+    return null;
+  }
+
+  const saved = status.cached === status.total;
+  const label =
+    progress !== null
+      ? `Saving... ${Math.round(progress * 100)}%`
+      : saved
+        ? '✓ Available offline'
+        : status.cached > 0
+          ? `Make available offline (${status.cached}/${status.total} saved)`
+          : 'Make available offline';
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      {error && <span className="text-red-400">{error}</span>}
+      <button
+        onClick={saved ? remove : save}
+        disabled={progress !== null}
+        aria-pressed={saved}
+        title={saved ? 'Remove the saved copies from this device' : undefined}
+        className={`px-3 py-1.5 rounded-lg border transition-colors disabled:opacity-60 ${
+          saved
+            ? 'border-green-600 text-green-400 hover:bg-green-900/20'
+            : 'border-slate-600 text-slate-300 hover:bg-slate-700'
+        }`}
+      >
+        {label}
+      </button>
+    </div>
+  );
+}
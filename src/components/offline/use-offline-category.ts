@@ -0,0 +1,107 @@
+/**
+ * Offline availability of a category's files
+ * Asks the service worker how many of the files it holds, and to save or drop them
+ * all. Without a service worker in control (development, first visit, unsupported
+ * browsers) the category simply reports itself as unavailable.
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { entryObjectPaths } from '@/utils/image-variants';
+import type { ManifestEntry } from '@/utils/manifest';
+import type { OfflineReply, OfflineRequest } from '@/utils/offline-cache';
+
+export interface OfflineStatus {
+  /** Encrypted objects of the category (files and image copies) held in the cache */
+  cached: number;
+  /** Objects the cache can hold (every one the current build lists) */
+  total: number;
+}
+
+/**
+ * Sends a request to the service worker over a fresh channel
+ * @param onProgress - Called with the fraction saved so far, for `save`
+ * @throws If no service worker controls the page, or it reports a failure
+ */
+function askServiceWorker(
+  request: OfflineRequest,
+  onProgress?: (fraction: number) => void
+): Promise<OfflineStatus> {
+  const controller = navigator.serviceWorker?.controller;
+  if (!controller) {
+    return Promise.reject(new Error('Offline storage is not available'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event: MessageEvent<OfflineReply>) => {
+      const reply = event.data;
+      if (reply.type === 'progress') {
+        onProgress?.(reply.done / reply.total);
+        return;
+      }
+      channel.port1.close();
+      if (reply.type === 'status') {
+        resolve({ cached: reply.cached, total: reply.total });
+      } else {
+        reject(new Error(reply.message));
+      }
+    };
+    controller.postMessage(request, [channel.port2]);
+  });
+}
+
+export function useOfflineCategory(entries: ManifestEntry[]) {
+  const paths = useMemo(() => entries.flatMap(entry => entryObjectPaths(entry)), [entries]);
+  const available = typeof navigator !== 'undefined' && !!navigator.serviceWorker?.controller;
+  const [status, setStatus] = useState<OfflineStatus | null>(null);
+  // Fraction saved while a save runs
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (!available || paths.length === 0) {
+      setStatus(null);
+      return;
+    }
+
+    let cancelled = false;
+    askServiceWorker({ type: 'status', paths })
+      .then(current => {
+        if (!cancelled) {
+          setStatus(current);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setStatus(null);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [available, paths]);
+
+  const run = useCallback(
+    async (type: 'save' | 'remove') => {
+      setError(null);
+      setProgress(type === 'save' ? 0 : null);
+      try {
+        setStatus(await askServiceWorker({ type, paths }, setProgress));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Offline storage failed');
+        // Some files may have been saved before the failure
+        askServiceWorker({ type: 'status', paths }).then(setStatus, () => undefined);
+      } finally {
+        setProgress(null);
+      }
+    },
+    [paths]
+  );
+
+  const save = useCallback(() => run('save'), [run]);
+  const remove = useCallback(() => run('remove'), [run]);
+
+  return { available, status, progress, error, save, remove };
+}
@@ -0,0 +1,141 @@
+/**
+ * Player bar pinned to the bottom of the window
+ * Shown once something is queued; the queue panel lists the tracks in play order.
+ */
+
+import { useState, type ReactNode } from 'react';
+import { usePlayer } from './player-context';
+
+const REPEAT_LABELS = { off: 'Repeat off', all: 'Repeat all', one: 'Repeat one' } as const;
+
+export function AudioPlayer() {
+  const player = usePlayer();
+  const [showQueue, setShowQueue] = useState(false);
+  const { queue, current } = player;
+
+  if (!queue || !current) {
+    return null;
+  }
+
+  const currentIndex = queue.order[queue.position];
+
+  return (
+    <>
+      {/* Keeps the end of the page clear of the bar */}
+      <div className="h-32 bg-slate-800" />
+
+      <div className="fixed inset-x-0 bottom-0 z-10 bg-slate-900/95 border-t border-slate-700 backdrop-blur">
+        {showQueue && (
+          <ol className="max-w-4xl mx-auto max-h-64 overflow-y-auto px-4 pt-4 space-y-1">
+            {queue.order.map(trackIndex => {
+              const track = queue.tracks[trackIndex];
+              return (
+                <li key={track.path}>
+                  <button
+                    onClick={() => player.playAt(trackIndex)}
+                    className={`w-full px-3 py-2 text-left rounded transition-colors ${
+                      trackIndex === currentIndex
+                        ? 'bg-blue-600/30 text-white'
+                        : 'text-slate-300 hover:bg-slate-700'
+                    }`}
+                  >
+                    {track.relativePath}
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        <div className="max-w-4xl mx-auto px-4 py-3">
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <p className="text-white font-medium truncate">
+              {player.isLoading ? '⏳ ' : '🎵 '}
+              {current.relativePath}
+            </p>
+            {player.error && <p className="text-red-400 text-sm truncate">{player.error}</p>}
+          </div>
+
+          <div className="flex items-center gap-3 text-xs text-slate-400">
+            <span className="w-10 text-right">{formatTime(player.currentTime)}</span>
+            <input
+              type="range"
+              min={0}
+              max={player.duration || 0}
+              step="any"
+              value={Math.min(player.currentTime, player.duration || 0)}
+              onChange={e => player.seek(Number(e.currentTarget.value))}
+              disabled={!player.duration}
+              aria-label="Seek"
+              className="flex-1 accent-blue-500"
+            />
+            <span className="w-10">{formatTime(player.duration)}</span>
+          </div>
+
+          <div className="flex items-center justify-center gap-2 mt-2">
+            <ControlButton
+              label={queue.shuffle ? 'Shuffle on' : 'Shuffle off'}
+              active={queue.shuffle}
+              onClick={player.toggleShuffle}
+            >
+              🔀
+            </ControlButton>
+            <ControlButton label="Previous" onClick={player.previous}>
+              ⏮
+            </ControlButton>
+            <ControlButton label={player.isPlaying ? 'Pause' : 'Play'} onClick={player.togglePlay}>
+              {player.isPlaying ? '⏸' : '▶️'}
+            </ControlButton>
+            <ControlButton label="Next" onClick={player.next}>
+              ⏭
+            </ControlButton>
+            <ControlButton
+              label={REPEAT_LABELS[queue.repeat]}
+              active={queue.repeat !== 'off'}
+              onClick={player.cycleRepeat}
+            >
+              {queue.repeat === 'one' ? '🔂' : '🔁'}
+            </ControlButton>
+            <ControlButton
+              label={showQueue ? 'Hide queue' : 'Show queue'}
+              active={showQueue}
+              onClick={() => setShowQueue(!showQueue)}
+            >
+              ☰
+            </ControlButton>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+interface ControlButtonProps {
+  label: string;
+  active?: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}
+
+function ControlButton({ label, active = false, onClick, children }: ControlButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      title={label}
+      aria-label={label}
+      className={`w-10 h-10 rounded-full text-lg transition-colors ${
+        active ? 'bg-blue-600/40 text-white' : 'text-slate-300 hover:bg-slate-700'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Formats seconds as m:ss
+ */
+function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
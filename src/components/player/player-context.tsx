@@ -0,0 +1,443 @@
+/**
+ * Persistent audio player
+ * The provider sits above the routes and owns the single <audio> element, so music
+ * keeps playing while you browse. Tracks are decrypted as they download; their
+ * object URLs are revoked when the track leaves the queue, or as soon as another
+ * track starts for MediaSource streams, which can only be played through once.
+ * Lock-screen and media-key controls go through the Media Session API.
+ */
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
+import { fetchDecryptedStream } from '@/utils/encrypted-fetch';
+import type { ManifestEntry } from '@/utils/manifest';
+import { canStreamMedia, createMediaUrl } from '@/utils/media-stream';
+import {
+  createQueue,
+  currentTrack,
+  cycleRepeat as advanceRepeat,
+  jumpTo,
+  setShuffle,
+  skipNext,
+  skipPrevious,
+  type PlayQueue,
+} from '@/utils/play-queue';
+import type { ContentSession } from '@/utils/session';
+
+/** Seconds into a track after which "previous" restarts it instead */
+const RESTART_THRESHOLD = 3;
+
+/** Step for the lock-screen seek buttons, in seconds */
+const SEEK_STEP = 10;
+
+export interface PlayerState {
+  queue: PlayQueue<ManifestEntry> | null;
+  current: ManifestEntry | null;
+  isPlaying: boolean;
+  /** Whether the current track is still being fetched */
+  isLoading: boolean;
+  currentTime: number;
+  /** Track length in seconds, 0 until known */
+  duration: number;
+  error: string | null;
+}
+
+export interface PlayerControls {
+  /** Replaces the queue with a listing and plays `start` (no-op if it is already current) */
+  playTracks: (tracks: ManifestEntry[], start: ManifestEntry) => void;
+  togglePlay: () => void;
+  next: () => void;
+  previous: () => void;
+  seek: (time: number) => void;
+  toggleShuffle: () => void;
+  cycleRepeat: () => void;
+  /** Plays a queued track by its index in the listing */
+  playAt: (trackIndex: number) => void;
+}
+
+type PlayerContextValue = PlayerState & PlayerControls;
+
+const PlayerContext = createContext<PlayerContextValue | null>(null);
+// Stable across playback progress, so components that only start tracks don't re-render
+const PlayerControlsContext = createContext<PlayerControls | null>(null);
+
+/**
+ * Player state and controls
+ * @throws If used outside a PlayerProvider
+ */
+export function usePlayer(): PlayerContextValue {
+  const player = useContext(PlayerContext);
+  if (!player) {
+    throw new Error('usePlayer must be used inside a PlayerProvider');
+  }
+  return player;
+}
+
+/**
+ * Player controls alone, which never change while a track plays
+ * @throws If used outside a PlayerProvider
+ */
+export function usePlayerControls(): PlayerControls {
+  const controls = useContext(PlayerControlsContext);
+  if (!controls) {
+    throw new Error('usePlayerControls must be used inside a PlayerProvider');
+  }
+  return controls;
+}
+
+interface PlayerProviderProps {
+  /** Session tracks are fetched with; clearing it stops playback */
+  session: ContentSession | null;
+  children: ReactNode;
+}
+
+export function PlayerProvider({ session, children }: PlayerProviderProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const sessionRef = useRef(session);
+  // Object URL per track path, for the tracks in the queue
+  const urlsRef = useRef(new Map<string, string>());
+  const [queue, setQueue] = useState<PlayQueue<ManifestEntry> | null>(null);
+  const queueRef = useRef(queue);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [time, setTime] = useState({ currentTime: 0, duration: 0 });
+  const [error, setError] = useState<string | null>(null);
+
+  const current = queue ? currentTrack(queue) : null;
+  const tracks = queue?.tracks;
+
+  useEffect(() => {
+    queueRef.current = queue;
+  }, [queue]);
+
+  useEffect(() => {
+    sessionRef.current = session;
+    if (!session) {
+      audioRef.current?.pause();
+      audioRef.current?.removeAttribute('src');
+      setQueue(null);
+    }
+  }, [session]);
+
+  // Release the URLs of tracks that left the queue, and all of them on unmount
+  useEffect(() => {
+    const keep = new Set(tracks?.map(track => track.path));
+    for (const [path, url] of urlsRef.current) {
+      if (!keep.has(path)) {
+        URL.revokeObjectURL(url);
+        urlsRef.current.delete(path);
+      }
+    }
+  }, [tracks]);
+
+  useEffect(() => {
+    const urls = urlsRef.current;
+    return () => {
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, []);
+
+  // Load and start the current track
+  useEffect(() => {
+    const audio = audioRef.current;
+    const activeSession = sessionRef.current;
+    if (!current || !audio || !activeSession) {
+      return;
+    }
+
+    let cancelled = false;
+    const urls = urlsRef.current;
+    // A MediaSource feeds a single playback, so it is fetched again if the track returns
+    const singleUse = canStreamMedia(current.contentType);
+    const release = () => {
+      const url = urls.get(current.path);
+      if (url) {
+        URL.revokeObjectURL(url);
+        urls.delete(current.path);
+      }
+    };
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      setTime({ currentTime: 0, duration: 0 });
+
+      try {
+        let url = urls.get(current.path);
+        if (!url) {
+          url = await createMediaUrl(
+            await fetchDecryptedStream(current.path, activeSession),
+            current.contentType,
+            { playbackTime: () => audio.currentTime }
+          );
+          urls.set(current.path, url);
+        }
+        if (cancelled) {
+          if (singleUse) {
+            release();
+          }
+          return;
+        }
+
+        audio.src = url;
+        // Rejected when autoplay is blocked; the play button starts it instead
+        audio.play().catch(() => undefined);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load track');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    void load();
+
+    return () => {
+      cancelled = true;
+      if (singleUse) {
+        release();
+      }
+    };
+  }, [current]);
+
+  /**
+   * Switches to another queue state, restarting the track if it stays the same
+   */
+  const moveTo = useCallback((next: PlayQueue<ManifestEntry>) => {
+    const previous = queueRef.current;
+    const audio = audioRef.current;
+    if (previous && audio && currentTrack(previous) === currentTrack(next)) {
+      audio.currentTime = 0;
+      audio.play().catch(() => undefined);
+    }
+    setQueue(next);
+  }, []);
+
+  const playTracks = useCallback((listing: ManifestEntry[], start: ManifestEntry) => {
+    setQueue(previous => {
+      if (previous && currentTrack(previous).path === start.path) {
+        return previous;
+      }
+      const startIndex = listing.findIndex(track => track.path === start.path);
+      return createQueue(listing, startIndex, {
+        shuffle: previous?.shuffle,
+        repeat: previous?.repeat,
+      });
+    });
+  }, []);
+
+  const togglePlay = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) {
+      return;
+    }
+    if (audio.paused) {
+      audio.play().catch(() => undefined);
+    } else {
+      audio.pause();
+    }
+  }, []);
+
+  const next = useCallback(() => {
+    const queued = queueRef.current;
+    const moved = queued && skipNext(queued);
+    if (moved) {
+      moveTo(moved);
+    }
+  }, [moveTo]);
+
+  const previous = useCallback(() => {
+    const queued = queueRef.current;
+    const audio = audioRef.current;
+    if (!queued || !audio) {
+      return;
+    }
+    if (audio.currentTime > RESTART_THRESHOLD) {
+      audio.currentTime = 0;
+    } else {
+      moveTo(skipPrevious(queued));
+    }
+  }, [moveTo]);
+
+  const seek = useCallback((seconds: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = seconds;
+    }
+  }, []);
+
+  const toggleShuffle = useCallback(() => {
+    setQueue(queued => queued && setShuffle(queued, !queued.shuffle));
+  }, []);
+
+  const cycleRepeat = useCallback(() => {
+    setQueue(queued => queued && advanceRepeat(queued));
+  }, []);
+
+  const playAt = useCallback(
+    (trackIndex: number) => {
+      const queued = queueRef.current;
+      if (queued) {
+        moveTo(jumpTo(queued, trackIndex));
+      }
+    },
+    [moveTo]
+  );
+
+  // Mirror the element's state, and move on when a track ends
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) {
+      return;
+    }
+
+    const finite = (value: number) => (Number.isFinite(value) ? value : 0);
+    const syncPosition = () => {
+      const mediaSession = navigator.mediaSession;
+      if (!mediaSession?.setPositionState || !Number.isFinite(audio.duration)) {
+        return;
+      }
+      try {
+        mediaSession.setPositionState({
+          duration: audio.duration,
+          playbackRate: audio.playbackRate,
+          position: Math.min(audio.currentTime, audio.duration),
+        });
+      } catch {
+        // Transiently inconsistent while a new track loads
+      }
+    };
+    const onTime = () => {
+      setTime({ currentTime: audio.currentTime, duration: finite(audio.duration) });
+    };
+    const onPlay = () => {
+      setIsPlaying(true);
+      syncPosition();
+    };
+    const onPause = () => {
+      setIsPlaying(false);
+      syncPosition();
+    };
+    const onEnded = () => {
+      const queued = queueRef.current;
+      const moved = queued && skipNext(queued, true);
+      if (moved) {
+        moveTo(moved);
+      }
+    };
+    const onError = () => {
+      if (audio.getAttribute('src')) {
+        setError('This track could not be played');
+      }
+    };
+
+    const listeners: [string, () => void][] = [
+      ['timeupdate', onTime],
+      ['durationchange', onTime],
+      ['durationchange', syncPosition],
+      ['seeked', syncPosition],
+      ['ratechange', syncPosition],
+      ['play', onPlay],
+      ['pause', onPause],
+      ['ended', onEnded],
+      ['error', onError],
+    ];
+    listeners.forEach(([event, listener]) => audio.addEventListener(event, listener));
+    return () => {
+      listeners.forEach(([event, listener]) => audio.removeEventListener(event, listener));
+    };
+  }, [moveTo]);
+
+  // Lock-screen and media-key controls
+  useEffect(() => {
+    const mediaSession = navigator.mediaSession;
+    const audio = audioRef.current;
+    if (!mediaSession || !audio) {
+      return;
+    }
+
+    const handlers: Parameters<typeof mediaSession.setActionHandler>[] = [
+      ['play', () => audio.play().catch(() => undefined)],
+      ['pause', () => audio.pause()],
+      ['previoustrack', previous],
+      ['nexttrack', next],
+      ['seekto', details => seek(details.seekTime ?? audio.currentTime)],
+      ['seekbackward', details => seek(audio.currentTime - (details.seekOffset ?? SEEK_STEP))],
+      ['seekforward', details => seek(audio.currentTime + (details.seekOffset ?? SEEK_STEP))],
+    ];
+    const supported = handlers.filter(([action, handler]) => {
+      try {
+        mediaSession.setActionHandler(action, handler);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+
+    return () => {
+      supported.forEach(([action]) => mediaSession.setActionHandler(action, null));
+    };
+  }, [next, previous, seek]);
+
+  useEffect(() => {
+    const mediaSession = navigator.mediaSession;
+    if (!mediaSession) {
+      return;
+    }
+    mediaSession.metadata = current
+      ? new MediaMetadata({ title: current.name, artist: 'buhbuh', album: 'Music' })
+      : null;
+  }, [current]);
+
+  useEffect(() => {
+    const mediaSession = navigator.mediaSession;
+    if (mediaSession) {
+      mediaSession.playbackState = !current ? 'none' : isPlaying ? 'playing' : 'paused';
+    }
+  }, [current, isPlaying]);
+
+  const controls = useMemo<PlayerControls>(
+    () => ({
+      playTracks,
+      togglePlay,
+      next,
+      previous,
+      seek,
+      toggleShuffle,
+      cycleRepeat,
+      playAt,
+    }),
+    [playTracks, togglePlay, next, previous, seek, toggleShuffle, cycleRepeat, playAt]
+  );
+
+  const value: PlayerContextValue = {
+    queue,
+    current,
+    isPlaying,
+    isLoading,
+    currentTime: time.currentTime,
+    duration: time.duration,
+    error,
+    ...controls,
+  };
+
+  return (
+    <PlayerControlsContext.Provider value={controls}>
+      <PlayerContext.Provider value={value}>
+        {children}
+        <audio ref={audioRef} preload="auto" className="hidden" />
+      </PlayerContext.Provider>
+    </PlayerControlsContext.Provider>
+  );
+}
@@ -0,0 +1,310 @@
+/**
+ * Reading view for text files
+ * Markdown is rendered to React elements with raw HTML dropped, so nothing in a file
+ * is ever injected as markup or run. Plain text is set as verse (stanzas and line
+ * breaks kept) or as prose paragraphs. Font size and line width persist between
+ * visits; a bar along the top shows how far through the piece you are.
+ */
+
+import { useState, useEffect, useRef, useCallback, type ReactNode } from 'react';
+import Markdown, { type Components } from 'react-markdown';
+import { entryTitle } from '@/utils/content-metadata';
+import type { ManifestEntry } from '@/utils/manifest';
+import {
+  LINE_WIDTHS,
+  READER_FONT_SIZES,
+  READER_PREFERENCES_KEY,
+  parseReaderPreferences,
+  stepFontSize,
+  toStanzas,
+  type LineWidth,
+  type ReaderPreferences,
+} from '@/utils/reader-layout';
+
+export type ReaderLayout = 'verse' | 'prose';
+
+// Widths in em, so they follow the font size
+const WIDTH_CLASSES: Record<LineWidth, string> = {
+  narrow: 'max-w-[30em]',
+  medium: 'max-w-[38em]',
+  wide: 'max-w-[50em]',
+};
+
+const WIDTH_LABELS: Record<LineWidth, string> = {
+  narrow: 'Narrow lines',
+  medium: 'Medium lines',
+  wide: 'Wide lines',
+};
+
+interface ReaderProps {
+  entry: ManifestEntry;
+  /** Decrypted text, or null while it loads */
+  text: string | null;
+  layout: ReaderLayout;
+  /** Text files of the category, for previous/next */
+  entries: ManifestEntry[];
+  onNavigate: (entry: ManifestEntry) => void;
+  onClose: () => void;
+}
+
+export function Reader({ entry, text, layout, entries, onNavigate, onClose }: ReaderProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [preferences, setPreferences] = useReaderPreferences();
+  const [progress, setProgress] = useState(0);
+
+  const index = entries.findIndex(e => e.path === entry.path);
+  const previousEntry = index > 0 ? entries[index - 1] : undefined;
+  const nextEntry = index >= 0 && index < entries.length - 1 ? entries[index + 1] : undefined;
+
+  const updateProgress = useCallback(() => {
+    const container = scrollRef.current;
+    if (!container) {
+      return;
+    }
+    const scrollable = container.scrollHeight - container.clientHeight;
+    setProgress(scrollable > 0 ? Math.min(container.scrollTop / scrollable, 1) : 1);
+  }, []);
+
+  // Each piece starts at the top
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = 0;
+    }
+  }, [entry.path]);
+
+  // A new piece, font size or width changes how much there is to scroll
+  useEffect(() => {
+    updateProgress();
+  }, [entry.path, text, preferences, updateProgress]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      } else if (event.key === 'ArrowLeft' && previousEntry) {
+        onNavigate(previousEntry);
+      } else if (event.key === 'ArrowRight' && nextEntry) {
+        onNavigate(nextEntry);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [previousEntry, nextEntry, onNavigate, onClose]);
+
+  const nextWidth =
+    LINE_WIDTHS[(LINE_WIDTHS.indexOf(preferences.lineWidth) + 1) % LINE_WIDTHS.length];
+  const changeFontSize = (step: 1 | -1) =>
+    setPreferences({ ...preferences, fontSize: stepFontSize(preferences.fontSize, step) });
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={updateProgress}
+      className="fixed inset-0 z-[5] overflow-y-auto bg-slate-900"
+      role="dialog"
+      aria-modal="true"
+      aria-label={entryTitle(entry)}
+    >
+      <div className="sticky top-0 bg-slate-900/95 border-b border-slate-800 backdrop-blur">
+        <div className="flex items-center justify-between gap-4 px-4 py-2 text-slate-300">
+          <p className="truncate text-sm">{entryTitle(entry)}</p>
+          <div className="flex items-center gap-1 text-sm">
+            <ReaderButton
+              label="Smaller text"
+              disabled={preferences.fontSize === READER_FONT_SIZES[0]}
+              onClick={() => changeFontSize(-1)}
+            >
+              A−
+            </ReaderButton>
+            <ReaderButton
+              label="Larger text"
+              disabled={preferences.fontSize === READER_FONT_SIZES.at(-1)}
+              onClick={() => changeFontSize(1)}
+            >
+              A+
+            </ReaderButton>
+            <ReaderButton
+              label={`${WIDTH_LABELS[preferences.lineWidth]} (switch to ${nextWidth})`}
+              onClick={() => setPreferences({ ...preferences, lineWidth: nextWidth })}
+            >
+              ↔
+            </ReaderButton>
+            <ReaderButton label="Close reader" onClick={onClose}>
+              ✕
+            </ReaderButton>
+          </div>
+        </div>
+        <div
+          className="h-0.5 bg-blue-500 transition-[width]"
+          style={{ width: `${Math.round(progress * 100)}%` }}
+          role="progressbar"
+          aria-label="Reading progress"
+          aria-valuenow={Math.round(progress * 100)}
+          aria-valuemin={0}
+          aria-valuemax={100}
+        />
+      </div>
+
+      <article
+        style={{ fontSize: preferences.fontSize }}
+        className={`mx-auto px-6 pt-12 pb-16 font-serif leading-relaxed text-slate-200 ${
+          WIDTH_CLASSES[preferences.lineWidth]
+        }`}
+      >
+        {text === null ? (
+          <p className="text-slate-400">Decrypting...</p>
+        ) : (
+          <ReaderText entry={entry} text={text} layout={layout} />
+        )}
+      </article>
+
+      <nav className="mx-auto max-w-[50em] px-6 pb-40 flex justify-between gap-4 text-sm">
+        {previousEntry ? (
+          <button
+            onClick={() => onNavigate(previousEntry)}
+            className="text-left text-slate-400 hover:text-slate-200"
+          >
+            ← {previousEntry.relativePath}
+          </button>
+        ) : (
+          <span />
+        )}
+        {nextEntry && (
+          <button
+            onClick={() => onNavigate(nextEntry)}
+            className="text-right text-slate-400 hover:text-slate-200"
+          >
+            {nextEntry.relativePath} →
+          </button>
+        )}
+      </nav>
+    </div>
+  );
+}
+
+interface ReaderTextProps {
+  entry: ManifestEntry;
+  text: string;
+  layout: ReaderLayout;
+}
+
+function ReaderText({ entry, text, layout }: ReaderTextProps) {
+  if (entry.contentType === 'text/markdown') {
+    return (
+      <Markdown
+        skipHtml
+        disallowedElements={['img']}
+        components={layout === 'verse' ? VERSE_MARKDOWN : PROSE_MARKDOWN}
+      >
+        {text}
+      </Markdown>
+    );
+  }
+
+  // Source-like text (HTML, CSS, scripts) is shown as-is
+  if (entry.contentType !== 'text/plain') {
+    return <pre className="whitespace-pre-wrap font-mono text-[0.85em]">{text}</pre>;
+  }
+
+  return layout === 'verse' ? (
+    <>
+      {toStanzas(text).map((stanza, i) => (
+        <p key={i} className="mb-[1.4em]">
+          {stanza.map((line, j) => (
+            // Hanging indent, so a wrapped line reads as one line of verse
+            <span key={j} className="block whitespace-pre-wrap pl-[2em] -indent-[2em]">
+              {line}
+            </span>
+          ))}
+        </p>
+      ))}
+    </>
+  ) : (
+    <>
+      {toStanzas(text).map((paragraph, i) => (
+        <p key={i} className="mb-[1em]">
+          {paragraph.map(line => line.trim()).join(' ')}
+        </p>
+      ))}
+    </>
+  );
+}
+
+const PROSE_MARKDOWN: Components = {
+  h1: ({ node: _node, ...props }) => (
+    <h1 className="text-[1.8em] font-bold mb-[0.6em]" {...props} />
+  ),
+  h2: ({ node: _node, ...props }) => (
+    <h2 className="text-[1.4em] font-bold mt-[1.2em] mb-[0.5em]" {...props} />
+  ),
+  h3: ({ node: _node, ...props }) => (
+    <h3 className="text-[1.15em] font-semibold mt-[1em] mb-[0.4em]" {...props} />
+  ),
+  p: ({ node: _node, ...props }) => <p className="mb-[1em]" {...props} />,
+  ul: ({ node: _node, ...props }) => <ul className="list-disc pl-[1.5em] mb-[1em]" {...props} />,
+  ol: ({ node: _node, ...props }) => <ol className="list-decimal pl-[1.5em] mb-[1em]" {...props} />,
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote
+      className="border-l-4 border-slate-600 pl-[1em] italic text-slate-400 mb-[1em]"
+      {...props}
+    />
+  ),
+  a: ({ node: _node, ...props }) => (
+    <a className="text-blue-400 underline" target="_blank" rel="noopener noreferrer" {...props} />
+  ),
+  code: ({ node: _node, ...props }) => (
+    <code className="font-mono text-[0.85em] bg-slate-800 rounded px-1" {...props} />
+  ),
+  pre: ({ node: _node, ...props }) => (
+    <pre className="bg-slate-800 rounded p-4 mb-[1em] overflow-x-auto" {...props} />
+  ),
+  hr: ({ node: _node, ...props }) => <hr className="my-[2em] border-slate-700" {...props} />,
+};
+
+// Verse keeps single line breaks, which Markdown would otherwise fold into one line
+const VERSE_MARKDOWN: Components = {
+  ...PROSE_MARKDOWN,
+  p: ({ node: _node, ...props }) => <p className="mb-[1.4em] whitespace-pre-line" {...props} />,
+};
+
+/**
+ * Reader preferences, saved to localStorage on change
+ */
+function useReaderPreferences(): [ReaderPreferences, (preferences: ReaderPreferences) => void] {
+  const [preferences, setPreferences] = useState(() =>
+    parseReaderPreferences(window.localStorage.getItem(READER_PREFERENCES_KEY))
+  );
+
+  const update = (next: ReaderPreferences) => {
+    setPreferences(next);
+    try {
+      window.localStorage.setItem(READER_PREFERENCES_KEY, JSON.stringify(next));
+    } catch {
+      // Storage can be full or disabled; the choice still applies for this visit
+    }
+  };
+
+  return [preferences, update];
+}
+
+interface ReaderButtonProps {
+  label: string;
+  disabled?: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}
+
+function ReaderButton({ label, disabled = false, onClick, children }: ReaderButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      title={label}
+      aria-label={label}
+      className="min-w-9 h-9 px-2 rounded hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed"
+    >
+      {children}
+    </button>
+  );
+}
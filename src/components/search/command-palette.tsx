@@ -0,0 +1,225 @@
+/**
+ * Command palette: Ctrl/Cmd+K jumps to any category or file
+ * File titles and folders are matched from the manifest straight away; the file
+ * contents come from the encrypted search index, fetched the first time the palette
+ * opens. Everything is matched in the page.
+ */
+
+import {
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+  type KeyboardEvent as ReactKeyboardEvent,
+} from 'react';
+import { useSearchIndex } from '@/components/auth/use-content-queries';
+import { CATEGORIES, type ContentCategoryConfig } from '@/utils/content-categories';
+import { entryTitle } from '@/utils/content-metadata';
+import type { ManifestEntry } from '@/utils/manifest';
+import { searchContent, titleIndex, type SearchHit } from '@/utils/search-index';
+import type { ContentSession } from '@/utils/session';
+
+/** Most files listed for a query */
+const MAX_FILE_RESULTS = 30;
+
+type PaletteItem =
+  | { kind: 'category'; category: ContentCategoryConfig }
+  | { kind: 'file'; category: string; entry: ManifestEntry; snippet?: SearchHit['snippet'] };
+
+interface CommandPaletteProps {
+  session: ContentSession;
+  /** Files of the unlocked categories, from the manifest */
+  files: Record<string, ManifestEntry[]>;
+  onSelectCategory: (categoryId: string) => void;
+  onOpenFile: (categoryId: string, entry: ManifestEntry) => void;
+}
+
+export function CommandPalette(props: CommandPaletteProps) {
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        title="Search titles, folders and text (Ctrl+K or ⌘K)"
+        className="px-3 py-2 text-sm text-slate-300 bg-slate-700/50 hover:bg-slate-700 rounded-lg transition-colors"
+      >
+        🔍 Search <kbd className="ml-1 text-xs text-slate-400">Ctrl K</kbd>
+      </button>
+      {open && <PaletteDialog {...props} onClose={() => setOpen(false)} />}
+    </>
+  );
+}
+
+interface PaletteDialogProps extends CommandPaletteProps {
+  onClose: () => void;
+}
+
+function PaletteDialog({
+  session,
+  files,
+  onSelectCategory,
+  onOpenFile,
+  onClose,
+}: PaletteDialogProps) {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const searchIndex = useSearchIndex(session, true);
+
+  // Titles alone stand in until the index has loaded, or if the site has none
+  const index = useMemo(() => searchIndex.data ?? titleIndex(files), [searchIndex.data, files]);
+
+  const items = useMemo((): PaletteItem[] => {
+    const needle = query.trim().toLowerCase();
+    const categories = CATEGORIES.filter(
+      category =>
+        category.label.toLowerCase().includes(needle) ||
+        category.description.toLowerCase().includes(needle)
+    ).map(category => ({ kind: 'category' as const, category }));
+
+    const hits = searchContent(index, query, MAX_FILE_RESULTS).flatMap(hit => {
+      // The index can only name files the manifest lists for this session
+      const entry = files[hit.category]?.find(e => e.path === hit.document.path);
+      return entry
+        ? [{ kind: 'file' as const, category: hit.category, entry, snippet: hit.snippet }]
+        : [];
+    });
+
+    return [...categories, ...hits];
+  }, [query, index, files]);
+
+  useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView?.({ block: 'nearest' });
+  }, [active]);
+
+  const choose = (item: PaletteItem) => {
+    onClose();
+    if (item.kind === 'category') {
+      onSelectCategory(item.category.id);
+    } else {
+      onOpenFile(item.category, item.entry);
+    }
+  };
+
+  // Handled here, so the lightbox and reader underneath don't act on the same keys
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActive(current => (current + step + items.length) % Math.max(items.length, 1));
+    } else if (event.key === 'Enter' && items[active]) {
+      event.preventDefault();
+      choose(items[active]);
+    } else if (event.key === 'Escape') {
+      onClose();
+    } else {
+      return;
+    }
+    event.stopPropagation();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-30 flex items-start justify-center bg-black/60 px-4 pt-24"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search"
+        onClick={event => event.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        className="w-full max-w-xl overflow-hidden rounded-lg border border-slate-600 bg-slate-800 text-left shadow-xl"
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={event => {
+            setQuery(event.currentTarget.value);
+            setActive(0);
+          }}
+          placeholder="Jump to a category, or search titles, folders and text..."
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={items[active] ? `command-palette-${active}` : undefined}
+          className="w-full px-4 py-3 bg-slate-900 border-b border-slate-700 text-white placeholder-slate-400 focus:outline-none"
+        />
+
+        <ul
+          id="command-palette-results"
+          ref={listRef}
+          role="listbox"
+          className="max-h-96 overflow-y-auto"
+        >
+          {items.map((item, i) => (
+            <li
+              key={item.kind === 'category' ? item.category.id : item.entry.path}
+              id={`command-palette-${i}`}
+              role="option"
+              aria-selected={i === active}
+              onMouseMove={() => setActive(i)}
+              onClick={() => choose(item)}
+              className={`cursor-pointer px-4 py-2 ${i === active ? 'bg-blue-600/30' : ''}`}
+            >
+              {item.kind === 'category' ? (
+                <p className="text-white">
+                  {item.category.emoji} {item.category.label}
+                  <span className="ml-2 text-sm text-slate-400">{item.category.description}</span>
+                </p>
+              ) : (
+                <FileResult item={item} />
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <p className="px-4 py-2 text-xs text-slate-400 border-t border-slate-700">
+          {searchIndex.isPending
+            ? 'Loading the search index; matching titles and folders for now...'
+            : searchIndex.isError
+              ? `Only titles and folders can be searched: ${searchIndex.error.message}`
+              : query.trim() && items.length === 0
+                ? 'Nothing matches'
+                : '↑↓ to move · Enter to open · Esc to close'}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function FileResult({ item }: { item: Extract<PaletteItem, { kind: 'file' }> }) {
+  const category = CATEGORIES.find(c => c.id === item.category);
+
+  return (
+    <>
+      <p className="text-white truncate">
+        {category?.emoji} {entryTitle(item.entry)}
+      </p>
+      {item.snippet ? (
+        <p className="text-sm text-slate-400 line-clamp-2">
+          {item.snippet.before}
+          <mark className="bg-yellow-500/30 text-slate-100">{item.snippet.match}</mark>
+          {item.snippet.after}
+        </p>
+      ) : (
+        item.entry.meta?.description && (
+          <p className="text-sm text-slate-400 line-clamp-2">{item.entry.meta.description}</p>
+        )
+      )}
+    </>
+  );
+}
@@ -1,2 +0,0 @@
-import './styles/globals.css';
-//# sourceMappingURL=main.d.ts.map
\ No newline at end of file
@@ -1,10 +0,0 @@
-import { jsx as _jsx } from "react/jsx-runtime";
-import React from 'react';
-import ReactDOM from 'react-dom/client';
-import App from './App';
-import './styles/globals.css';
-const rootElement = document.getElementById('root');
-if (!rootElement)
-    throw new Error('Root element not found');
-ReactDOM.createRoot(rootElement).render(_jsx(React.StrictMode, { children: _jsx(App, {}) }));
-//# sourceMappingURL=main.js.map
\ No newline at end of file
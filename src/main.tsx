@@ -1,3 +1,4 @@
+/// <reference types="vite/client" />
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
@@ -10,4 +11,12 @@ ReactDOM.createRoot(rootElement).render(
   <React.StrictMode>
     <App />
   </React.StrictMode>,
-)
\ No newline at end of file
+)
+
+// Caches the shell and encrypted files for offline use; not in development, where
+// a cached shell would hide changes
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  navigator.serviceWorker.register('/sw.js').catch(err => {
+    console.error('Service worker registration failed:', err)
+  })
+}
@@ -0,0 +1,188 @@
+/**
+ * Route tree
+ * `/` is the password gate; `/c/$category` and `/c/$category/$file` browse the
+ * unlocked content, so categories and files can be linked to directly.
+ * The session lives in router context: the guard sends locked visits back to the
+ * gate with the requested URL, and the gate forwards there once it unlocks.
+ */
+
+import {
+  Link,
+  Outlet,
+  createRootRouteWithContext,
+  createRoute,
+  createRouter,
+  notFound,
+  redirect,
+  useNavigate,
+  useParams,
+} from '@tanstack/react-router';
+import { useEffect } from 'react';
+import { FileBrowser } from '@/components/auth/file-browser';
+import { PasswordGate } from '@/components/auth/password-gate';
+import { useDecryption } from '@/components/auth/use-decryption';
+import { AudioPlayer } from '@/components/player/audio-player';
+import { PlayerProvider } from '@/components/player/player-context';
+import { CATEGORIES } from '@/utils/content-categories';
+import { DEFAULT_AUTO_LOCK_SETTINGS, type AutoLockSettings } from '@/utils/auto-lock';
+import { safeReturnPath } from '@/utils/return-path';
+import type { ContentSession } from '@/utils/session';
+
+export interface RouterContext {
+  /** Unlocked session, or null until the gate opens one */
+  session: ContentSession | null;
+  /** Replaces the session; the app re-runs the guards afterwards */
+  setSession: (session: ContentSession) => void;
+  /** Forgets the session and everything decrypted with it, in every tab */
+  lock: () => void;
+  /** When the app locks by itself */
+  autoLock: AutoLockSettings;
+  setAutoLock: (settings: AutoLockSettings) => void;
+}
+
+interface GateSearch {
+  /** Page the visitor asked for before being sent to the gate */
+  redirect?: string;
+}
+
+const rootRoute = createRootRouteWithContext<RouterContext>()({
+  component: RootLayout,
+  notFoundComponent: NotFound,
+});
+
+const gateRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/',
+  validateSearch: (search: Record<string, unknown>): GateSearch => {
+    const target = safeReturnPath(search.redirect);
+    return target ? { redirect: target } : {};
+  },
+  beforeLoad: ({ context, search }) => {
+    if (!context.session) {
+      return;
+    }
+    if (search.redirect) {
+      throw redirect({ href: search.redirect });
+    }
+    throw redirect({ to: '/c/$category', params: { category: CATEGORIES[0].id } });
+  },
+  component: GatePage,
+});
+
+const categoryRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/c/$category',
+  beforeLoad: ({ context, location, params }) => {
+    if (!context.session) {
+      throw redirect({ to: '/', search: { redirect: location.href } });
+    }
+    if (!CATEGORIES.some(c => c.id === params.category)) {
+      throw notFound();
+    }
+    return { session: context.session };
+  },
+  component: BrowsePage,
+});
+
+// Rendered by the category page, which reads the file from the URL
+const fileRoute = createRoute({
+  getParentRoute: () => categoryRoute,
+  path: '$file',
+});
+
+const routeTree = rootRoute.addChildren([gateRoute, categoryRoute.addChildren([fileRoute])]);
+
+export const router = createRouter({
+  routeTree,
+  // Provided by App on render
+  context: {
+    session: null,
+    setSession: () => undefined,
+    lock: () => undefined,
+    autoLock: DEFAULT_AUTO_LOCK_SETTINGS,
+    setAutoLock: () => undefined,
+  },
+});
+
+declare module '@tanstack/react-router' {
+  interface Register {
+    router: typeof router;
+  }
+}
+
+// The player wraps every page so playback survives navigation
+function RootLayout() {
+  const { session } = rootRoute.useRouteContext();
+
+  return (
+    <PlayerProvider session={session}>
+      <Outlet />
+      <AudioPlayer />
+    </PlayerProvider>
+  );
+}
+
+function GatePage() {
+  const { setSession } = gateRoute.useRouteContext();
+  const { redirect: target } = gateRoute.useSearch();
+  const decryption = useDecryption();
+
+  useEffect(() => {
+    if (decryption.session) {
+      setSession(decryption.session);
+    }
+  }, [decryption.session, setSession]);
+
+  return (
+    <PasswordGate
+      onUnlock={decryption.unlock}
+      message={target ? 'Enter password to open this link' : undefined}
+      isLoading={decryption.isLoading}
+      error={decryption.error}
+      onErrorClear={decryption.clearError}
+    />
+  );
+}
+
+function BrowsePage() {
+  const { session, setSession, lock, autoLock, setAutoLock } = categoryRoute.useRouteContext();
+  const { category } = categoryRoute.useParams();
+  const { file } = useParams({ strict: false });
+  const navigate = useNavigate();
+
+  return (
+    <FileBrowser
+      session={session}
+      category={category}
+      file={file}
+      onSessionChange={setSession}
+      onSelectCategory={id => navigate({ to: '/c/$category', params: { category: id } })}
+      onSelectFile={(entry, options) =>
+        navigate({
+          to: '/c/$category/$file',
+          params: { category, file: entry.relativePath },
+          replace: options?.replace,
+        })
+      }
+      onCloseFile={() => navigate({ to: '/c/$category', params: { category } })}
+      onOpenFile={(id, entry) =>
+        navigate({ to: '/c/$category/$file', params: { category: id, file: entry.relativePath } })
+      }
+      onLock={lock}
+      autoLock={autoLock}
+      onAutoLockChange={setAutoLock}
+    />
+  );
+}
+
+function NotFound() {
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen gap-4 bg-gradient-to-br from-slate-900 to-slate-800 text-slate-300">
+      <div className="text-4xl">🧭</div>
+      <p>Nothing lives at this address.</p>
+      <Link to="/" className="text-blue-400 hover:text-blue-300">
+        Back to the start
+      </Link>
+    </div>
+  );
+}
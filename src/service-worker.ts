@@ -0,0 +1,177 @@
+/**
+ * Service worker
+ * Serves the app shell from the cache so the site opens offline, and keeps encrypted
+ * files once they have been fetched (on first view, or all of a category when the
+ * page asks). Everything stored is exactly what the server sent; the page decrypts
+ * in memory as before.
+ * Built to /sw.js; the `offlineCache` Vite plugin fills in {@link OFFLINE_BUILD}.
+ */
+
+import {
+  CONTENT_CACHE,
+  PRECACHED_CONTENT,
+  SHELL_CACHE_PREFIX,
+  contentCacheKey,
+  isCacheableResponse,
+  staleContentKeys,
+  type OfflineBuild,
+  type OfflineReply,
+  type OfflineRequest,
+} from './utils/offline-cache';
+
+// The parts of the service worker scope used here (the DOM and WebWorker libs clash)
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface ExtendableMessageEvent extends ExtendableEvent {
+  data: OfflineRequest;
+  ports: readonly MessagePort[];
+}
+
+interface ServiceWorkerScope {
+  location: Location;
+  addEventListener(
+    type: 'install' | 'activate',
+    listener: (event: ExtendableEvent) => void
+  ): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: ExtendableMessageEvent) => void): void;
+}
+
+declare const self: ServiceWorkerScope;
+declare const __OFFLINE_BUILD__: OfflineBuild;
+
+const OFFLINE_BUILD = __OFFLINE_BUILD__;
+const SHELL_CACHE = `${SHELL_CACHE_PREFIX}${OFFLINE_BUILD.version}`;
+
+/**
+ * Fetches an encrypted file into the content cache unless this version is already there
+ */
+async function storeContent(path: string, cache: Cache): Promise<void> {
+  const key = contentCacheKey(path, OFFLINE_BUILD);
+  if (!key || (await cache.match(key))) {
+    return;
+  }
+  const response = await fetch(path);
+  if (!isCacheableResponse(response)) {
+    throw new Error(`Failed to save ${path}: ${response.status} ${response.statusText}`);
+  }
+  await cache.put(key, response);
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    (async () => {
+      await (await caches.open(SHELL_CACHE)).addAll(OFFLINE_BUILD.shell);
+      const content = await caches.open(CONTENT_CACHE);
+      await Promise.all(
+        PRECACHED_CONTENT.filter(path => contentCacheKey(path, OFFLINE_BUILD)).map(path =>
+          storeContent(path, content)
+        )
+      );
+    })()
+  );
+});
+
+// Waiting tabs keep the old shell until they close, so the old cache goes only now
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter(name => name.startsWith(SHELL_CACHE_PREFIX) && name !== SHELL_CACHE)
+          .map(name => caches.delete(name))
+      );
+
+      const content = await caches.open(CONTENT_CACHE);
+      const cached = (await content.keys()).map(request => request.url);
+      await Promise.all(staleContentKeys(cached, OFFLINE_BUILD).map(url => content.delete(url)));
+    })()
+  );
+});
+
+async function fromShell(request: Request, path: string): Promise<Response> {
+  const cached = await caches.match(path, { cacheName: SHELL_CACHE });
+  return cached ?? fetch(request);
+}
+
+async function fromContent(event: FetchEvent, key: string): Promise<Response> {
+  const cache = await caches.open(CONTENT_CACHE);
+  const cached = await cache.match(key);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(event.request);
+  if (isCacheableResponse(response)) {
+    // Stored as it downloads, without holding back the page's copy of the stream
+    event.waitUntil(cache.put(key, response.clone()).catch(() => undefined));
+  }
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+
+  // Every route is the single-page app
+  if (request.mode === 'navigate') {
+    event.respondWith(fromShell(request, '/index.html'));
+    return;
+  }
+  if (OFFLINE_BUILD.shell.includes(url.pathname)) {
+    event.respondWith(fromShell(request, url.pathname));
+    return;
+  }
+
+  const key = contentCacheKey(url.pathname, OFFLINE_BUILD);
+  if (key) {
+    event.respondWith(fromContent(event, key));
+  }
+});
+
+async function handleRequest(message: OfflineRequest, reply: (message: OfflineReply) => void) {
+  const cache = await caches.open(CONTENT_CACHE);
+  const keyed = message.paths.flatMap(path => {
+    const key = contentCacheKey(path, OFFLINE_BUILD);
+    return key ? [{ path, key }] : [];
+  });
+
+  if (message.type === 'save') {
+    let done = 0;
+    for (const { path } of keyed) {
+      await storeContent(path, cache);
+      reply({ type: 'progress', done: ++done, total: keyed.length });
+    }
+  } else if (message.type === 'remove') {
+    await Promise.all(keyed.map(({ key }) => cache.delete(key)));
+  }
+
+  const matches = await Promise.all(keyed.map(({ key }) => cache.match(key)));
+  reply({ type: 'status', cached: matches.filter(Boolean).length, total: keyed.length });
+}
+
+// Each request comes with its own port for the replies
+self.addEventListener('message', event => {
+  const [port] = event.ports;
+  if (!port) {
+    return;
+  }
+  const reply = (message: OfflineReply) => port.postMessage(message);
+
+  event.waitUntil(
+    handleRequest(event.data, reply).catch(err =>
+      reply({ type: 'error', message: err instanceof Error ? err.message : 'Offline cache failed' })
+    )
+  );
+});
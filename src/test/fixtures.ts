@@ -0,0 +1,31 @@
+/**
+ * Fixtures shared by the test suites
+ */
+
+import type { ManifestEntry } from '@/utils/manifest';
+import { getMimeType } from '@/utils/mime-types';
+
+/**
+ * A manifest entry for a file, typed from its name unless `fields` say otherwise
+ * The object path is the relative path in hex, so every file has its own (as object
+ * names do) and the same file always gets the same one.
+ */
+export function manifestEntry(
+  relativePath: string,
+  fields: Partial<ManifestEntry> = {}
+): ManifestEntry {
+  const hex = [...new TextEncoder().encode(relativePath)]
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  const name = relativePath.split('/').pop()!;
+
+  return {
+    path: `/objects/${hex.padStart(32, '0')}.enc`,
+    name,
+    relativePath,
+    size: 100,
+    contentType: getMimeType(name),
+    sha256: 'ab'.repeat(32),
+    ...fields,
+  };
+}
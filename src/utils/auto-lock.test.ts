@@ -0,0 +1,45 @@
+/**
+ * Test suite for the auto-lock rules
+ * Tests reading back stored settings, the idle countdown and messages between tabs
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_AUTO_LOCK_SETTINGS,
+  idleTimeRemaining,
+  isLockMessage,
+  parseAutoLockSettings,
+} from './auto-lock';
+
+describe('Auto-lock', () => {
+  it('should read stored settings and fall back per field', () => {
+    expect(parseAutoLockSettings('{"idleMinutes":5,"lockWhenHidden":true}')).toEqual({
+      idleMinutes: 5,
+      lockWhenHidden: true,
+    });
+    expect(parseAutoLockSettings('{"idleMinutes":null,"lockWhenHidden":false}')).toEqual({
+      idleMinutes: null,
+      lockWhenHidden: false,
+    });
+    expect(parseAutoLockSettings('{"idleMinutes":7,"lockWhenHidden":"yes"}')).toEqual(
+      DEFAULT_AUTO_LOCK_SETTINGS
+    );
+    expect(parseAutoLockSettings('not json')).toEqual(DEFAULT_AUTO_LOCK_SETTINGS);
+    expect(parseAutoLockSettings(null)).toEqual(DEFAULT_AUTO_LOCK_SETTINGS);
+  });
+
+  it('should count down from the last activity', () => {
+    expect(idleTimeRemaining(1000, 5, 1000)).toBe(5 * 60 * 1000);
+    expect(idleTimeRemaining(1000, 5, 61_000)).toBe(4 * 60 * 1000);
+    expect(idleTimeRemaining(1000, 5, 1000 + 5 * 60 * 1000)).toBe(0);
+    expect(idleTimeRemaining(1000, 5, 1000 + 60 * 60 * 1000)).toBe(0);
+  });
+
+  it('should only accept known messages', () => {
+    expect(isLockMessage({ type: 'lock' })).toBe(true);
+    expect(isLockMessage({ type: 'activity', at: 1 })).toBe(true);
+    expect(isLockMessage({ type: 'activity' })).toBe(false);
+    expect(isLockMessage({ type: 'unlock' })).toBe(false);
+    expect(isLockMessage('lock')).toBe(false);
+  });
+});
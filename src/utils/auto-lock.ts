@@ -0,0 +1,80 @@
+/**
+ * Auto-lock rules
+ * When an unlocked site locks by itself (after a quiet spell, or when its tab is
+ * hidden), and the messages tabs exchange so that locking one locks them all.
+ */
+
+import { isObject } from './json-guards';
+
+export interface AutoLockSettings {
+  /** Minutes without activity before locking, or null to stay unlocked */
+  idleMinutes: number | null;
+  /** Lock a tab as soon as it is hidden (another tab, minimized, screen off) */
+  lockWhenHidden: boolean;
+}
+
+/** Choices offered for the idle timeout */
+export const IDLE_MINUTES_OPTIONS = [5, 15, 30, 60];
+
+export const DEFAULT_AUTO_LOCK_SETTINGS: AutoLockSettings = {
+  idleMinutes: 30,
+  lockWhenHidden: false,
+};
+
+/** localStorage key for the auto-lock settings */
+export const AUTO_LOCK_SETTINGS_KEY = 'buhbuh:auto-lock';
+
+/** BroadcastChannel the site's tabs share */
+export const LOCK_CHANNEL = 'buhbuh:lock';
+
+/** Activity is shared with the other tabs at most this often, in milliseconds */
+export const ACTIVITY_SHARE_INTERVAL = 30 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Messages between tabs
+ * `lock` locks every tab; `activity` tells idle timers in the other tabs that the
+ * visitor is still around.
+ */
+export type LockMessage = { type: 'lock' } | { type: 'activity'; at: number };
+
+export function isLockMessage(value: unknown): value is LockMessage {
+  return (
+    isObject(value) &&
+    (value.type === 'lock' || (value.type === 'activity' && typeof value.at === 'number'))
+  );
+}
+
+/**
+ * Reads stored settings, falling back to the defaults for anything missing or invalid
+ */
+export function parseAutoLockSettings(stored: string | null): AutoLockSettings {
+  let value: unknown = null;
+  try {
+    value = stored ? JSON.parse(stored) : null;
+  } catch {
+    // Unreadable settings are not worth an error: start over
+  }
+  if (!isObject(value)) {
+    return DEFAULT_AUTO_LOCK_SETTINGS;
+  }
+
+  return {
+    idleMinutes:
+      value.idleMinutes === null || IDLE_MINUTES_OPTIONS.includes(value.idleMinutes as number)
+        ? (value.idleMinutes as number | null)
+        : DEFAULT_AUTO_LOCK_SETTINGS.idleMinutes,
+    lockWhenHidden:
+      typeof value.lockWhenHidden === 'boolean'
+        ? value.lockWhenHidden
+        : DEFAULT_AUTO_LOCK_SETTINGS.lockWhenHidden,
+  };
+}
+
+/**
+ * Milliseconds left before an idle timeout, 0 once it has passed
+ */
+export function idleTimeRemaining(lastActivity: number, idleMinutes: number, now: number): number {
+  return Math.max(lastActivity + idleMinutes * MINUTE_MS - now, 0);
+}
@@ -0,0 +1,72 @@
+/**
+ * Test suite for the bounded object URL cache
+ * Tests reuse, least-recently-used eviction and clearing during a load
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createBlobUrlCache } from './blob-url-cache';
+
+describe('Blob URL cache', () => {
+  const loaderFor = (key: string) => vi.fn(async () => `blob:${key}`);
+
+  it('should load each key once and share concurrent loads', async () => {
+    const cache = createBlobUrlCache(2, vi.fn());
+    const loader = loaderFor('a');
+
+    const [first, second] = await Promise.all([cache.load('a', loader), cache.load('a', loader)]);
+    const third = await cache.load('a', loader);
+
+    expect([first, second, third]).toEqual(['blob:a', 'blob:a', 'blob:a']);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should revoke the least recently used URL past the limit', async () => {
+    const revoke = vi.fn();
+    const cache = createBlobUrlCache(2, revoke);
+
+    await cache.load('a', loaderFor('a'));
+    await cache.load('b', loaderFor('b'));
+    // Using "a" again makes "b" the oldest
+    await cache.load('a', loaderFor('a'));
+    await cache.load('c', loaderFor('c'));
+
+    expect(revoke).toHaveBeenCalledTimes(1);
+    expect(revoke).toHaveBeenCalledWith('blob:b');
+    expect(cache.size).toBe(2);
+
+    const reloaded = loaderFor('b');
+    await cache.load('b', reloaded);
+    expect(reloaded).toHaveBeenCalledTimes(1);
+    expect(revoke).toHaveBeenLastCalledWith('blob:a');
+  });
+
+  it('should not cache failed loads', async () => {
+    const cache = createBlobUrlCache(2, vi.fn());
+
+    await expect(
+      cache.load('a', async () => {
+        throw new Error('corrupt or truncated');
+      })
+    ).rejects.toThrow('corrupt or truncated');
+    expect(await cache.load('a', loaderFor('a'))).toBe('blob:a');
+  });
+
+  it('should revoke everything on clear, including loads still in flight', async () => {
+    const revoke = vi.fn();
+    const cache = createBlobUrlCache(4, revoke);
+    await cache.load('a', loaderFor('a'));
+    let finish: (url: string) => void = () => undefined;
+    const slow = cache.load('b', () => new Promise(resolve => (finish = resolve)));
+
+    cache.clear();
+    finish('blob:b');
+
+    await expect(slow).rejects.toThrow('cleared');
+    expect(revoke.mock.calls.map(([url]) => url)).toEqual(['blob:a', 'blob:b']);
+    expect(cache.size).toBe(0);
+  });
+
+  it('should reject a limit below one', () => {
+    expect(() => createBlobUrlCache(0)).toThrow('Invalid cache limit: 0');
+  });
+});
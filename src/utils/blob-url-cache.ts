@@ -0,0 +1,100 @@
+/**
+ * Bounded cache of decrypted object URLs
+ * Each URL pins its decrypted Blob in memory until revoked, so galleries keep only
+ * the most recently used ones and revoke the rest. Asking for an evicted key
+ * simply loads it again.
+ */
+
+export interface BlobUrlCache {
+  /**
+   * Returns the URL for a key, loading it on first use
+   * Concurrent calls for the same key share one load; every call counts as a use.
+   * @throws Whatever the loader throws, or if the cache is cleared mid-load
+   */
+  load(key: string, loader: () => Promise<string>): Promise<string>;
+  /** Revokes every URL (pending loads are revoked as they finish) */
+  clear(): void;
+  /** Number of URLs currently held */
+  readonly size: number;
+}
+
+/**
+ * Creates a least-recently-used URL cache
+ * @param limit - Most URLs held at once
+ * @param revoke - Releases an evicted URL (URL.revokeObjectURL by default)
+ */
+export function createBlobUrlCache(
+  limit: number,
+  revoke: (url: string) => void = url => URL.revokeObjectURL(url)
+): BlobUrlCache {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid cache limit: ${limit}`);
+  }
+
+  // Map iteration order doubles as recency order: oldest first
+  const urls = new Map<string, string>();
+  const pending = new Map<string, Promise<string>>();
+  // Bumped by clear(), so loads started before it do not repopulate the cache
+  let generation = 0;
+
+  const touch = (key: string, url: string) => {
+    urls.delete(key);
+    urls.set(key, url);
+  };
+
+  const evict = () => {
+    for (const [key, url] of urls) {
+      if (urls.size <= limit) {
+        break;
+      }
+      urls.delete(key);
+      revoke(url);
+    }
+  };
+
+  return {
+    load(key, loader) {
+      const cached = urls.get(key);
+      if (cached) {
+        touch(key, cached);
+        return Promise.resolve(cached);
+      }
+
+      const inFlight = pending.get(key);
+      if (inFlight) {
+        return inFlight;
+      }
+
+      const started = generation;
+      const loading = loader()
+        .then(url => {
+          if (started !== generation) {
+            revoke(url);
+            throw new Error('Image cache was cleared');
+          }
+          touch(key, url);
+          evict();
+          return url;
+        })
+        .finally(() => {
+          if (pending.get(key) === loading) {
+            pending.delete(key);
+          }
+        });
+
+      pending.set(key, loading);
+      return loading;
+    },
+
+    clear() {
+      generation++;
+      pending.clear();
+      urls.forEach(url => revoke(url));
+      urls.clear();
+    },
+
+    get size() {
+      return urls.size;
+    },
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Content categories and the access level each one requires
+ * Shared by the encryption CLI (which folders to encrypt, under which key) and
+ * the browser (which categories to show and which are locked).
+ */
+
+export interface ContentCategoryConfig {
+  /** Folder under public/ and manifest key */
+  id: string;
+  label: string;
+  emoji: string;
+  description: string;
+  /** Key the category is encrypted under; key slots grant access per level */
+  accessLevel: string;
+  /**
+   * How the browser lays out the files; defaults to a list
+   * Text opens in the reader, set as verse (line breaks kept) or as prose paragraphs.
+   */
+  view?: 'list' | 'gallery' | 'verse' | 'prose';
+}
+
+export const CATEGORIES: ContentCategoryConfig[] = [
+  { id: 'poems', label: 'Poems', emoji: '📝', description: 'Poetry collection', accessLevel: 'private', view: 'verse' },
+  { id: 'music', label: 'Music', emoji: '🎵', description: 'Audio files', accessLevel: 'private' },
+  { id: 'art', label: 'Art', emoji: '🎨', description: 'Artwork', accessLevel: 'shared', view: 'gallery' },
+  { id: 'pictures', label: 'Pictures', emoji: '📷', description: 'Photography', accessLevel: 'shared', view: 'gallery' },
+  { id: 'writing', label: 'Writing', emoji: '✍️', description: 'Written works', accessLevel: 'private', view: 'prose' },
+];
+
+/**
+ * Every access level used by at least one category
+ */
+export const ACCESS_LEVELS: string[] = [...new Set(CATEGORIES.map(c => c.accessLevel))];
+
+/**
+ * Looks up the access level a category requires
+ * @throws If the category is not configured
+ */
+export function accessLevelOf(categoryId: string): string {
+  const category = CATEGORIES.find(c => c.id === categoryId);
+  if (!category) {
+    throw new Error(`Unknown content category: ${categoryId}`);
+  }
+  return category.accessLevel;
+}
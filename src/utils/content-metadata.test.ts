@@ -0,0 +1,111 @@
+/**
+ * Test suite for content metadata
+ * Tests front-matter splitting, field normalization, cover paths, and listing order
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  entryTags,
+  isMetadataSidecar,
+  resolveCoverPath,
+  sortEntries,
+  splitFrontMatter,
+  toEntryMetadata,
+} from './content-metadata';
+import type { ManifestEntry } from './manifest';
+import { manifestEntry } from '@/test/fixtures';
+
+describe('Content metadata', () => {
+  it('should split front matter from the text', () => {
+    const text = '---\ntitle: The Lake\ntags: [summer]\n---\n# The Lake\n\nStill water.\n';
+
+    expect(splitFrontMatter(text)).toEqual({
+      frontMatter: 'title: The Lake\ntags: [summer]',
+      body: '# The Lake\n\nStill water.\n',
+    });
+    expect(splitFrontMatter('\uFEFF---\r\ntitle: x\r\n...\r\nbody')).toEqual({
+      frontMatter: 'title: x',
+      body: 'body',
+    });
+    expect(splitFrontMatter('---\n---\nbody')).toEqual({ frontMatter: '', body: 'body' });
+  });
+
+  it('should leave text without front matter alone', () => {
+    for (const text of ['Still water.', 'intro\n---\ntitle: x\n---\n', '---\nunclosed']) {
+      expect(splitFrontMatter(text)).toEqual({ frontMatter: null, body: text });
+    }
+  });
+
+  it('should normalize the known fields', () => {
+    const meta = toEntryMetadata(
+      {
+        title: ' The Lake ',
+        date: '2025-07-14T06:30:00Z',
+        tags: 'summer, water,summer',
+        description: 'Written at dawn',
+        cover: '../photos/lake.jpg',
+        mood: 'calm',
+      },
+      'summer/lake.md'
+    );
+
+    expect(meta).toEqual({
+      title: 'The Lake',
+      date: '2025-07-14',
+      tags: ['summer', 'water'],
+      description: 'Written at dawn',
+      cover: 'photos/lake.jpg',
+    });
+    expect(
+      toEntryMetadata({ date: new Date('2024-02-29T00:00:00Z'), tags: [1999] }, 'a.md')
+    ).toEqual({ date: '2024-02-29', tags: ['1999'] });
+    expect(toEntryMetadata(null, 'a.md')).toEqual({});
+  });
+
+  it('should reject malformed fields', () => {
+    expect(() => toEntryMetadata(['title'], 'a.md')).toThrow('YAML mapping');
+    expect(() => toEntryMetadata({ date: '2025-02-30' }, 'a.md')).toThrow('YYYY-MM-DD');
+    expect(() => toEntryMetadata({ date: 'last summer' }, 'a.md')).toThrow('YYYY-MM-DD');
+    expect(() => toEntryMetadata({ title: { en: 'Lake' } }, 'a.md')).toThrow(
+      '"title" must be text'
+    );
+    expect(() => toEntryMetadata({ tags: { a: 1 } }, 'a.md')).toThrow('"tags" must be a list');
+  });
+
+  it('should resolve covers within the category', () => {
+    expect(resolveCoverPath('summer/lake.md', 'lake.jpg')).toBe('summer/lake.jpg');
+    expect(resolveCoverPath('summer/lake.md', './covers/../lake.jpg')).toBe('summer/lake.jpg');
+    expect(resolveCoverPath('summer/lake.md', '/covers/lake.jpg')).toBe('covers/lake.jpg');
+    expect(() => resolveCoverPath('lake.md', '../pictures/lake.jpg')).toThrow('outside');
+    expect(() => resolveCoverPath('summer/lake.md', '/')).toThrow('does not name a file');
+  });
+
+  it('should recognize sidecars', () => {
+    expect(isMetadataSidecar('albums/song.mp3.meta.yml')).toBe(true);
+    expect(isMetadataSidecar('albums/song.mp3')).toBe(false);
+  });
+
+  it('should sort by name, title or date', () => {
+    const entries = [
+      manifestEntry('b.md', { meta: { title: 'Autumn', date: '2024-10-01' } }),
+      manifestEntry('c.md'),
+      manifestEntry('a.md', { meta: { title: 'Winter', date: '2025-01-15' } }),
+    ];
+    const order = (sorted: ManifestEntry[]) => sorted.map(e => e.relativePath);
+
+    expect(order(sortEntries(entries, 'name'))).toEqual(['a.md', 'b.md', 'c.md']);
+    expect(order(sortEntries(entries, 'title'))).toEqual(['b.md', 'c.md', 'a.md']);
+    expect(order(sortEntries(entries, 'date'))).toEqual(['a.md', 'b.md', 'c.md']);
+    expect(order(entries)).toEqual(['b.md', 'c.md', 'a.md']);
+  });
+
+  it('should list the tags of a listing once each', () => {
+    const entries = [
+      manifestEntry('a.md', { meta: { tags: ['water', 'summer'] } }),
+      manifestEntry('b.md', { meta: { tags: ['autumn', 'water'] } }),
+      manifestEntry('c.md'),
+    ];
+
+    expect(entryTags(entries)).toEqual(['autumn', 'summer', 'water']);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Titles, dates, tags, descriptions and covers for content files
+ * Text files carry them in a YAML front-matter block at the top; other files in a
+ * sidecar next to them (`song.mp3.meta.yml`). The encryption CLI parses the YAML and
+ * keeps the fields on the manifest entry, so the browser can title, sort and filter a
+ * listing without decrypting any file. The front matter stays in the encrypted text
+ * and is cut off before it is shown or indexed.
+ */
+
+import { isObject } from './json-guards';
+import type { EntryMetadata, ManifestEntry } from './manifest';
+
+/** Suffix of the file holding another file's metadata; such files are not content */
+export const METADATA_SIDECAR_SUFFIX = '.meta.yml';
+
+/** How a listing is ordered: by path, by title, or newest first */
+export type EntryOrder = 'name' | 'title' | 'date';
+
+export const ENTRY_ORDERS: EntryOrder[] = ['name', 'title', 'date'];
+
+// A block opened by --- on the first line and closed by --- or ... on a line of its own
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Whether a path is a metadata sidecar
+ */
+export function isMetadataSidecar(path: string): boolean {
+  return path.endsWith(METADATA_SIDECAR_SUFFIX);
+}
+
+/**
+ * Separates a text file's front matter from the text a reader sees
+ * @returns The YAML between the markers (null when the file has none) and the rest
+ */
+export function splitFrontMatter(text: string): { frontMatter: string | null; body: string } {
+  const match = FRONT_MATTER.exec(text);
+  return match
+    ? { frontMatter: match[1] ?? '', body: text.slice(match[0].length) }
+    : { frontMatter: null, body: text };
+}
+
+/**
+ * Takes the known fields from parsed front matter or sidecar YAML
+ * Dates are cut to YYYY-MM-DD, tags may be a list or comma-separated, and a cover
+ * is resolved against the file's folder (or the category, when it starts with /).
+ * Other fields are ignored.
+ * @param relativePath - Path of the described file within its category
+ * @throws If the YAML is not a mapping or a known field has the wrong type
+ */
+export function toEntryMetadata(value: unknown, relativePath: string): EntryMetadata {
+  if (value === null || value === undefined) {
+    return {};
+  }
+  if (!isObject(value)) {
+    throw new Error('Metadata must be a YAML mapping of fields');
+  }
+
+  const meta: EntryMetadata = {};
+  const title = scalarText(value.title, 'title');
+  if (title) {
+    meta.title = title;
+  }
+  if (value.date !== undefined && value.date !== null) {
+    meta.date = calendarDate(value.date);
+  }
+  const tags = tagList(value.tags);
+  if (tags.length > 0) {
+    meta.tags = tags;
+  }
+  const description = scalarText(value.description, 'description');
+  if (description) {
+    meta.description = description;
+  }
+  const cover = scalarText(value.cover, 'cover');
+  if (cover) {
+    meta.cover = resolveCoverPath(relativePath, cover);
+  }
+  return meta;
+}
+
+/**
+ * Resolves a cover image path written in a file's metadata
+ * @returns The cover's path within the category
+ * @throws If the path leads out of the category
+ */
+export function resolveCoverPath(relativePath: string, cover: string): string {
+  const base = cover.startsWith('/') ? [] : relativePath.split('/').slice(0, -1);
+  const resolved: string[] = [];
+  for (const segment of [...base, ...cover.split('/')]) {
+    if (segment === '..') {
+      if (resolved.pop() === undefined) {
+        throw new Error(`Cover "${cover}" is outside the category`);
+      }
+    } else if (segment !== '' && segment !== '.') {
+      resolved.push(segment);
+    }
+  }
+  if (resolved.length === 0) {
+    throw new Error(`Cover "${cover}" does not name a file`);
+  }
+  return resolved.join('/');
+}
+
+function scalarText(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new Error(`Metadata field "${field}" must be text`);
+  }
+  return String(value).trim() || undefined;
+}
+
+function calendarDate(value: unknown): string {
+  // YAML parsers that read timestamps hand over a Date
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    return value.toISOString().slice(0, 10);
+  }
+  const match =
+    typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})(?:[T ]|$)/.exec(value) : null;
+  if (match) {
+    const [, year, month, day] = match.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() === month - 1 && date.getUTCDate() === day) {
+      return match.slice(1).join('-');
+    }
+  }
+  throw new Error('Metadata field "date" must be a date written as YYYY-MM-DD');
+}
+
+function tagList(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const tags =
+    typeof value === 'string'
+      ? value.split(',')
+      : Array.isArray(value)
+        ? value.map(tag => scalarText(tag, 'tags') ?? '')
+        : null;
+  if (!tags) {
+    throw new Error('Metadata field "tags" must be a list or comma-separated text');
+  }
+  return [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+}
+
+/**
+ * Title shown for a file: its metadata title, or its path
+ */
+export function entryTitle(entry: ManifestEntry): string {
+  return entry.meta?.title ?? entry.relativePath;
+}
+
+/**
+ * Whether a file is tagged with a tag
+ */
+export function hasTag(entry: ManifestEntry, tag: string): boolean {
+  return entry.meta?.tags?.includes(tag) ?? false;
+}
+
+/**
+ * Every tag used in a listing, alphabetically
+ */
+export function entryTags(entries: ManifestEntry[]): string[] {
+  const tags = new Set(entries.flatMap(entry => entry.meta?.tags ?? []));
+  return [...tags].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * A sorted copy of a listing
+ * Ordering by date puts the newest first and undated files last; ties fall back to
+ * the path, so the order never depends on the manifest's.
+ */
+export function sortEntries(entries: ManifestEntry[], order: EntryOrder): ManifestEntry[] {
+  const byPath = (a: ManifestEntry, b: ManifestEntry) =>
+    a.relativePath.localeCompare(b.relativePath);
+  const compare =
+    order === 'title'
+      ? (a: ManifestEntry, b: ManifestEntry) =>
+          entryTitle(a).localeCompare(entryTitle(b)) || byPath(a, b)
+      : order === 'date'
+        ? (a: ManifestEntry, b: ManifestEntry) =>
+            (b.meta?.date ?? '').localeCompare(a.meta?.date ?? '') || byPath(a, b)
+        : byPath;
+
+  return [...entries].sort(compare);
+}
@@ -35,7 +35,7 @@ Are safe and true.
 
       // Verify encryption metadata
       expect(encrypted.ciphertext).toBeDefined();
-      expect(encrypted.nonce.length).toBe(24);
+      expect(encrypted.nonce.length).toBe(12);
       expect(encrypted.salt.length).toBe(16);
 
       // Store as JSON for .enc file
@@ -256,7 +256,8 @@ Are safe and true.
           expect(decrypted.length).toBeGreaterThan(0);
         }
       }
-    });
+      // Each file runs the memory-hard default KDF twice
+    }, 30_000);
   });
 
   describe('Scenario 9: Error recovery', () => {
@@ -0,0 +1,189 @@
+/**
+ * Test suite for the crypto worker pool
+ * Tests dispatch, errors, worker crashes and the main-thread fallback
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createCryptoPool,
+  handleCryptoRequest,
+  type CryptoRequest,
+  type CryptoResponse,
+} from './crypto-pool';
+import { deriveKeyMaterial, type Pbkdf2KdfParams } from './kdf';
+
+const FAST_KDF: Pbkdf2KdfParams = { name: 'PBKDF2', hash: 'SHA-256', iterations: 1000 };
+const salt = new Uint8Array(16).fill(7);
+
+/**
+ * Stands in for a module worker, answering through the same handler
+ */
+class FakeWorker {
+  onmessage: ((event: { data: CryptoResponse }) => void) | null = null;
+  onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null;
+  requests: CryptoRequest[] = [];
+  terminated = false;
+
+  postMessage(request: CryptoRequest) {
+    this.requests.push(request);
+    void handleCryptoRequest(request).then(({ response }) => {
+      if (!this.terminated) {
+        this.onmessage?.({ data: response });
+      }
+    });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  crash(message: string) {
+    this.onerror?.({ message, preventDefault: () => undefined });
+  }
+}
+
+function fakeWorkers() {
+  const started: FakeWorker[] = [];
+  const createWorker = vi.fn(() => {
+    const worker = new FakeWorker();
+    started.push(worker);
+    return worker as unknown as Worker;
+  });
+  return { started, createWorker };
+}
+
+describe('Crypto pool', () => {
+  it('should run operations in a worker', async () => {
+    const { started, createWorker } = fakeWorkers();
+    const pool = createCryptoPool({ size: 2, createWorker });
+
+    const derived = await pool.run('deriveKeyMaterial', 'password', salt, FAST_KDF, 32);
+
+    expect(derived).toEqual(await deriveKeyMaterial('password', salt, FAST_KDF, 32));
+    expect(started).toHaveLength(1);
+    expect(started[0].requests[0].operation).toBe('deriveKeyMaterial');
+  });
+
+  it('should pass on the error message of a failed operation', async () => {
+    const { createWorker } = fakeWorkers();
+    const pool = createCryptoPool({ size: 1, createWorker });
+
+    await expect(pool.run('decryptFromJSON', '{}', 'password')).rejects.toThrow(
+      'Invalid encrypted file'
+    );
+  });
+
+  it('should reuse an idle worker', async () => {
+    const { started, createWorker } = fakeWorkers();
+    const pool = createCryptoPool({ size: 2, createWorker });
+
+    await pool.run('deriveKeyMaterial', 'one', salt, FAST_KDF, 32);
+    await pool.run('deriveKeyMaterial', 'two', salt, FAST_KDF, 32);
+
+    expect(started).toHaveLength(1);
+  });
+
+  it('should spread concurrent requests over at most `size` workers', async () => {
+    const { started, createWorker } = fakeWorkers();
+    const pool = createCryptoPool({ size: 2, createWorker });
+
+    const results = await Promise.all(
+      ['one', 'two', 'three'].map(password =>
+        pool.run('deriveKeyMaterial', password, salt, FAST_KDF, 32)
+      )
+    );
+
+    expect(started).toHaveLength(2);
+    expect(started.map(worker => worker.requests.length)).toEqual([2, 1]);
+    expect(new Set(results.map(bytes => bytes.join()))).toHaveProperty('size', 3);
+  });
+
+  it('should reject the requests of a crashed worker and start a new one', async () => {
+    const { started, createWorker } = fakeWorkers();
+    const pool = createCryptoPool({ size: 1, createWorker });
+    await pool.run('deriveKeyMaterial', 'warm up', salt, FAST_KDF, 32);
+
+    const pending = pool.run('deriveKeyMaterial', 'password', salt, FAST_KDF, 32);
+    started[0].terminated = true;
+    started[0].crash('Out of memory');
+
+    await expect(pending).rejects.toThrow('Out of memory');
+    await pool.run('deriveKeyMaterial', 'password', salt, FAST_KDF, 32);
+    expect(started).toHaveLength(2);
+  });
+
+  it('should run here instead when a worker fails to load', async () => {
+    const { started, createWorker } = fakeWorkers();
+    const pool = createCryptoPool({ size: 2, createWorker });
+
+    const pending = pool.run('deriveKeyMaterial', 'password', salt, FAST_KDF, 32);
+    started[0].terminated = true;
+    started[0].crash('Refused to create a worker');
+
+    expect(await pending).toEqual(await deriveKeyMaterial('password', salt, FAST_KDF, 32));
+    await pool.run('deriveKeyMaterial', 'again', salt, FAST_KDF, 32);
+    expect(createWorker).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject running requests when terminated', async () => {
+    const { started, createWorker } = fakeWorkers();
+    const pool = createCryptoPool({ size: 1, createWorker });
+
+    const pending = pool.run('deriveKeyMaterial', 'password', salt, FAST_KDF, 32);
+    pool.terminate();
+
+    await expect(pending).rejects.toThrow('Crypto pool was terminated');
+    expect(started[0].terminated).toBe(true);
+  });
+
+  it('should run on the calling thread where workers are unavailable', async () => {
+    const createWorker = vi.fn(() => null);
+    const pool = createCryptoPool({ size: 2, createWorker });
+
+    const first = await pool.run('deriveKeyMaterial', 'password', salt, FAST_KDF, 32);
+    await pool.run('deriveKeyMaterial', 'password', salt, FAST_KDF, 32);
+
+    expect(first).toEqual(await deriveKeyMaterial('password', salt, FAST_KDF, 32));
+    expect(createWorker).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back when starting a worker throws', async () => {
+    const pool = createCryptoPool({
+      createWorker: () => {
+        throw new Error('Blocked by CSP');
+      },
+    });
+
+    const derived = await pool.run('deriveKeyMaterial', 'password', salt, FAST_KDF, 32);
+
+    expect(derived).toHaveLength(32);
+  });
+
+  it('should reject invalid sizes', () => {
+    expect(() => createCryptoPool({ size: 0 })).toThrow('Invalid crypto pool size: 0');
+    expect(() => createCryptoPool({ size: 1.5 })).toThrow('Invalid crypto pool size: 1.5');
+  });
+});
+
+describe('handleCryptoRequest', () => {
+  it('should transfer plaintext buffers instead of copying them', async () => {
+    const { response, transfer } = await handleCryptoRequest({
+      id: 3,
+      operation: 'deriveKeyMaterial',
+      args: ['password', salt, FAST_KDF, 32],
+    });
+
+    expect(response).toMatchObject({ id: 3, ok: true });
+    expect(transfer).toEqual([(response as { result: Uint8Array }).result.buffer]);
+  });
+
+  it('should report unknown operations', async () => {
+    const { response } = await handleCryptoRequest({
+      id: 4,
+      operation: 'eval',
+      args: [],
+    } as unknown as CryptoRequest);
+
+    expect(response).toEqual({ id: 4, ok: false, error: 'Unknown crypto operation "eval"' });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Worker pool for the expensive crypto
+ * Password key derivation (Argon2id runs as WASM on whichever thread calls it) and
+ * whole-envelope decryption are posted to a few module workers, so unlocking and
+ * opening large files don't freeze the page. Plaintext comes back as a transferred
+ * ArrayBuffer rather than a copy, and CryptoKeys cross over by structured clone (they
+ * stay non-extractable). Where workers are unavailable (Node, jsdom) the same
+ * operations run on the calling thread.
+ */
+
+import { decryptFromJSON, decryptWithMasterKey } from './crypto-utils';
+import { deriveKeyMaterial } from './kdf';
+import { unlockKeyring } from './keyring';
+
+/**
+ * Operations a worker can run, by name
+ */
+export const CRYPTO_OPERATIONS = {
+  deriveKeyMaterial,
+  decryptWithMasterKey,
+  decryptFromJSON,
+  unlockKeyring,
+};
+
+type Operations = typeof CRYPTO_OPERATIONS;
+
+export type CryptoOperation = keyof Operations;
+
+type OperationResult<K extends CryptoOperation> = Awaited<ReturnType<Operations[K]>>;
+
+export interface CryptoRequest<K extends CryptoOperation = CryptoOperation> {
+  id: number;
+  operation: K;
+  args: Parameters<Operations[K]>;
+}
+
+export type CryptoResponse =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; error: string };
+
+/** Upper bound on workers; each Argon2id derivation holds its own memory */
+export const MAX_POOL_SIZE = 2;
+
+export interface CryptoPool {
+  /**
+   * Runs an operation on the least busy worker, starting one if the pool has room
+   * @throws Whatever the operation throws, with the same message
+   */
+  run<K extends CryptoOperation>(
+    operation: K,
+    ...args: Parameters<Operations[K]>
+  ): Promise<OperationResult<K>>;
+  /** Stops every worker; requests still running reject */
+  terminate(): void;
+}
+
+export interface CryptoPoolOptions {
+  /** Most workers to run at once (defaults to {@link MAX_POOL_SIZE}, fewer on small devices) */
+  size?: number;
+  /** Starts a worker, or returns null where workers are unavailable */
+  createWorker?: () => Worker | null;
+}
+
+function runOnThisThread<K extends CryptoOperation>(
+  operation: K,
+  args: Parameters<Operations[K]>
+): Promise<OperationResult<K>> {
+  const run = CRYPTO_OPERATIONS[operation] as
+    | ((...args: unknown[]) => Promise<OperationResult<K>>)
+    | undefined;
+  if (typeof run !== 'function') {
+    return Promise.reject(new Error(`Unknown crypto operation "${String(operation)}"`));
+  }
+  return run(...args);
+}
+
+/**
+ * Runs a request and builds the reply; the body of the worker
+ * @returns The response and the buffers to transfer with it
+ */
+export async function handleCryptoRequest(
+  request: CryptoRequest
+): Promise<{ response: CryptoResponse; transfer: ArrayBuffer[] }> {
+  try {
+    const result: unknown = await runOnThisThread(request.operation, request.args);
+    return {
+      response: { id: request.id, ok: true, result },
+      transfer: result instanceof Uint8Array ? [result.buffer as ArrayBuffer] : [],
+    };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : 'Unknown crypto error';
+    return { response: { id: request.id, ok: false, error }, transfer: [] };
+  }
+}
+
+function createCryptoWorker(): Worker | null {
+  if (typeof Worker === 'undefined') {
+    return null;
+  }
+  return new Worker(new URL('./crypto.worker.ts', import.meta.url), { type: 'module' });
+}
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator === 'undefined' ? 1 : (navigator.hardwareConcurrency ?? 1);
+  // Leave a core for the page itself
+  return Math.min(Math.max(cores - 1, 1), MAX_POOL_SIZE);
+}
+
+interface PendingJob {
+  request: CryptoRequest;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  pending: Map<number, PendingJob>;
+  /** Whether it has answered a request, i.e. its script loaded */
+  replied: boolean;
+}
+
+/**
+ * Creates a pool that starts workers on demand
+ * Falls back to running on the calling thread if no worker can be started, or the
+ * first one fails to load.
+ * @throws If `size` is not a positive integer
+ */
+export function createCryptoPool({
+  size = defaultPoolSize(),
+  createWorker = createCryptoWorker,
+}: CryptoPoolOptions = {}): CryptoPool {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error(`Invalid crypto pool size: ${size}`);
+  }
+
+  const workers: PoolWorker[] = [];
+  let nextId = 1;
+  let unavailable = false;
+
+  // A crashed worker takes its requests with it; the next request starts a fresh one
+  const fail = (entry: PoolWorker, error: Error) => {
+    entry.worker.terminate();
+    workers.splice(workers.indexOf(entry), 1);
+    entry.pending.forEach(job => job.reject(error));
+    entry.pending.clear();
+  };
+
+  // A worker that errors before ever replying could not load its script (a CSP without
+  // worker-src, a missing chunk); any other would fail the same way, so stop starting
+  // them and run its requests here instead
+  const failToLoad = (entry: PoolWorker) => {
+    unavailable = true;
+    entry.worker.terminate();
+    workers.splice(workers.indexOf(entry), 1);
+    entry.pending.forEach(({ request, resolve }) =>
+      resolve(runOnThisThread(request.operation, request.args))
+    );
+    entry.pending.clear();
+  };
+
+  const spawn = (): PoolWorker | null => {
+    let worker: Worker | null;
+    try {
+      worker = createWorker();
+    } catch {
+      // e.g. blocked by a Content-Security-Policy
+      worker = null;
+    }
+    if (!worker) {
+      return null;
+    }
+
+    const entry: PoolWorker = { worker, pending: new Map(), replied: false };
+    worker.onmessage = (event: MessageEvent<CryptoResponse>) => {
+      const reply = event.data;
+      entry.replied = true;
+      const job = entry.pending.get(reply.id);
+      if (!job) {
+        return;
+      }
+      entry.pending.delete(reply.id);
+      if (reply.ok) {
+        job.resolve(reply.result);
+      } else {
+        job.reject(new Error(reply.error));
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      if (!entry.replied) {
+        failToLoad(entry);
+        return;
+      }
+      fail(entry, new Error(event.message || 'Crypto worker stopped unexpectedly'));
+    };
+    workers.push(entry);
+    return entry;
+  };
+
+  const pick = (): PoolWorker | null => {
+    const idle = workers.find(entry => entry.pending.size === 0);
+    if (idle) {
+      return idle;
+    }
+    if (workers.length < size) {
+      const spawned = spawn();
+      if (spawned) {
+        return spawned;
+      }
+      unavailable = workers.length === 0;
+    }
+    return workers.reduce<PoolWorker | null>(
+      (least, entry) => (!least || entry.pending.size < least.pending.size ? entry : least),
+      null
+    );
+  };
+
+  return {
+    run(operation, ...args) {
+      const entry = unavailable ? null : pick();
+      if (!entry) {
+        return runOnThisThread(operation, args);
+      }
+
+      const id = nextId++;
+      return new Promise((resolve, reject) => {
+        const request: CryptoRequest = { id, operation, args };
+        entry.pending.set(id, { request, resolve: resolve as (result: unknown) => void, reject });
+        entry.worker.postMessage(request);
+      });
+    },
+
+    terminate() {
+      [...workers].forEach(entry => fail(entry, new Error('Crypto pool was terminated')));
+    },
+  };
+}
+
+let sharedPool: CryptoPool | null = null;
+
+/**
+ * The pool shared by the whole page, started on first use
+ */
+export function sharedCryptoPool(): CryptoPool {
+  sharedPool ??= createCryptoPool();
+  return sharedPool;
+}
+
+type PooledOperations = {
+  [K in CryptoOperation]: (...args: Parameters<Operations[K]>) => Promise<OperationResult<K>>;
+};
+
+/**
+ * Drop-in versions of the crypto functions that run on the shared pool
+ */
+export const pooledCrypto: PooledOperations = {
+  deriveKeyMaterial: (...args) => sharedCryptoPool().run('deriveKeyMaterial', ...args),
+  decryptWithMasterKey: (...args) => sharedCryptoPool().run('decryptWithMasterKey', ...args),
+  decryptFromJSON: (...args) => sharedCryptoPool().run('decryptFromJSON', ...args),
+  unlockKeyring: (...args) => sharedCryptoPool().run('unlockKeyring', ...args),
+};
@@ -157,8 +157,8 @@ describe('Crypto Utils', () => {
 
     it('should have proper nonce length', async () => {
       const encrypted = await encrypt(testMessage, testPassword);
-      // Nonce should be 24 bytes (or 12 for AES-GCM)
-      expect(encrypted.nonce.length).toBe(24);
+      // Nonce is the 12-byte AES-GCM IV
+      expect(encrypted.nonce.length).toBe(12);
     });
 
     it('should not leak password in encrypted data', async () => {
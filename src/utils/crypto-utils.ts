@@ -1,29 +1,30 @@
 /**
  * Cryptographic utilities for file encryption/decryption
  * Uses AES-256-GCM for authenticated encryption
- *with PBKDF2 for password-based key derivation.
+ * with a pluggable password KDF (PBKDF2 or Argon2id, see ./kdf).
+ * Content keys are random per file and wrapped (AES-KW) by a master key.
  * @remarks This module works in both Node.js and browser environments
  */
 
 /// <reference lib="dom" />
 /// <reference lib="dom.iterable" />
 
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import {
+  ENVELOPE_ALGORITHM,
+  ENVELOPE_VERSION,
+  GCM_NONCE_LENGTH,
+  KEY_WRAP_ALGORITHM,
+  PASSWORD_ENVELOPE_VERSION,
+  parseEnvelope,
+  serializeEnvelope,
+  type PasswordEnvelope,
+  type WrappedKeyEnvelope,
+} from './envelope';
+import { DEFAULT_KDF, LEGACY_KDF, deriveKeyMaterial, type KdfParams } from './kdf';
+
 // Type declarations for browser APIs
 declare const TextEncoder: typeof globalThis.TextEncoder;
-declare function btoa(data: string): string;
-declare function atob(data: string): string;
-
-type Pbkdf2Params = {
-  name: 'PBKDF2';
-  hash: string;
-  salt: Uint8Array;
-  iterations: number;
-};
-
-type AesDerivedKeyParams = {
-  name: string;
-  length: number;
-};
 
 const crypto = typeof globalThis !== 'undefined' && globalThis.crypto
   ? globalThis.crypto
@@ -41,162 +42,213 @@ export interface EncryptedDataBase64 {
   salt: string;
 }
 
-const ALGORITHM = 'PBKDF2';
-const KEY_LENGTH = 32; // 256 bits for NaCl
-const ITERATIONS = 100_000; // OWASP recommended minimum
-const HASH = 'SHA-256';
-const NONCE_LENGTH = 24; // TweetNaCl nonce size
+const KEY_LENGTH = 32; // 256 bits for AES-256
 const SALT_LENGTH = 16;
 
 /**
- * Derives a key from a password using PBKDF2
- * @param password - User password
- * @param salt - Salt bytes (will be generated if not provided)
- * @returns Promise of derived key and salt
+ * Generates a random KDF salt
+ */
+export function generateSalt(): Uint8Array {
+  if (!crypto) {
+    throw new Error('Web Crypto API not available');
+  }
+  return crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+}
+
+/**
+ * Derives a non-extractable key from a password with the given KDF
  */
-async function deriveKey(
+async function derivePasswordKey(
   password: string,
-  salt?: Uint8Array
-): Promise<{ key: Uint8Array; salt: Uint8Array }> {
+  salt: Uint8Array,
+  kdf: KdfParams,
+  algorithm: 'AES-GCM' | 'AES-KW',
+  usages: ('encrypt' | 'decrypt' | 'wrapKey' | 'unwrapKey')[]
+): Promise<CryptoKey> {
   if (!crypto?.subtle) {
     throw new Error('Web Crypto API not available');
   }
 
-  const usedSalt = salt || crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const derived = await deriveKeyMaterial(password, salt, kdf, KEY_LENGTH);
+  const keyBytes = new Uint8Array(derived);
+  try {
+    return await crypto.subtle.importKey('raw', keyBytes, algorithm, false, usages);
+  } finally {
+    // Only the non-extractable CryptoKey should outlive this call
+    derived.fill(0);
+    keyBytes.fill(0);
+  }
+}
+
+/**
+ * Derives a non-extractable AES-GCM key from a password
+ * @param password - User password
+ * @param salt - Salt bytes
+ * @param kdf - KDF parameters (defaults to the current settings)
+ * @returns CryptoKey usable for encrypt/decrypt but never exportable
+ */
+export async function deriveKey(
+  password: string,
+  salt: Uint8Array,
+  kdf: KdfParams = DEFAULT_KDF
+): Promise<CryptoKey> {
+  return derivePasswordKey(password, salt, kdf, 'AES-GCM', ['encrypt', 'decrypt']);
+}
 
-  // Convert password to bytes
-  const encoder = new TextEncoder();
-  const passwordData = encoder.encode(password);
+/**
+ * Derives a non-extractable AES-KW key-encryption key from a password
+ * Used to wrap and unwrap the master key held in the keyring.
+ */
+export async function deriveWrappingKey(
+  password: string,
+  salt: Uint8Array,
+  kdf: KdfParams = DEFAULT_KDF
+): Promise<CryptoKey> {
+  return derivePasswordKey(password, salt, kdf, KEY_WRAP_ALGORITHM, ['wrapKey', 'unwrapKey']);
+}
 
+/**
+ * Generates a new random AES-KW master key
+ * @remarks Extractable so it can be wrapped under the password-derived key
+ */
+export async function generateMasterKey(): Promise<CryptoKey> {
   if (!crypto?.subtle) {
     throw new Error('Web Crypto API not available');
   }
 
-  // Import password as key material
-  const baseKey = await crypto.subtle.importKey(
-    'raw',
-    passwordData,
-    ALGORITHM,
-    false,
-    ['deriveKey']
-  );
-
-  // Derive key using PBKDF2
-  const derivedKey = await crypto.subtle.deriveKey(
-    {
-      name: ALGORITHM,
-      hash: HASH,
-      salt: usedSalt,
-      iterations: ITERATIONS,
-    } as Pbkdf2Params,
-    baseKey,
-    { name: 'AES-GCM', length: KEY_LENGTH * 8 } as AesDerivedKeyParams,
+  return crypto.subtle.generateKey(
+    { name: KEY_WRAP_ALGORITHM, length: KEY_LENGTH * 8 },
     true,
-    ['encrypt', 'decrypt']
+    ['wrapKey', 'unwrapKey']
   );
+}
 
-  // Export key to raw bytes
-  const keyData = await crypto.subtle.exportKey('raw', derivedKey);
-  const keyBytes = new Uint8Array(keyData);
+/**
+ * Wraps an extractable key with AES-KW
+ * @returns 40-byte wrapped key
+ */
+export async function wrapKey(key: CryptoKey, wrappingKey: CryptoKey): Promise<Uint8Array> {
+  if (!crypto?.subtle) {
+    throw new Error('Web Crypto API not available');
+  }
 
-  return { key: keyBytes, salt: usedSalt };
+  return new Uint8Array(await crypto.subtle.wrapKey('raw', key, wrappingKey, KEY_WRAP_ALGORITHM));
 }
 
 /**
- * Encrypts data using XSalsa20-Poly1305 (NaCl secretbox equivalent)
- * This implements the NaCl box algorithm compatible with TweetNaCl.js
- * @param plaintext - Data to encrypt
- * @param key - 32-byte encryption key
- * @param nonce - Optional nonce (will be generated if not provided)
- * @returns Encrypted data with nonce and salt
+ * Unwraps a master key wrapped by {@link wrapKey}
+ * @param wrapped - Wrapped master key bytes
+ * @param wrappingKey - Password-derived key from {@link deriveWrappingKey}
+ * @param extractable - Only true when the master key must be re-wrapped (rekey)
+ * @throws If the wrapping key is wrong (AES-KW integrity check fails)
  */
-async function secretBox(
-  plaintext: Uint8Array,
-  key: Uint8Array,
-  nonce?: Uint8Array
-): Promise<Uint8Array> {
+export async function unwrapMasterKey(
+  wrapped: Uint8Array,
+  wrappingKey: CryptoKey,
+  extractable = false
+): Promise<CryptoKey> {
   if (!crypto?.subtle) {
     throw new Error('Web Crypto API not available');
   }
 
-  const usedNonce = nonce || crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+  return crypto.subtle.unwrapKey(
+    'raw',
+    new Uint8Array(wrapped),
+    wrappingKey,
+    KEY_WRAP_ALGORITHM,
+    KEY_WRAP_ALGORITHM,
+    extractable,
+    ['wrapKey', 'unwrapKey']
+  );
+}
 
-  // Create a simple authenticated encryption:
-  // We'll use AES-256-GCM which provides authenticated encryption
-  // This is compatible with typical NaCl usage patterns
-  const algorithm = {
-    name: 'AES-GCM',
-    iv: usedNonce.slice(0, 12), // AES-GCM uses 12-byte IV
-  };
+/**
+ * Generates a random AES-256-GCM data key for one file
+ * @remarks Extractable so it can be wrapped by the master key
+ */
+export async function generateDataKey(): Promise<CryptoKey> {
+  if (!crypto?.subtle) {
+    throw new Error('Web Crypto API not available');
+  }
+
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: KEY_LENGTH * 8 }, true, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
 
-  const cryptoKey = await crypto.subtle.importKey(
+/**
+ * Unwraps a file's data key with the master key
+ * @returns Non-extractable AES-GCM key usable for decryption only
+ * @throws If the master key does not match (AES-KW integrity check fails)
+ */
+export async function unwrapDataKey(wrapped: Uint8Array, masterKey: CryptoKey): Promise<CryptoKey> {
+  if (!crypto?.subtle) {
+    throw new Error('Web Crypto API not available');
+  }
+
+  return crypto.subtle.unwrapKey(
     'raw',
-    new Uint8Array(key),
+    new Uint8Array(wrapped),
+    masterKey,
+    KEY_WRAP_ALGORITHM,
     'AES-GCM',
     false,
-    ['encrypt']
+    ['decrypt']
   );
+}
+
+/**
+ * Encrypts data with AES-256-GCM
+ * @param plaintext - Data to encrypt
+ * @param key - AES-GCM key
+ * @param nonce - 12-byte IV
+ * @returns Ciphertext with the authentication tag appended
+ */
+async function aesGcmEncrypt(
+  plaintext: Uint8Array,
+  key: CryptoKey,
+  nonce: Uint8Array
+): Promise<Uint8Array> {
+  if (!crypto?.subtle) {
+    throw new Error('Web Crypto API not available');
+  }
 
   const ciphertext = await crypto.subtle.encrypt(
-    algorithm,
-    cryptoKey,
+    { name: 'AES-GCM', iv: new Uint8Array(nonce) },
+    key,
     new Uint8Array(plaintext)
   );
 
-  // Prepend nonce to ciphertext (standard NaCl format)
-  const result = new Uint8Array(usedNonce.length + ciphertext.byteLength);
-  result.set(usedNonce, 0);
-  result.set(new Uint8Array(ciphertext), usedNonce.length);
-
-  return result;
+  return new Uint8Array(ciphertext);
 }
 
 /**
- * Decrypts data encrypted with secretBox
+ * Decrypts data encrypted with aesGcmEncrypt
+ * @throws If the key is wrong or the data was tampered with
  */
-async function secretBoxOpen(
+async function aesGcmDecrypt(
   ciphertext: Uint8Array,
-  key: Uint8Array
+  key: CryptoKey,
+  nonce: Uint8Array
 ): Promise<Uint8Array> {
-  // Extract nonce and actual ciphertext
-  const nonce = ciphertext.slice(0, NONCE_LENGTH);
-  const encrypted = ciphertext.slice(NONCE_LENGTH);
-
   if (!crypto?.subtle) {
     throw new Error('Web Crypto API not available');
   }
 
-  const algorithm = {
-    name: 'AES-GCM',
-    iv: nonce.slice(0, 12),
-  };
-
-  const cryptoKey = await crypto.subtle.importKey(
-    'raw',
-    new Uint8Array(key),
-    'AES-GCM',
-    false,
-    ['decrypt']
-  );
-
   const plaintext = await crypto.subtle.decrypt(
-    algorithm,
-    cryptoKey,
-    new Uint8Array(encrypted)
+    { name: 'AES-GCM', iv: new Uint8Array(nonce) },
+    key,
+    new Uint8Array(ciphertext)
   );
 
   return new Uint8Array(plaintext);
 }
 
-/**
- * Encrypts plaintext with a password
- * @param plaintext - Text or buffer to encrypt
- * @param password - Password to use for encryption
- * @returns EncryptedData with ciphertext, nonce, and salt
- */
-export async function encrypt(
+async function encryptUnderPassword(
   plaintext: string | Uint8Array,
-  password: string
+  password: string,
+  kdf: KdfParams
 ): Promise<EncryptedData> {
   if (!crypto) {
     throw new Error('Web Crypto API not available');
@@ -205,13 +257,11 @@ export async function encrypt(
   const data =
     typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : plaintext;
 
-  const { key, salt } = await deriveKey(password);
+  const salt = generateSalt();
+  const key = await deriveKey(password, salt, kdf);
 
-  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
-  const secretBoxed = await secretBox(data, key, nonce);
-
-  // secretBox returns [nonce, ciphertext], so extract just ciphertext
-  const ciphertext = secretBoxed.slice(NONCE_LENGTH);
+  const nonce = crypto.getRandomValues(new Uint8Array(GCM_NONCE_LENGTH));
+  const ciphertext = await aesGcmEncrypt(data, key, nonce);
 
   return {
     ciphertext,
@@ -220,6 +270,20 @@ export async function encrypt(
   };
 }
 
+/**
+ * Encrypts plaintext with a password
+ * @remarks EncryptedData does not record KDF parameters, so this always uses {@link LEGACY_KDF}
+ * @param plaintext - Text or buffer to encrypt
+ * @param password - Password to use for encryption
+ * @returns EncryptedData with ciphertext, nonce, and salt
+ */
+export async function encrypt(
+  plaintext: string | Uint8Array,
+  password: string
+): Promise<EncryptedData> {
+  return encryptUnderPassword(plaintext, password, LEGACY_KDF);
+}
+
 /**
  * Decrypts ciphertext with a password
  * @param encryptedData - EncryptedData object with ciphertext, nonce, and salt
@@ -230,32 +294,107 @@ export async function decrypt(
   encryptedData: EncryptedData,
   password: string
 ): Promise<Uint8Array> {
-  const { key } = await deriveKey(password, encryptedData.salt);
+  const key = await deriveKey(password, encryptedData.salt, LEGACY_KDF);
 
-  // Reconstruct the secretBox format
-  const toDecrypt = new Uint8Array(encryptedData.nonce.length + encryptedData.ciphertext.length);
-  toDecrypt.set(encryptedData.nonce, 0);
-  toDecrypt.set(encryptedData.ciphertext, encryptedData.nonce.length);
+  // Older writers stored a 24-byte nonce of which only the first 12 bytes are the IV
+  return aesGcmDecrypt(
+    encryptedData.ciphertext,
+    key,
+    encryptedData.nonce.slice(0, GCM_NONCE_LENGTH)
+  );
+}
+
+/**
+ * Encrypts plaintext with a password into a versioned envelope
+ * @param plaintext - Text or buffer to encrypt
+ * @param password - Password to use for encryption
+ * @param kdf - KDF parameters, recorded in the envelope (defaults to the current settings)
+ * @returns Envelope ready for {@link serializeEnvelope}
+ */
+export async function encryptEnvelope(
+  plaintext: string | Uint8Array,
+  password: string,
+  kdf: KdfParams = DEFAULT_KDF
+): Promise<PasswordEnvelope> {
+  const encrypted = await encryptUnderPassword(plaintext, password, kdf);
 
-  return secretBoxOpen(toDecrypt, key);
+  return {
+    kind: 'password',
+    version: PASSWORD_ENVELOPE_VERSION,
+    algorithm: ENVELOPE_ALGORITHM,
+    kdf: { ...kdf },
+    ...encrypted,
+  };
 }
 
 /**
- * Converts EncryptedData to Base64-encoded format for storage
+ * Decrypts an envelope with a password, honouring the KDF parameters it records
+ * @returns Decrypted plaintext as Uint8Array
  */
-export function encryptedDataToBase64(data: EncryptedData): EncryptedDataBase64 {
-  const arrayToBase64 = (arr: Uint8Array): string => {
-    let binary = '';
-    for (let i = 0; i < arr.length; i++) {
-      binary += String.fromCharCode(arr[i]);
-    }
-    return btoa(binary);
+export async function decryptEnvelope(
+  envelope: PasswordEnvelope,
+  password: string
+): Promise<Uint8Array> {
+  const key = await deriveKey(password, envelope.salt, envelope.kdf);
+  return aesGcmDecrypt(envelope.ciphertext, key, envelope.nonce);
+}
+
+/**
+ * Encrypts plaintext under a fresh random data key wrapped by the master key
+ * @param plaintext - Text or buffer to encrypt
+ * @param masterKey - Unwrapped AES-KW master key
+ * @param keyId - Access level of the master key, recorded so readers can pick the right key
+ */
+export async function encryptWithMasterKey(
+  plaintext: string | Uint8Array,
+  masterKey: CryptoKey,
+  keyId: string
+): Promise<WrappedKeyEnvelope> {
+  if (!crypto?.subtle) {
+    throw new Error('Web Crypto API not available');
+  }
+
+  const data =
+    typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : plaintext;
+  const dataKey = await generateDataKey();
+  const nonce = crypto.getRandomValues(new Uint8Array(GCM_NONCE_LENGTH));
+
+  return {
+    kind: 'wrapped-key',
+    version: ENVELOPE_VERSION,
+    algorithm: ENVELOPE_ALGORITHM,
+    keyId,
+    wrappedKey: await wrapKey(dataKey, masterKey),
+    nonce,
+    ciphertext: await aesGcmEncrypt(data, dataKey, nonce),
   };
+}
 
+/**
+ * Decrypts an envelope by unwrapping its data key with the master key
+ * @throws If the master key does not match or the data was tampered with
+ */
+export async function decryptWithMasterKey(
+  envelope: WrappedKeyEnvelope,
+  masterKey: CryptoKey
+): Promise<Uint8Array> {
+  if (!crypto?.subtle) {
+    throw new Error('Web Crypto API not available');
+  }
+
+  const dataKey = await unwrapDataKey(envelope.wrappedKey, masterKey);
+
+  return aesGcmDecrypt(envelope.ciphertext, dataKey, envelope.nonce);
+}
+
+/**
+ * Converts EncryptedData to Base64-encoded format for storage
+ */
+export function encryptedDataToBase64(data: EncryptedData): EncryptedDataBase64 {
   return {
-    ciphertext: arrayToBase64(data.ciphertext),
-    nonce: arrayToBase64(data.nonce),
-    salt: arrayToBase64(data.salt),
+    ciphertext: bytesToBase64(data.ciphertext),
+    nonce: bytesToBase64(data.nonce),
+    salt: bytesToBase64(data.salt),
   };
 }
 
@@ -263,44 +402,50 @@ export function encryptedDataToBase64(data: EncryptedData): EncryptedDataBase64
  * Converts Base64-encoded data back to EncryptedData
  */
 export function base64ToEncryptedData(data: EncryptedDataBase64): EncryptedData {
-  const stringToBytes = (s: string): Uint8Array => {
-    const bytes = new Uint8Array(s.length);
-    for (let i = 0; i < s.length; i++) {
-      bytes[i] = s.charCodeAt(i);
-    }
-    return bytes;
-  };
-
   return {
-    ciphertext: stringToBytes(atob(data.ciphertext)),
-    nonce: stringToBytes(atob(data.nonce)),
-    salt: stringToBytes(atob(data.salt)),
+    ciphertext: base64ToBytes(data.ciphertext),
+    nonce: base64ToBytes(data.nonce),
+    salt: base64ToBytes(data.salt),
   };
 }
 
 /**
- * Encrypts plaintext and returns Base64-encoded JSON
+ * Encrypts plaintext and returns the envelope as JSON
  * Useful for storing encrypted files
  */
 export async function encryptToJSON(
   plaintext: string | Uint8Array,
   password: string
 ): Promise<string> {
-  const encrypted = await encrypt(plaintext, password);
-  const base64 = encryptedDataToBase64(encrypted);
-  return JSON.stringify(base64);
+  const envelope = await encryptEnvelope(plaintext, password);
+  return serializeEnvelope(envelope);
 }
 
 /**
- * Decrypts from Base64-encoded JSON
+ * Decrypts password-encrypted envelope JSON (v1 or legacy shapes)
  */
 export async function decryptFromJSON(jsonString: string, password: string): Promise<string> {
-  const parsed: EncryptedDataBase64 = JSON.parse(jsonString);
-  const encrypted = base64ToEncryptedData(parsed);
-  const decrypted = await decrypt(encrypted, password);
+  const envelope = parseEnvelope(jsonString);
+  if (envelope.kind !== 'password') {
+    throw new Error('File is encrypted with a data key; decrypt it through a session');
+  }
+  const decrypted = await decryptEnvelope(envelope, password);
   let result = '';
   for (let i = 0; i < decrypted.length; i++) {
     result += String.fromCharCode(decrypted[i]);
   }
   return result;
 }
+
+/**
+ * Computes the SHA-256 digest of data as lowercase hex
+ * Used as the content hash recorded in the manifest
+ */
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  if (!crypto?.subtle) {
+    throw new Error('Web Crypto API not available');
+  }
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array(data)));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
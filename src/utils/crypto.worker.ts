@@ -0,0 +1,11 @@
+/**
+ * Crypto worker entry point
+ * Runs requests from the pool in ./crypto-pool off the main thread.
+ */
+
+import { handleCryptoRequest, type CryptoRequest } from './crypto-pool';
+
+self.onmessage = async (event: MessageEvent<CryptoRequest>) => {
+  const { response, transfer } = await handleCryptoRequest(event.data);
+  self.postMessage(response, { transfer });
+};
@@ -0,0 +1,73 @@
+/**
+ * Byte/string/stream encoding helpers shared by the crypto and envelope modules
+ * @remarks Works in both Node.js and browser environments (relies only on btoa/atob and Web Streams)
+ */
+
+declare function btoa(data: string): string;
+declare function atob(data: string): string;
+
+/**
+ * Encodes bytes as standard Base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes standard Base64 into bytes
+ * @throws If the input is not valid Base64
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Concatenates byte arrays into a single array
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Reads a byte stream to the end into a single array
+ */
+export async function streamToBytes(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return concatBytes(...chunks);
+    }
+    chunks.push(value);
+  }
+}
+
+/**
+ * Wraps bytes in a stream that yields them as a single chunk
+ */
+export function bytesToStream(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Test suite for fetching encrypted files
+ * Tests both file formats, failed requests and password envelopes
+ */
+
+import { describe, it, expect, vi, afterEach, beforeAll } from 'vitest';
+import { decryptResponse, fetchDecryptedStream } from './encrypted-fetch';
+import { encryptEnvelope } from './crypto-utils';
+import { bytesToStream, streamToBytes } from './encoding';
+import { serializeEnvelope } from './envelope';
+import { createSession, type ContentSession } from './session';
+
+describe('Encrypted fetch', () => {
+  const text = 'Still water under the birches. '.repeat(100);
+  let session: ContentSession;
+
+  beforeAll(async () => {
+    ({ session } = await createSession('FetchPassword#1'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function decryptedText(stream: ReadableStream<Uint8Array>): Promise<string> {
+    return new TextDecoder().decode(await streamToBytes(stream));
+  }
+
+  it('should decrypt binary containers as they arrive', async () => {
+    const container = bytesToStream(new TextEncoder().encode(text)).pipeThrough(
+      await session.encryptStream('private', 'deflate')
+    );
+    const fetchMock = vi.fn().mockResolvedValue(new Response(container));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const stream = await fetchDecryptedStream('/objects/lake.enc', session);
+
+    expect(fetchMock).toHaveBeenCalledWith('/objects/lake.enc');
+    expect(await decryptedText(stream)).toBe(text);
+  });
+
+  it('should decrypt legacy JSON envelopes', async () => {
+    const envelope = serializeEnvelope(await session.encrypt(text, 'shared'));
+
+    expect(await decryptedText(await decryptResponse(new Response(envelope), session))).toBe(
+      text
+    );
+  });
+
+  it('should report a failed request', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, statusText: 'Not Found' }));
+
+    await expect(fetchDecryptedStream('/objects/gone.enc', session)).rejects.toThrow(
+      'Failed to load encrypted file: Not Found'
+    );
+  });
+
+  it('should refuse files encrypted directly with a password', async () => {
+    const envelope = serializeEnvelope(await encryptEnvelope(text, 'FetchPassword#1'));
+
+    await expect(decryptResponse(new Response(envelope), session)).rejects.toThrow(
+      'encrypted directly with a password'
+    );
+  });
+});
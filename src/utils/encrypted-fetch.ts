@@ -0,0 +1,89 @@
+/**
+ * Fetches and decrypts content files in either format
+ * Binary containers are read as raw bytes and decrypted segment by segment as the
+ * response arrives; legacy JSON envelopes are read whole and yielded as one chunk.
+ */
+
+import { bytesToStream, concatBytes } from './encoding';
+import { parseEnvelope } from './envelope';
+import type { ContentSession } from './session';
+import { STREAM_MAGIC, isStreamContainer } from './stream-envelope';
+
+/**
+ * Fetches an encrypted file and returns its plaintext as a byte stream
+ * @throws If the request fails, the file is malformed or its access level is locked
+ * (binary containers report corrupt or truncated data through the stream)
+ */
+export async function fetchDecryptedStream(
+  url: string,
+  session: ContentSession
+): Promise<ReadableStream<Uint8Array>> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load encrypted file: ${response.statusText}`);
+  }
+
+  return decryptResponse(response, session);
+}
+
+/**
+ * Returns the plaintext of a response holding an encrypted file as a byte stream
+ * The encryption CLI verifies committed files through this too, from a file on disk.
+ * @throws If the file is malformed or its access level is locked (binary containers
+ * report corrupt or truncated data through the stream)
+ */
+export async function decryptResponse(
+  response: Response,
+  session: ContentSession
+): Promise<ReadableStream<Uint8Array>> {
+  if (!response.body) {
+    return bytesToStream(await session.decrypt(parseEnvelope(await response.text())));
+  }
+
+  // Read just enough to tell the formats apart
+  const reader = response.body.getReader();
+  const head: Uint8Array[] = [];
+  let headLength = 0;
+  let done = false;
+  while (!done && headLength < STREAM_MAGIC.length) {
+    const result = await reader.read();
+    if (result.value) {
+      head.push(result.value);
+      headLength += result.value.length;
+    }
+    done = result.done;
+  }
+  const start = concatBytes(...head);
+
+  if (!isStreamContainer(start)) {
+    const rest = [start];
+    while (!done) {
+      const result = await reader.read();
+      if (result.value) {
+        rest.push(result.value);
+      }
+      done = result.done;
+    }
+    const text = new TextDecoder().decode(concatBytes(...rest));
+    return bytesToStream(await session.decrypt(parseEnvelope(text)));
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(start);
+    },
+    async pull(controller) {
+      const result = await reader.read();
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return body.pipeThrough(session.decryptStream());
+}
@@ -0,0 +1,163 @@
+/**
+ * Test suite for the .enc envelope format
+ * Tests the current format and both legacy writer shapes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseEnvelope,
+  serializeEnvelope,
+  envelopeToJSON,
+  LEGACY_KEY_ID,
+  PasswordEnvelope,
+} from './envelope';
+import { encryptEnvelope, decryptEnvelope, decryptFromJSON } from './crypto-utils';
+import { createSession } from './session';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { DEFAULT_KDF, LEGACY_KDF } from './kdf';
+
+describe('Envelope', () => {
+  const testPassword = 'EnvelopePassword!42';
+  const testMessage = 'Roses are red';
+
+  describe('wrapped-key format (v2)', () => {
+    it('should record version, algorithm, wrapped key and nonce length', async () => {
+      const { session } = await createSession(testPassword);
+      const json = envelopeToJSON(await session.encrypt(testMessage, 'private'));
+
+      expect(json.v).toBe(2);
+      expect(json.alg).toBe('AES-256-GCM');
+      expect(json.key.wrap).toBe('AES-KW');
+      expect(json.key.kid).toBe('private');
+      expect(json.nonceLength).toBe(12);
+      expect(json).not.toHaveProperty('salt');
+    });
+
+    it('should round-trip through serialize and parse', async () => {
+      const { session } = await createSession(testPassword);
+      const envelope = await session.encrypt(testMessage, 'private');
+
+      expect(parseEnvelope(serializeEnvelope(envelope))).toEqual(envelope);
+    });
+
+    it('should assign files without a key id to the legacy master key', async () => {
+      const { session } = await createSession(testPassword);
+      const json = envelopeToJSON(await session.encrypt(testMessage, 'private'));
+      const { kid: _kid, ...key } = json.key;
+
+      const parsed = parseEnvelope({ ...json, key });
+      expect(parsed.kind === 'wrapped-key' && parsed.keyId).toBe(LEGACY_KEY_ID);
+    });
+
+    it('should reject a malformed wrapped key', async () => {
+      const { session } = await createSession(testPassword);
+      const json = envelopeToJSON(await session.encrypt(testMessage, 'private'));
+
+      expect(() => parseEnvelope({ ...json, key: { wrap: 'AES-KW', wrapped: 'AAAA' } })).toThrow(
+        'wrapped data key'
+      );
+      expect(() => parseEnvelope({ ...json, key: { wrap: 'RSA-OAEP', wrapped: '' } })).toThrow(
+        'key wrapping'
+      );
+    });
+  });
+
+  describe('password format (v1)', () => {
+    it('should record version, algorithm, KDF and nonce length', async () => {
+      const envelope = await encryptEnvelope(testMessage, testPassword);
+      const json = envelopeToJSON(envelope);
+
+      expect(json.v).toBe(1);
+      expect(json.alg).toBe('AES-256-GCM');
+      expect(json.kdf).toEqual(DEFAULT_KDF);
+      expect(json.nonceLength).toBe(12);
+    });
+
+    it('should round-trip through serialize and parse', async () => {
+      const envelope = await encryptEnvelope(testMessage, testPassword);
+      const parsed = parseEnvelope(serializeEnvelope(envelope)) as PasswordEnvelope;
+
+      expect(parsed).toEqual(envelope);
+
+      const decrypted = await decryptEnvelope(parsed, testPassword);
+      expect(new TextDecoder().decode(decrypted)).toBe(testMessage);
+    });
+
+    it('should use the KDF parameters recorded in the envelope', async () => {
+      const envelope = await encryptEnvelope(testMessage, testPassword);
+      const json = { ...envelopeToJSON(envelope), kdf: { ...LEGACY_KDF, iterations: 1 } };
+
+      // Same key material but different iterations must not decrypt
+      await expect(decryptFromJSON(JSON.stringify(json), testPassword)).rejects.toThrow();
+    });
+
+    it('should reject unknown versions', () => {
+      expect(() => parseEnvelope({ v: 99 })).toThrow('Unsupported envelope version');
+    });
+
+    it('should reject a nonce that does not match nonceLength', async () => {
+      const json = envelopeToJSON(await encryptEnvelope(testMessage, testPassword));
+
+      expect(() => parseEnvelope({ ...json, nonceLength: 24 })).toThrow('nonceLength');
+    });
+
+    it('should reject unsupported algorithms', async () => {
+      const json = envelopeToJSON(await encryptEnvelope(testMessage, testPassword));
+
+      expect(() => parseEnvelope({ ...json, alg: 'XSalsa20-Poly1305' })).toThrow('algorithm');
+    });
+  });
+
+  describe('legacy formats', () => {
+    it('should read the old Node script shape with a separate authTag', async () => {
+      const json = envelopeToJSON(await encryptEnvelope(testMessage, testPassword, LEGACY_KDF));
+      const sealed = base64ToBytes(json.ciphertext);
+
+      const legacy = JSON.stringify({
+        ciphertext: bytesToBase64(sealed.slice(0, -16)),
+        nonce: json.nonce,
+        salt: json.salt,
+        authTag: bytesToBase64(sealed.slice(-16)),
+      });
+
+      const parsed = parseEnvelope(legacy);
+      expect(parsed.version).toBe(0);
+      expect(parsed.ciphertext).toEqual(sealed);
+
+      expect(await decryptFromJSON(legacy, testPassword)).toBe(testMessage);
+    });
+
+    it('should read the old browser shape with a 24-byte nonce', async () => {
+      const json = envelopeToJSON(await encryptEnvelope(testMessage, testPassword, LEGACY_KDF));
+      const paddedNonce = new Uint8Array(24);
+      paddedNonce.set(base64ToBytes(json.nonce));
+      paddedNonce.fill(7, 12);
+
+      const legacy = JSON.stringify({
+        ciphertext: json.ciphertext,
+        nonce: bytesToBase64(paddedNonce),
+        salt: json.salt,
+      });
+
+      const parsed = parseEnvelope(legacy);
+      expect(parsed.nonce).toEqual(base64ToBytes(json.nonce));
+
+      expect(await decryptFromJSON(legacy, testPassword)).toBe(testMessage);
+    });
+
+    it('should upgrade legacy files to the v1 password format on serialize', async () => {
+      const json = envelopeToJSON(await encryptEnvelope(testMessage, testPassword, LEGACY_KDF));
+      const legacy = { ciphertext: json.ciphertext, nonce: json.nonce, salt: json.salt };
+
+      const upgraded = envelopeToJSON(parseEnvelope(legacy) as PasswordEnvelope);
+      expect(upgraded.v).toBe(1);
+      expect(upgraded.kdf).toEqual(LEGACY_KDF);
+    });
+
+    it('should reject objects that match no known shape', () => {
+      expect(() => parseEnvelope({})).toThrow('unrecognized format');
+      expect(() => parseEnvelope([])).toThrow('expected a JSON object');
+      expect(() => parseEnvelope({ ciphertext: null, nonce: '', salt: '' })).toThrow();
+    });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Versioned, self-describing envelope for encrypted (.enc) files
+ * The single parser/serializer used by both the encryption CLI and the browser.
+ * - v2 (current): content encrypted with a random per-file data key, wrapped by the master key
+ * - v1: content encrypted with a key derived from the password
+ * @remarks Also reads the two legacy shapes written before the envelope existed:
+ * - the browser writer: `{ ciphertext, nonce (24 bytes), salt }` with the GCM tag appended
+ * - the Node script: `{ ciphertext, nonce (12 bytes), salt, authTag }` with the tag separate
+ */
+
+import { base64ToBytes, bytesToBase64, concatBytes } from './encoding';
+import { isObject, type JsonObject } from './json-guards';
+import { LEGACY_KDF, parseKdfParams, type KdfParams } from './kdf';
+
+export const ENVELOPE_VERSION = 2;
+export const PASSWORD_ENVELOPE_VERSION = 1;
+export const ENVELOPE_ALGORITHM = 'AES-256-GCM';
+export const KEY_WRAP_ALGORITHM = 'AES-KW';
+export const GCM_NONCE_LENGTH = 12;
+export const GCM_TAG_LENGTH = 16;
+/** AES-KW output for a 256-bit key: the key plus an 8-byte integrity check */
+export const WRAPPED_KEY_LENGTH = 40;
+/** Key id of the single master key used before access levels; v2 files without `kid` use it */
+export const LEGACY_KEY_ID = 'master';
+
+interface EnvelopeBase {
+  version: number;
+  algorithm: typeof ENVELOPE_ALGORITHM;
+  /** AES-GCM IV, always exactly {@link GCM_NONCE_LENGTH} bytes */
+  nonce: Uint8Array;
+  /** Ciphertext with the GCM authentication tag appended */
+  ciphertext: Uint8Array;
+}
+
+/**
+ * Content encrypted directly under a password-derived key (v1 and legacy)
+ */
+export interface PasswordEnvelope extends EnvelopeBase {
+  kind: 'password';
+  kdf: KdfParams;
+  salt: Uint8Array;
+}
+
+/**
+ * Content encrypted under a random data key wrapped by the master key (v2)
+ */
+export interface WrappedKeyEnvelope extends EnvelopeBase {
+  kind: 'wrapped-key';
+  /** Access level whose master key wraps the data key */
+  keyId: string;
+  /** Per-file AES-256 data key, wrapped with AES-KW under the master key */
+  wrappedKey: Uint8Array;
+}
+
+/**
+ * Decoded envelope, normalized regardless of which writer produced it
+ */
+export type Envelope = PasswordEnvelope | WrappedKeyEnvelope;
+
+/**
+ * On-disk JSON representation of a {@link PasswordEnvelope}
+ */
+export interface PasswordEnvelopeJSON {
+  v: typeof PASSWORD_ENVELOPE_VERSION;
+  alg: typeof ENVELOPE_ALGORITHM;
+  kdf: KdfParams;
+  nonceLength: number;
+  salt: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+/**
+ * On-disk JSON representation of a {@link WrappedKeyEnvelope}
+ */
+export interface WrappedKeyEnvelopeJSON {
+  v: typeof ENVELOPE_VERSION;
+  alg: typeof ENVELOPE_ALGORITHM;
+  key: { wrap: typeof KEY_WRAP_ALGORITHM; kid?: string; wrapped: string };
+  nonceLength: number;
+  nonce: string;
+  ciphertext: string;
+}
+
+export type EnvelopeJSON = PasswordEnvelopeJSON | WrappedKeyEnvelopeJSON;
+
+/** JSON shape matching a specific envelope kind */
+export type EnvelopeJSONFor<E extends Envelope> = E extends WrappedKeyEnvelope
+  ? WrappedKeyEnvelopeJSON
+  : PasswordEnvelopeJSON;
+
+/**
+ * Reads a required Base64 field from a JSON object
+ * @throws If the field is missing or not a string
+ */
+export function readBase64Field(obj: JsonObject, field: string): Uint8Array {
+  const value = obj[field];
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid encrypted file: "${field}" must be a base64 string`);
+  }
+  return base64ToBytes(value);
+}
+
+function assertNonce(nonce: Uint8Array): void {
+  if (nonce.length !== GCM_NONCE_LENGTH) {
+    throw new Error(
+      `Invalid encrypted file: expected a ${GCM_NONCE_LENGTH}-byte nonce, got ${nonce.length}`
+    );
+  }
+}
+
+function assertCiphertext(ciphertext: Uint8Array): void {
+  if (ciphertext.length < GCM_TAG_LENGTH) {
+    throw new Error('Invalid encrypted file: ciphertext is shorter than the authentication tag');
+  }
+}
+
+function readNonceAndCiphertext(obj: JsonObject): { nonce: Uint8Array; ciphertext: Uint8Array } {
+  if (obj.alg !== ENVELOPE_ALGORITHM) {
+    throw new Error(`Invalid encrypted file: unsupported algorithm "${String(obj.alg)}"`);
+  }
+
+  const nonce = readBase64Field(obj, 'nonce');
+  if (obj.nonceLength !== nonce.length) {
+    throw new Error('Invalid encrypted file: nonce does not match declared nonceLength');
+  }
+  assertNonce(nonce);
+
+  const ciphertext = readBase64Field(obj, 'ciphertext');
+  assertCiphertext(ciphertext);
+
+  return { nonce, ciphertext };
+}
+
+function parsePasswordEnvelope(obj: JsonObject): PasswordEnvelope {
+  return {
+    kind: 'password',
+    version: PASSWORD_ENVELOPE_VERSION,
+    algorithm: ENVELOPE_ALGORITHM,
+    kdf: parseKdfParams(obj.kdf),
+    salt: readBase64Field(obj, 'salt'),
+    ...readNonceAndCiphertext(obj),
+  };
+}
+
+function parseWrappedKeyEnvelope(obj: JsonObject): WrappedKeyEnvelope {
+  const key = obj.key;
+  if (!isObject(key) || key.wrap !== KEY_WRAP_ALGORITHM) {
+    throw new Error('Invalid encrypted file: unsupported key wrapping');
+  }
+
+  const wrappedKey = readBase64Field(key, 'wrapped');
+  if (wrappedKey.length !== WRAPPED_KEY_LENGTH) {
+    throw new Error('Invalid encrypted file: malformed wrapped data key');
+  }
+  if (key.kid !== undefined && typeof key.kid !== 'string') {
+    throw new Error('Invalid encrypted file: "kid" must be a string');
+  }
+
+  return {
+    kind: 'wrapped-key',
+    version: ENVELOPE_VERSION,
+    algorithm: ENVELOPE_ALGORITHM,
+    keyId: key.kid ?? LEGACY_KEY_ID,
+    wrappedKey,
+    ...readNonceAndCiphertext(obj),
+  };
+}
+
+function parseLegacy(obj: JsonObject): PasswordEnvelope {
+  const salt = readBase64Field(obj, 'salt');
+  let nonce = readBase64Field(obj, 'nonce');
+  let ciphertext = readBase64Field(obj, 'ciphertext');
+
+  if ('authTag' in obj) {
+    // Node script: 12-byte IV, tag stored separately
+    ciphertext = concatBytes(ciphertext, readBase64Field(obj, 'authTag'));
+  } else if (nonce.length > GCM_NONCE_LENGTH) {
+    // Browser writer: 24-byte "NaCl" nonce of which only the first 12 bytes were the IV
+    nonce = nonce.slice(0, GCM_NONCE_LENGTH);
+  }
+
+  assertNonce(nonce);
+  assertCiphertext(ciphertext);
+
+  return {
+    kind: 'password',
+    version: 0,
+    algorithm: ENVELOPE_ALGORITHM,
+    kdf: { ...LEGACY_KDF },
+    salt,
+    nonce,
+    ciphertext,
+  };
+}
+
+/**
+ * Parses an envelope from its JSON text or an already-parsed value
+ * @param input - Contents of an .enc file, or the result of `JSON.parse` on it
+ * @returns Normalized envelope
+ * @throws If the input is not a recognized envelope or legacy shape
+ */
+export function parseEnvelope(input: unknown): Envelope {
+  const value: unknown = typeof input === 'string' ? JSON.parse(input) : input;
+
+  if (!isObject(value)) {
+    throw new Error('Invalid encrypted file: expected a JSON object');
+  }
+
+  if ('v' in value) {
+    switch (value.v) {
+      case ENVELOPE_VERSION:
+        return parseWrappedKeyEnvelope(value);
+      case PASSWORD_ENVELOPE_VERSION:
+        return parsePasswordEnvelope(value);
+      default:
+        throw new Error(`Unsupported envelope version: ${String(value.v)}`);
+    }
+  }
+
+  if ('ciphertext' in value && 'nonce' in value && 'salt' in value) {
+    return parseLegacy(value);
+  }
+
+  throw new Error('Invalid encrypted file: unrecognized format');
+}
+
+/**
+ * Converts an envelope to its on-disk JSON object
+ * @remarks Password envelopes (including legacy ones) are always written as v1
+ */
+export function envelopeToJSON<E extends Envelope>(envelope: E): EnvelopeJSONFor<E> {
+  assertNonce(envelope.nonce);
+
+  if (envelope.kind === 'wrapped-key') {
+    const json: WrappedKeyEnvelopeJSON = {
+      v: ENVELOPE_VERSION,
+      alg: ENVELOPE_ALGORITHM,
+      key: {
+        wrap: KEY_WRAP_ALGORITHM,
+        kid: envelope.keyId,
+        wrapped: bytesToBase64(envelope.wrappedKey),
+      },
+      nonceLength: envelope.nonce.length,
+      nonce: bytesToBase64(envelope.nonce),
+      ciphertext: bytesToBase64(envelope.ciphertext),
+    };
+    return json as EnvelopeJSONFor<E>;
+  }
+
+  const json: PasswordEnvelopeJSON = {
+    v: PASSWORD_ENVELOPE_VERSION,
+    alg: ENVELOPE_ALGORITHM,
+    kdf: { ...envelope.kdf },
+    nonceLength: envelope.nonce.length,
+    salt: bytesToBase64(envelope.salt),
+    nonce: bytesToBase64(envelope.nonce),
+    ciphertext: bytesToBase64(envelope.ciphertext),
+  };
+  return json as EnvelopeJSONFor<E>;
+}
+
+/**
+ * Serializes an envelope to the JSON text stored in .enc files
+ */
+export function serializeEnvelope(envelope: Envelope): string {
+  return JSON.stringify(envelopeToJSON(envelope));
+}
@@ -0,0 +1,284 @@
+/**
+ * Test suite for photo metadata stripping
+ * Tests JPEG, PNG and WebP containers, the allow-list and the report
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canStripMetadata, stripImageMetadata } from './image-metadata';
+import { concatBytes } from './encoding';
+
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+
+type Tag = [tag: number, type: number, value: number | string];
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+/**
+ * Big-endian TIFF block with IFD0 and optional EXIF and GPS IFDs
+ */
+function tiff(ifd0: Tag[], exif: Tag[] = [], gps: Tag[] = []): Uint8Array {
+  const bytes = new Uint8Array(1024);
+  const view = new DataView(bytes.buffer);
+  bytes.set(text('MM'));
+  view.setUint16(2, 42);
+  view.setUint32(4, 8);
+  let data = 512;
+
+  const writeIfd = (offset: number, tags: Tag[]): number => {
+    view.setUint16(offset, tags.length);
+    tags.forEach(([tag, type, value], index) => {
+      const at = offset + 2 + index * 12;
+      view.setUint16(at, tag);
+      view.setUint16(at + 2, type);
+      if (typeof value === 'string') {
+        const ascii = text(`${value}\0`);
+        view.setUint32(at + 4, ascii.length);
+        view.setUint32(at + 8, data);
+        bytes.set(ascii, data);
+        data += ascii.length + (ascii.length % 2);
+      } else {
+        view.setUint32(at + 4, 1);
+        if (type === SHORT) {
+          view.setUint16(at + 8, value);
+        } else {
+          view.setUint32(at + 8, value);
+        }
+      }
+    });
+    return offset + 2 + tags.length * 12 + 4;
+  };
+
+  const exifOffset = 200;
+  const gpsOffset = 350;
+  writeIfd(8, [
+    ...ifd0,
+    ...(exif.length > 0 ? [[0x8769, LONG, exifOffset] as Tag] : []),
+    ...(gps.length > 0 ? [[0x8825, LONG, gpsOffset] as Tag] : []),
+  ]);
+  writeIfd(exifOffset, exif);
+  writeIfd(gpsOffset, gps);
+  return bytes.subarray(0, data);
+}
+
+const PHONE_EXIF = tiff(
+  [
+    [0x010f, ASCII, 'Pixel'],
+    [0x0110, ASCII, 'Pixel 9'],
+    [0x0112, SHORT, 6],
+    [0x0132, ASCII, '2024:05:02 09:00:00'],
+  ],
+  [
+    [0x9003, ASCII, '2024:05:01 10:00:00'],
+    [0xa431, ASCII, 'SN123456'],
+  ],
+  [[0x0002, ASCII, '52.3676']]
+);
+
+function contains(bytes: Uint8Array, value: string): boolean {
+  return new TextDecoder('latin1').decode(bytes).includes(value);
+}
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const length = payload.length + 2;
+  return concatBytes(new Uint8Array([0xff, marker, length >> 8, length & 0xff]), payload);
+}
+
+const JFIF = jpegSegment(0xe0, text('JFIF\0\x01\x01'));
+const ICC = jpegSegment(0xe2, text('ICC_PROFILE\0\x01\x01profile'));
+const QUANTIZATION = jpegSegment(0xdb, new Uint8Array([0, 1, 2, 3]));
+// Start of scan, entropy-coded data holding a stuffed 0xff, and the end of image
+const SCAN = new Uint8Array([0xff, 0xda, 0, 2, 0x12, 0xff, 0x00, 0x34, 0xff, 0xd9]);
+
+function jpeg(...segments: Uint8Array[]): Uint8Array {
+  return concatBytes(new Uint8Array([0xff, 0xd8]), ...segments, SCAN);
+}
+
+describe('Image metadata', () => {
+  it('should only handle JPEG, PNG and WebP', () => {
+    expect(canStripMetadata('image/jpeg')).toBe(true);
+    expect(canStripMetadata('image/webp')).toBe(true);
+    expect(canStripMetadata('image/gif')).toBe(false);
+    expect(() => stripImageMetadata(new Uint8Array(4), 'image/gif')).toThrow(
+      'Cannot strip metadata from image/gif'
+    );
+  });
+
+  it('should strip a phone JPEG down to its orientation and capture date', () => {
+    const photo = jpeg(
+      JFIF,
+      jpegSegment(0xe1, concatBytes(text('Exif\0\0'), PHONE_EXIF)),
+      jpegSegment(0xe1, text('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>')),
+      ICC,
+      jpegSegment(0xed, text('Photoshop 3.0\0')),
+      jpegSegment(0xfe, text('taken at home')),
+      QUANTIZATION
+    );
+
+    const { bytes, removed } = stripImageMetadata(photo, 'image/jpeg');
+
+    expect(removed).toEqual([
+      'camera make and model',
+      'timestamps',
+      'serial numbers',
+      'GPS location',
+      'XMP metadata',
+      'IPTC and Photoshop data',
+      'descriptions and comments',
+    ]);
+    expect(contains(bytes, '2024:05:01 10:00:00')).toBe(true);
+    for (const gone of ['Pixel', 'SN123456', '52.3676', '2024:05:02', 'xmpmeta', 'at home']) {
+      expect(contains(bytes, gone)).toBe(false);
+    }
+    // JFIF stays first, then the rebuilt EXIF; the profile, tables and image are untouched
+    expect(Array.from(bytes.subarray(0, 2 + JFIF.length))).toEqual(
+      Array.from(concatBytes(new Uint8Array([0xff, 0xd8]), JFIF))
+    );
+    const exif = bytes.subarray(2 + JFIF.length);
+    expect(Array.from(exif.subarray(0, 2))).toEqual([0xff, 0xe1]);
+    expect(new TextDecoder().decode(exif.subarray(4, 8))).toBe('Exif');
+    expect(Array.from(bytes.subarray(-(ICC.length + QUANTIZATION.length + SCAN.length)))).toEqual(
+      Array.from(concatBytes(ICC, QUANTIZATION, SCAN))
+    );
+    expect(stripImageMetadata(bytes, 'image/jpeg').removed).toEqual([]);
+  });
+
+  it('should follow the allow-list', () => {
+    const photo = jpeg(jpegSegment(0xe1, concatBytes(text('Exif\0\0'), PHONE_EXIF)), QUANTIZATION);
+
+    const { bytes, removed } = stripImageMetadata(photo, 'image/jpeg', ['orientation']);
+
+    expect(removed).toContain('timestamps');
+    expect(contains(bytes, '2024:05:01')).toBe(false);
+    expect(contains(bytes, 'Exif')).toBe(true);
+
+    const bare = stripImageMetadata(photo, 'image/jpeg', []);
+    expect(bare.removed).toContain('orientation');
+    expect(contains(bare.bytes, 'Exif')).toBe(false);
+    expect(bare.bytes.length).toBe(2 + QUANTIZATION.length + SCAN.length);
+  });
+
+  it('should drop data after the image and unreadable EXIF', () => {
+    const photo = concatBytes(
+      jpeg(jpegSegment(0xe1, text('Exif\0\0not a tiff'))),
+      text('embedded preview')
+    );
+
+    const { bytes, removed } = stripImageMetadata(photo, 'image/jpeg');
+
+    expect(removed).toEqual([
+      'unreadable EXIF data',
+      'data after the image (such as embedded previews)',
+    ]);
+    expect(Array.from(bytes)).toEqual(Array.from(jpeg()));
+  });
+
+  it('should return clean files untouched', () => {
+    const clean = jpeg(JFIF, QUANTIZATION);
+
+    const result = stripImageMetadata(clean, 'image/jpeg');
+
+    expect(result.bytes).toBe(clean);
+    expect(result.removed).toEqual([]);
+  });
+
+  it('should reject files that are not JPEGs', () => {
+    expect(() => stripImageMetadata(text('GIF89a'), 'image/jpeg')).toThrow('Malformed JPEG');
+    expect(() =>
+      stripImageMetadata(new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0x10, 0x00]), 'image/jpeg')
+    ).toThrow('truncated segment');
+  });
+
+  it('should strip PNG text, time and EXIF chunks', () => {
+    const chunk = (type: string, data: Uint8Array) => {
+      const bytes = new Uint8Array(12 + data.length);
+      new DataView(bytes.buffer).setUint32(0, data.length);
+      bytes.set(text(type), 4);
+      bytes.set(data, 8);
+      return bytes;
+    };
+    const header = chunk('IHDR', new Uint8Array(13));
+    const image = chunk('IDAT', new Uint8Array([1, 2, 3]));
+    const end = chunk('IEND', new Uint8Array(0));
+    const png = concatBytes(
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      header,
+      chunk('tEXt', text('Software\0Phone Camera')),
+      chunk('iTXt', text('Comment\0\0\0\0\0at home')),
+      chunk('tIME', new Uint8Array(7)),
+      image,
+      chunk('eXIf', PHONE_EXIF),
+      end
+    );
+
+    const { bytes, removed } = stripImageMetadata(png, 'image/png');
+
+    expect(removed).toEqual([
+      'timestamps',
+      'camera make and model',
+      'serial numbers',
+      'GPS location',
+      'text (Software, Comment)',
+    ]);
+    const types = [];
+    for (let offset = 8; offset < bytes.length; ) {
+      const length = new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset);
+      types.push(new TextDecoder().decode(bytes.subarray(offset + 4, offset + 8)));
+      offset += 12 + length;
+    }
+    expect(types).toEqual(['IHDR', 'eXIf', 'IDAT', 'IEND']);
+    expect(contains(bytes, '2024:05:01 10:00:00')).toBe(true);
+    expect(contains(bytes, 'Phone Camera')).toBe(false);
+  });
+
+  it('should strip WebP metadata chunks and fix the header', () => {
+    const chunk = (fourcc: string, data: Uint8Array) => {
+      const bytes = new Uint8Array(8 + data.length + (data.length % 2));
+      bytes.set(text(fourcc));
+      new DataView(bytes.buffer).setUint32(4, data.length, true);
+      bytes.set(data, 8);
+      return bytes;
+    };
+    const extended = chunk('VP8X', new Uint8Array([0x08 | 0x04, 0, 0, 0, 0, 0, 0, 0, 0, 0]));
+    const image = chunk('VP8 ', new Uint8Array([1, 2, 3]));
+    const body = concatBytes(
+      text('WEBP'),
+      extended,
+      image,
+      chunk('EXIF', concatBytes(text('Exif\0\0'), PHONE_EXIF)),
+      chunk('XMP ', text('<x:xmpmeta/>'))
+    );
+    const riff = new Uint8Array(8);
+    riff.set(text('RIFF'));
+    new DataView(riff.buffer).setUint32(4, body.length, true);
+
+    // A view into a larger buffer, like the Buffers Node reads files into
+    const file = concatBytes(new Uint8Array(3), riff, body).subarray(3);
+
+    const { bytes, removed } = stripImageMetadata(file, 'image/webp');
+
+    expect(removed).toContain('GPS location');
+    expect(removed).toContain('XMP metadata');
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(bytes[20]).toBe(0x08);
+    expect(Array.from(bytes.subarray(30, 30 + image.length))).toEqual(Array.from(image));
+    expect(new TextDecoder().decode(bytes.subarray(30 + image.length, 34 + image.length))).toBe(
+      'EXIF'
+    );
+    expect(contains(bytes, 'xmpmeta')).toBe(false);
+    expect(contains(bytes, '2024:05:01 10:00:00')).toBe(true);
+  });
+
+  it('should leave simple WebP files alone', () => {
+    const simple = concatBytes(
+      text('RIFF'),
+      new Uint8Array(4),
+      text('WEBPVP8 '),
+      new Uint8Array(8)
+    );
+
+    expect(stripImageMetadata(simple, 'image/webp').bytes).toBe(simple);
+  });
+});
@@ -0,0 +1,594 @@
+/**
+ * Metadata stripping for photos
+ * Phone photos carry GPS coordinates, device serial numbers and timestamps. The
+ * encryption CLI removes them from JPEG, PNG and WebP files before encrypting, without
+ * re-encoding the image: metadata segments and chunks are dropped, and the EXIF block
+ * is rebuilt holding only the fields on the allow-list. Colour profiles stay, since
+ * they change how the image looks.
+ */
+
+import { concatBytes } from './encoding';
+
+/** EXIF fields that can be kept */
+export type MetadataField = 'orientation' | 'captureDate';
+
+export const METADATA_FIELDS: MetadataField[] = ['orientation', 'captureDate'];
+
+/** Kept unless the CLI is told otherwise: how to turn the photo, and when it was taken */
+export const DEFAULT_KEPT_METADATA: MetadataField[] = ['orientation', 'captureDate'];
+
+export interface StrippedImage {
+  /** The image without its metadata; the input itself when there was nothing to remove */
+  bytes: Uint8Array;
+  /** What was removed, for the report; empty if the file was already clean */
+  removed: string[];
+}
+
+const STRIPPABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/**
+ * Whether metadata is stripped from files of this type
+ */
+export function canStripMetadata(contentType: string): boolean {
+  return STRIPPABLE_TYPES.includes(contentType);
+}
+
+/**
+ * Removes metadata from an image, keeping the allowed EXIF fields
+ * @throws If the file is not a well-formed JPEG, PNG or WebP
+ */
+export function stripImageMetadata(
+  bytes: Uint8Array,
+  contentType: string,
+  keep: readonly MetadataField[] = DEFAULT_KEPT_METADATA
+): StrippedImage {
+  const stripped =
+    contentType === 'image/jpeg'
+      ? stripJpeg(bytes, keep)
+      : contentType === 'image/png'
+        ? stripPng(bytes, keep)
+        : contentType === 'image/webp'
+          ? stripWebp(bytes, keep)
+          : null;
+  if (!stripped) {
+    throw new Error(`Cannot strip metadata from ${contentType}`);
+  }
+
+  // Rebuilding an EXIF block that only held kept fields is no reason to touch the file
+  return stripped.removed.length > 0 ? stripped : { bytes, removed: [] };
+}
+
+// EXIF
+
+const TIFF_SHORT = 3;
+const TIFF_LONG = 4;
+const TIFF_ASCII = 2;
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+  13: 4,
+};
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_INTEROP_IFD = 0xa005;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+// How removed tags are described in the report; anything else is "other EXIF tags"
+const EXIF_TAG_LABELS: Record<number, string> = {
+  0x010e: 'descriptions and comments',
+  0x9286: 'descriptions and comments',
+  0x010f: 'camera make and model',
+  0x0110: 'camera make and model',
+  0x0131: 'software',
+  0x0132: 'timestamps',
+  0x9003: 'timestamps',
+  0x9004: 'timestamps',
+  0x9010: 'timestamps',
+  0x9011: 'timestamps',
+  0x9012: 'timestamps',
+  0x9290: 'timestamps',
+  0x9291: 'timestamps',
+  0x9292: 'timestamps',
+  0x013b: 'owner and copyright',
+  0x8298: 'owner and copyright',
+  0xa430: 'owner and copyright',
+  0xa431: 'serial numbers',
+  0xa435: 'serial numbers',
+  0xa432: 'lens details',
+  0xa433: 'lens details',
+  0xa434: 'lens details',
+  0x927c: 'maker notes',
+  0xa420: 'unique image ID',
+};
+
+/** EXIF values that survive stripping, as raw bytes */
+interface KeptExif {
+  orientation?: number;
+  dateTimeOriginal?: Uint8Array;
+  offsetTimeOriginal?: Uint8Array;
+}
+
+interface ExifSummary {
+  labels: string[];
+  kept: KeptExif;
+}
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  /** Offset of the value within the TIFF data */
+  valueOffset: number;
+}
+
+function malformed(): never {
+  throw new Error('Malformed EXIF data');
+}
+
+/**
+ * Reads the TIFF structure of an EXIF block: what it holds and the values to keep
+ * Unreadable EXIF is reported as such and dropped whole.
+ */
+function summarizeExif(tiff: Uint8Array, keep: readonly MetadataField[]): ExifSummary {
+  try {
+    return readExif(tiff, keep);
+  } catch {
+    return { labels: ['unreadable EXIF data'], kept: {} };
+  }
+}
+
+function readExif(tiff: Uint8Array, keep: readonly MetadataField[]): ExifSummary {
+  if (tiff.length < 8) {
+    malformed();
+  }
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = String.fromCharCode(tiff[0], tiff[1]);
+  if ((order !== 'II' && order !== 'MM') || view.getUint16(2, order === 'II') !== 42) {
+    malformed();
+  }
+  const little = order === 'II';
+  const visited = new Set<number>();
+
+  const readIfd = (offset: number): { entries: IfdEntry[]; next: number } => {
+    if (visited.has(offset) || offset < 8 || offset + 2 > tiff.length) {
+      malformed();
+    }
+    visited.add(offset);
+    const count = view.getUint16(offset, little);
+    if (offset + 2 + count * 12 + 4 > tiff.length) {
+      malformed();
+    }
+
+    const entries: IfdEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const type = view.getUint16(entry + 2, little);
+      const valueCount = view.getUint32(entry + 4, little);
+      const size = (TIFF_TYPE_SIZES[type] ?? 1) * valueCount;
+      const valueOffset = size <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+      if (valueOffset + size > tiff.length) {
+        malformed();
+      }
+      entries.push({ tag: view.getUint16(entry, little), type, count: valueCount, valueOffset });
+    }
+    return { entries, next: view.getUint32(offset + 2 + count * 12, little) };
+  };
+  const pointer = (entry: IfdEntry) => view.getUint32(entry.valueOffset, little);
+  const ascii = (entry: IfdEntry) =>
+    entry.type === TIFF_ASCII
+      ? tiff.slice(entry.valueOffset, entry.valueOffset + entry.count)
+      : null;
+
+  const labels = new Set<string>();
+  const kept: KeptExif = {};
+  const ifd0 = readIfd(view.getUint32(4, little));
+  if (ifd0.next !== 0) {
+    labels.add('embedded thumbnail');
+  }
+
+  for (const entry of ifd0.entries) {
+    if (entry.tag === TAG_ORIENTATION && entry.type === TIFF_SHORT) {
+      const orientation = view.getUint16(entry.valueOffset, little);
+      if (keep.includes('orientation') && orientation >= 1 && orientation <= 8) {
+        kept.orientation = orientation;
+      } else {
+        labels.add('orientation');
+      }
+      continue;
+    }
+    if (entry.tag === TAG_GPS_IFD) {
+      if (readIfd(pointer(entry)).entries.length > 0) {
+        labels.add('GPS location');
+      }
+      continue;
+    }
+    if (entry.tag !== TAG_EXIF_IFD) {
+      labels.add(EXIF_TAG_LABELS[entry.tag] ?? 'other EXIF tags');
+      continue;
+    }
+
+    for (const exifEntry of readIfd(pointer(entry)).entries) {
+      const value = ascii(exifEntry);
+      if (keep.includes('captureDate') && value && exifEntry.tag === TAG_DATE_TIME_ORIGINAL) {
+        kept.dateTimeOriginal = value;
+      } else if (
+        keep.includes('captureDate') &&
+        value &&
+        exifEntry.tag === TAG_OFFSET_TIME_ORIGINAL
+      ) {
+        kept.offsetTimeOriginal = value;
+      } else if (exifEntry.tag === TAG_GPS_IFD) {
+        labels.add('GPS location');
+      } else if (exifEntry.tag !== TAG_INTEROP_IFD) {
+        labels.add(EXIF_TAG_LABELS[exifEntry.tag] ?? 'other EXIF tags');
+      }
+    }
+  }
+
+  return { labels: [...labels], kept };
+}
+
+interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  /** The value in little-endian byte order */
+  value: Uint8Array;
+}
+
+/**
+ * Writes a little-endian TIFF block holding only the kept EXIF values
+ * @returns The block, or null if nothing is kept
+ */
+function buildExif(kept: KeptExif): Uint8Array | null {
+  const { orientation, dateTimeOriginal, offsetTimeOriginal } = kept;
+  const ifd0: TiffEntry[] = [];
+  const exif: TiffEntry[] = [];
+  if (orientation !== undefined) {
+    ifd0.push({
+      tag: TAG_ORIENTATION,
+      type: TIFF_SHORT,
+      count: 1,
+      value: new Uint8Array([orientation & 0xff, orientation >> 8]),
+    });
+  }
+  for (const [tag, value] of [
+    [TAG_DATE_TIME_ORIGINAL, dateTimeOriginal],
+    [TAG_OFFSET_TIME_ORIGINAL, offsetTimeOriginal],
+  ] as const) {
+    if (value) {
+      exif.push({ tag, type: TIFF_ASCII, count: value.length, value });
+    }
+  }
+  if (ifd0.length + exif.length === 0) {
+    return null;
+  }
+
+  const ifdSize = (entries: number) => 2 + entries * 12 + 4;
+  const ifd0Count = ifd0.length + (exif.length > 0 ? 1 : 0);
+  const exifOffset = 8 + ifdSize(ifd0Count);
+  let dataOffset = exifOffset + (exif.length > 0 ? ifdSize(exif.length) : 0);
+  // Values over four bytes go after the IFDs, each starting on an even offset
+  const padded = (value: Uint8Array) => value.length + (value.length % 2);
+  const size = [...ifd0, ...exif]
+    .filter(entry => entry.value.length > 4)
+    .reduce((total, entry) => total + padded(entry.value), dataOffset);
+
+  const tiff = new Uint8Array(size);
+  const view = new DataView(tiff.buffer);
+  tiff.set([0x49, 0x49]);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+
+  const writeIfd = (offset: number, entries: TiffEntry[]) => {
+    view.setUint16(offset, entries.length, true);
+    entries.forEach((entry, index) => {
+      const at = offset + 2 + index * 12;
+      view.setUint16(at, entry.tag, true);
+      view.setUint16(at + 2, entry.type, true);
+      view.setUint32(at + 4, entry.count, true);
+      if (entry.value.length <= 4) {
+        tiff.set(entry.value, at + 8);
+      } else {
+        view.setUint32(at + 8, dataOffset, true);
+        tiff.set(entry.value, dataOffset);
+        dataOffset += padded(entry.value);
+      }
+    });
+    view.setUint32(offset + 2 + entries.length * 12, 0, true);
+  };
+
+  const exifPointer = new Uint8Array(4);
+  new DataView(exifPointer.buffer).setUint32(0, exifOffset, true);
+  writeIfd(
+    8,
+    exif.length > 0
+      ? [...ifd0, { tag: TAG_EXIF_IFD, type: TIFF_LONG, count: 1, value: exifPointer }]
+      : ifd0
+  );
+  if (exif.length > 0) {
+    writeIfd(exifOffset, exif);
+  }
+  return tiff;
+}
+
+// Containers
+
+const encoder = new TextEncoder();
+const EXIF_HEADER = encoder.encode('Exif\0\0');
+const XMP_HEADERS = [
+  encoder.encode('http://ns.adobe.com/xap/1.0/\0'),
+  encoder.encode('http://ns.adobe.com/xmp/extension/\0'),
+];
+const ICC_HEADER = encoder.encode('ICC_PROFILE\0');
+
+function startsWith(bytes: Uint8Array, prefix: Uint8Array): boolean {
+  return bytes.length >= prefix.length && prefix.every((byte, i) => bytes[i] === byte);
+}
+
+const JPEG_SOI = 0xd8;
+const JPEG_EOI = 0xd9;
+const JPEG_SOS = 0xda;
+const JPEG_APP0 = 0xe0;
+const JPEG_APP1 = 0xe1;
+const JPEG_APP2 = 0xe2;
+const JPEG_APP13 = 0xed;
+// Adobe colour transform: decoding needs it
+const JPEG_APP14 = 0xee;
+const JPEG_APP15 = 0xef;
+const JPEG_COM = 0xfe;
+
+/**
+ * Offset just past the EOI marker ending the image data that starts at an SOS
+ * Marker bytes cannot appear in entropy-coded data (0xff is followed by 0x00 or a
+ * restart marker there), so the first EOI is the end of the main image.
+ */
+function jpegImageEnd(bytes: Uint8Array, sos: number): number {
+  for (let i = sos + 2; i + 1 < bytes.length; i++) {
+    if (bytes[i] === 0xff && bytes[i + 1] === JPEG_EOI) {
+      return i + 2;
+    }
+  }
+  return bytes.length;
+}
+
+function stripJpeg(bytes: Uint8Array, keep: readonly MetadataField[]): StrippedImage {
+  if (bytes[0] !== 0xff || bytes[1] !== JPEG_SOI) {
+    throw new Error('Malformed JPEG: missing start of image');
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  const removed = new Set<string>();
+  let kept: KeptExif = {};
+  // EXIF goes right after SOI, or after the JFIF header where there is one
+  let exifIndex = 1;
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      throw new Error('Malformed JPEG: expected a marker');
+    }
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === JPEG_SOS || marker === JPEG_EOI) {
+      const end = marker === JPEG_SOS ? jpegImageEnd(bytes, offset) : offset + 2;
+      parts.push(bytes.subarray(offset, end));
+      if (end < bytes.length) {
+        removed.add('data after the image (such as embedded previews)');
+      }
+      break;
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) {
+      throw new Error('Malformed JPEG: truncated segment');
+    }
+    const payload = bytes.subarray(offset + 4, end);
+
+    if (marker === JPEG_APP1 && startsWith(payload, EXIF_HEADER)) {
+      const summary = summarizeExif(payload.subarray(EXIF_HEADER.length), keep);
+      summary.labels.forEach(label => removed.add(label));
+      kept = summary.kept;
+    } else if (marker === JPEG_APP1 && XMP_HEADERS.some(header => startsWith(payload, header))) {
+      removed.add('XMP metadata');
+    } else if (marker === JPEG_APP13) {
+      removed.add('IPTC and Photoshop data');
+    } else if (marker === JPEG_COM) {
+      removed.add('descriptions and comments');
+    } else if (
+      marker >= JPEG_APP1 &&
+      marker <= JPEG_APP15 &&
+      marker !== JPEG_APP14 &&
+      !(marker === JPEG_APP2 && startsWith(payload, ICC_HEADER))
+    ) {
+      removed.add('other application data');
+    } else {
+      parts.push(bytes.subarray(offset, end));
+      if (marker === JPEG_APP0 && parts.length === 2) {
+        exifIndex = 2;
+      }
+    }
+    offset = end;
+  }
+
+  const exif = buildExif(kept);
+  if (exif) {
+    const length = EXIF_HEADER.length + exif.length + 2;
+    const marker = new Uint8Array([0xff, JPEG_APP1, length >> 8, length & 0xff]);
+    parts.splice(exifIndex, 0, marker, EXIF_HEADER, exif);
+  }
+  return { bytes: concatBytes(...parts), removed: [...removed] };
+}
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_TEXT_CHUNKS = ['tEXt', 'zTXt', 'iTXt'];
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encoder.encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function stripPng(bytes: Uint8Array, keep: readonly MetadataField[]): StrippedImage {
+  if (!startsWith(bytes, PNG_SIGNATURE)) {
+    throw new Error('Malformed PNG: missing signature');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [PNG_SIGNATURE];
+  const removed = new Set<string>();
+  const keywords = new Set<string>();
+  let kept: KeptExif = {};
+  // eXIf has to come before the image data
+  let exifIndex = -1;
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset < bytes.length) {
+    if (offset + 12 > bytes.length) {
+      throw new Error('Malformed PNG: truncated chunk');
+    }
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) {
+      throw new Error('Malformed PNG: truncated chunk');
+    }
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'eXIf') {
+      const summary = summarizeExif(data, keep);
+      summary.labels.forEach(label => removed.add(label));
+      kept = summary.kept;
+    } else if (PNG_TEXT_CHUNKS.includes(type)) {
+      const nul = data.indexOf(0);
+      const keyword = data.subarray(0, nul === -1 ? data.length : nul);
+      keywords.add(new TextDecoder('latin1').decode(keyword));
+    } else if (type === 'tIME') {
+      removed.add('timestamps');
+    } else {
+      if (type === 'IDAT' && exifIndex === -1) {
+        exifIndex = parts.length;
+      }
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+    if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (keywords.size > 0) {
+    removed.add(`text (${[...keywords].join(', ')})`);
+  }
+  const exif = buildExif(kept);
+  if (exif) {
+    parts.splice(exifIndex === -1 ? 2 : exifIndex, 0, pngChunk('eXIf', exif));
+  }
+  return { bytes: concatBytes(...parts), removed: [...removed] };
+}
+
+const WEBP_FLAG_EXIF = 0x08;
+const WEBP_FLAG_XMP = 0x04;
+
+function riffChunk(fourcc: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(encoder.encode(fourcc));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+function stripWebp(bytes: Uint8Array, keep: readonly MetadataField[]): StrippedImage {
+  const text = (from: number) => String.fromCharCode(...bytes.subarray(from, from + 4));
+  if (bytes.length < 12 || text(0) !== 'RIFF' || text(8) !== 'WEBP') {
+    throw new Error('Malformed WebP: missing RIFF header');
+  }
+  // Only the extended format can hold metadata
+  if (text(12) !== 'VP8X') {
+    return { bytes, removed: [] };
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  const removed = new Set<string>();
+  let kept: KeptExif = {};
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const fourcc = text(offset);
+    const length = view.getUint32(offset + 4, true);
+    const end = offset + 8 + length + (length % 2);
+    if (offset + 8 + length > bytes.length) {
+      throw new Error('Malformed WebP: truncated chunk');
+    }
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (fourcc === 'EXIF') {
+      const tiff = startsWith(data, EXIF_HEADER) ? data.subarray(EXIF_HEADER.length) : data;
+      const summary = summarizeExif(tiff, keep);
+      summary.labels.forEach(label => removed.add(label));
+      kept = summary.kept;
+    } else if (fourcc === 'XMP ') {
+      removed.add('XMP metadata');
+    } else {
+      chunks.push(bytes.slice(offset, Math.min(end, bytes.length)));
+    }
+    offset = end;
+  }
+
+  const exif = buildExif(kept);
+  // The header flags say which metadata chunks follow
+  const header = chunks[0];
+  header[8] &= ~(WEBP_FLAG_EXIF | WEBP_FLAG_XMP);
+  if (exif) {
+    header[8] |= WEBP_FLAG_EXIF;
+    chunks.push(riffChunk('EXIF', exif));
+  }
+
+  const body = concatBytes(...chunks);
+  const riff = new Uint8Array(12);
+  riff.set(bytes.subarray(0, 12));
+  new DataView(riff.buffer).setUint32(4, body.length + 4, true);
+  return { bytes: concatBytes(riff, body), removed: [...removed] };
+}
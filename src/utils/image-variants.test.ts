@@ -0,0 +1,98 @@
+/**
+ * Test suite for gallery image variants
+ * Tests which widths are made and which file is shown at a given size
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  entryObjectPaths,
+  hasExpectedVariants,
+  hasVariants,
+  pickVariant,
+  toHexColor,
+  variantPath,
+  variantWidths,
+} from './image-variants';
+import type { ImageVariant, ManifestEntry } from './manifest';
+
+function variant(width: number): ImageVariant {
+  return {
+    path: `/objects/${String(width).padStart(32, '0')}.enc`,
+    width,
+    height: width / 2,
+    size: width * 10,
+    contentType: 'image/webp',
+    sha256: 'cd'.repeat(32),
+  };
+}
+
+const photo: ManifestEntry = {
+  path: '/objects/0123456789abcdef0123456789abcdef.enc',
+  name: 'dawn.jpg',
+  relativePath: 'trips/dawn.jpg',
+  size: 3_000_000,
+  contentType: 'image/jpeg',
+  sha256: 'ab'.repeat(32),
+  image: {
+    width: 4000,
+    height: 2000,
+    placeholder: '#336699',
+    variants: [320, 640, 1280].map(variant),
+  },
+};
+
+describe('Image variants', () => {
+  it('should only make copies of raster images', () => {
+    expect(hasVariants('image/jpeg')).toBe(true);
+    expect(hasVariants('image/png')).toBe(true);
+    expect(hasVariants('image/svg+xml')).toBe(false);
+    expect(hasVariants('audio/mpeg')).toBe(false);
+  });
+
+  it('should only make copies narrower than the original', () => {
+    expect(variantWidths(4000)).toEqual([320, 640, 1280]);
+    expect(variantWidths(640)).toEqual([320]);
+    expect(variantWidths(320)).toEqual([]);
+  });
+
+  it('should keep variant names apart from real files', () => {
+    expect(variantPath('trips/dawn.jpg', 320)).toBe('trips/dawn.jpg\u0000320w');
+    expect(variantPath('a', 320)).not.toBe(variantPath('a', 640));
+  });
+
+  it('should pick the narrowest copy that fills the target', () => {
+    expect(pickVariant(photo, 200).path).toBe(variant(320).path);
+    expect(pickVariant(photo, 320).path).toBe(variant(320).path);
+    expect(pickVariant(photo, 321).path).toBe(variant(640).path);
+    expect(pickVariant(photo, 2000)).toBe(photo);
+  });
+
+  it('should fall back to the original without copies', () => {
+    const { image: _image, ...plain } = photo;
+
+    expect(pickVariant(plain, 200)).toBe(plain);
+    expect(entryObjectPaths(plain)).toEqual([photo.path]);
+  });
+
+  it('should list every object behind an entry', () => {
+    expect(entryObjectPaths(photo)).toEqual([
+      photo.path,
+      variant(320).path,
+      variant(640).path,
+      variant(1280).path,
+    ]);
+  });
+
+  it('should compare listed copies with the expected ones', () => {
+    const paths = [320, 640, 1280].map(width => variant(width).path);
+
+    expect(hasExpectedVariants(photo.image!, paths)).toBe(true);
+    expect(hasExpectedVariants(photo.image!, paths.slice(0, 2))).toBe(false);
+    expect(hasExpectedVariants(photo.image!, [...paths.slice(0, 2), photo.path])).toBe(false);
+  });
+
+  it('should format placeholder colours', () => {
+    expect(toHexColor({ r: 51, g: 102, b: 153 })).toBe('#336699');
+    expect(toHexColor({ r: 0, g: 5, b: 255 })).toBe('#0005ff');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Smaller copies of gallery images
+ * The encryption CLI renders a few widths of every picture and encrypts each as its
+ * own object, listed on the manifest entry with a placeholder colour. The browser
+ * fills tiles with the colour straight away, decrypts a small copy for the grid, and
+ * only fetches the original when the image is opened.
+ */
+
+import type { ImageInfo, ImageVariant, ManifestEntry } from './manifest';
+
+/** Widths rendered for each image, in pixels; only those narrower than the original */
+export const VARIANT_WIDTHS = [320, 640, 1280];
+
+/** Format of the rendered copies */
+export const VARIANT_CONTENT_TYPE = 'image/webp';
+
+// Formats the CLI can decode; SVG scales by itself
+const VARIANT_SOURCE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+/**
+ * Whether smaller copies are made of files of this type
+ */
+export function hasVariants(contentType: string): boolean {
+  return VARIANT_SOURCE_TYPES.includes(contentType);
+}
+
+/**
+ * Widths to render for an original of the given width
+ */
+export function variantWidths(originalWidth: number): number[] {
+  return VARIANT_WIDTHS.filter(width => width < originalWidth);
+}
+
+/**
+ * Path a variant's object name is derived from
+ * NUL cannot appear in file names, so this never matches a real file's path.
+ */
+export function variantPath(relativePath: string, width: number): string {
+  return `${relativePath}\0${width}w`;
+}
+
+/**
+ * The file to show at a given width: the narrowest copy at least that wide, or the
+ * original when no copy is
+ * @param targetWidth - Device pixels the image will fill
+ */
+export function pickVariant(
+  entry: ManifestEntry,
+  targetWidth: number
+): ManifestEntry | ImageVariant {
+  return entry.image?.variants.find(variant => variant.width >= targetWidth) ?? entry;
+}
+
+/**
+ * Every encrypted object behind an entry: the original and its copies
+ */
+export function entryObjectPaths(entry: ManifestEntry): string[] {
+  return [entry.path, ...(entry.image?.variants.map(variant => variant.path) ?? [])];
+}
+
+/**
+ * Placeholder colour for an RGB triple
+ */
+export function toHexColor({ r, g, b }: { r: number; g: number; b: number }): string {
+  return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Whether image info lists exactly the copies that should exist for it
+ * @param expectedPaths - Object path per width, for the widths the original needs
+ */
+export function hasExpectedVariants(image: ImageInfo, expectedPaths: string[]): boolean {
+  return (
+    image.variants.length === expectedPaths.length &&
+    image.variants.every((variant, index) => variant.path === expectedPaths[index])
+  );
+}
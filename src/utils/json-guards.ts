@@ -0,0 +1,12 @@
+/**
+ * Type guards for validating untrusted JSON (decrypted files, manifests)
+ */
+
+export type JsonObject = Record<string, unknown>;
+
+/**
+ * Checks that a parsed JSON value is a plain object (not null or an array)
+ */
+export function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,106 @@
+/**
+ * Test suite for password key derivation
+ * Tests parameter validation, both KDFs and calibration
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calibrateKdf,
+  deriveKeyMaterial,
+  parseKdfParams,
+  LEGACY_KDF,
+  MAX_ARGON2_MEMORY_KIB,
+  MIN_ARGON2_MEMORY_KIB,
+  type Argon2idKdfParams,
+} from './kdf';
+import { encryptEnvelope, decryptEnvelope } from './crypto-utils';
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+describe('KDF', () => {
+  const salt = new TextEncoder().encode('salt');
+  const argon2Salt = new TextEncoder().encode('sixteen byte salt');
+  const cheapArgon2: Argon2idKdfParams = {
+    name: 'Argon2id',
+    memoryKiB: 1024,
+    iterations: 1,
+    parallelism: 1,
+  };
+
+  describe('parseKdfParams', () => {
+    it('should accept PBKDF2 and Argon2id parameters', () => {
+      expect(parseKdfParams({ ...LEGACY_KDF })).toEqual(LEGACY_KDF);
+      expect(parseKdfParams({ ...cheapArgon2 })).toEqual(cheapArgon2);
+    });
+
+    it('should reject unknown KDFs and malformed parameters', () => {
+      expect(() => parseKdfParams({ name: 'scrypt' })).toThrow('unsupported KDF');
+      expect(() => parseKdfParams({ ...LEGACY_KDF, iterations: 0 })).toThrow('positive integer');
+      expect(() => parseKdfParams({ ...cheapArgon2, memoryKiB: 4 })).toThrow('Argon2id');
+      expect(() => parseKdfParams({ ...cheapArgon2, memoryKiB: 2 ** 30 })).toThrow('Argon2id');
+      expect(() => parseKdfParams({ ...cheapArgon2, parallelism: 1.5 })).toThrow('Argon2id');
+    });
+  });
+
+  describe('deriveKeyMaterial', () => {
+    it('should match the PBKDF2-HMAC-SHA256 reference output', async () => {
+      const key = await deriveKeyMaterial(
+        'password',
+        salt,
+        { name: 'PBKDF2', hash: 'SHA-256', iterations: 1 },
+        32
+      );
+
+      expect(toHex(key)).toBe('120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b');
+    });
+
+    it('should be deterministic for Argon2id and depend on every parameter', async () => {
+      const key = await deriveKeyMaterial('password', argon2Salt, cheapArgon2, 32);
+
+      expect(key).toHaveLength(32);
+      expect(await deriveKeyMaterial('password', argon2Salt, cheapArgon2, 32)).toEqual(key);
+      expect(
+        await deriveKeyMaterial('password', argon2Salt, { ...cheapArgon2, iterations: 2 }, 32)
+      ).not.toEqual(key);
+      expect(
+        await deriveKeyMaterial('password', argon2Salt, { ...cheapArgon2, memoryKiB: 2048 }, 32)
+      ).not.toEqual(key);
+    });
+
+    it('should decrypt envelopes using the KDF they record', async () => {
+      const envelope = await encryptEnvelope('memory-hard', 'password', cheapArgon2);
+
+      expect(envelope.kdf).toEqual(cheapArgon2);
+      const decrypted = await decryptEnvelope(envelope, 'password');
+      expect(new TextDecoder().decode(decrypted)).toBe('memory-hard');
+    });
+  });
+
+  describe('calibrateKdf', () => {
+    it('should never go below the Argon2id and PBKDF2 floors', async () => {
+      const argon2 = await calibrateKdf('Argon2id', { targetMs: 1 });
+      const pbkdf2 = await calibrateKdf('PBKDF2', { targetMs: 1 });
+
+      expect(argon2).toEqual({
+        name: 'Argon2id',
+        memoryKiB: MIN_ARGON2_MEMORY_KIB,
+        iterations: 1,
+        parallelism: 1,
+      });
+      expect(pbkdf2).toEqual(LEGACY_KDF);
+    });
+
+    it('should spend a larger budget on memory before passes', async () => {
+      const kdf = await calibrateKdf('Argon2id', { targetMs: 1_000_000, slowdown: 1 });
+
+      expect(kdf.name).toBe('Argon2id');
+      expect(kdf).toMatchObject({ memoryKiB: MAX_ARGON2_MEMORY_KIB });
+      expect(kdf.iterations).toBeGreaterThan(1);
+    });
+
+    it('should reject a non-positive target', async () => {
+      await expect(calibrateKdf('Argon2id', { targetMs: 0 })).rejects.toThrow('positive');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Password key derivation functions
+ * PBKDF2-SHA-256 through Web Crypto, and memory-hard Argon2id through hash-wasm
+ * (a WASM build bundled with the site, so no third-party script is loaded at runtime).
+ * @remarks The parameters are stored next to every salt they were used with (key slots
+ * and v1 envelopes), so they can be raised later without breaking older files.
+ */
+
+import { argon2id } from 'hash-wasm';
+import { isObject } from './json-guards';
+
+export interface Pbkdf2KdfParams {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+}
+
+export interface Argon2idKdfParams {
+  name: 'Argon2id';
+  /** Memory cost in KiB */
+  memoryKiB: number;
+  /** Passes over memory */
+  iterations: number;
+  parallelism: number;
+}
+
+export type KdfParams = Pbkdf2KdfParams | Argon2idKdfParams;
+
+export type KdfName = KdfParams['name'];
+
+/**
+ * KDF parameters used by every writer before the envelope recorded them
+ */
+export const LEGACY_KDF: Readonly<Pbkdf2KdfParams> = {
+  name: 'PBKDF2',
+  hash: 'SHA-256',
+  iterations: 100_000,
+};
+
+/**
+ * Parameters for new key slots until the CLI calibrates its own
+ */
+export const DEFAULT_KDF: Readonly<Argon2idKdfParams> = {
+  name: 'Argon2id',
+  memoryKiB: 65_536,
+  iterations: 3,
+  parallelism: 1,
+};
+
+/** OWASP minimum memory for Argon2id */
+export const MIN_ARGON2_MEMORY_KIB = 19_456;
+/** Ceiling that still fits comfortably in a phone browser tab */
+export const MAX_ARGON2_MEMORY_KIB = 262_144;
+/** Upper bound accepted when parsing, to refuse absurd allocations */
+const PARSE_MAX_MEMORY_KIB = 4_194_304;
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Validates KDF parameters read from JSON
+ * @throws If the KDF or its parameters are unsupported
+ */
+export function parseKdfParams(value: unknown): KdfParams {
+  if (!isObject(value)) {
+    throw new Error('Invalid encrypted file: unsupported KDF');
+  }
+
+  if (value.name === 'PBKDF2') {
+    if (value.hash !== 'SHA-256') {
+      throw new Error(`Invalid encrypted file: unsupported PBKDF2 hash "${String(value.hash)}"`);
+    }
+    if (!isPositiveInteger(value.iterations)) {
+      throw new Error('Invalid encrypted file: PBKDF2 iterations must be a positive integer');
+    }
+    return { name: 'PBKDF2', hash: 'SHA-256', iterations: value.iterations };
+  }
+
+  if (value.name === 'Argon2id') {
+    const { memoryKiB, iterations, parallelism } = value;
+    if (
+      !isPositiveInteger(memoryKiB) ||
+      !isPositiveInteger(iterations) ||
+      !isPositiveInteger(parallelism) ||
+      parallelism > 255 ||
+      memoryKiB < 8 * parallelism ||
+      memoryKiB > PARSE_MAX_MEMORY_KIB
+    ) {
+      throw new Error('Invalid encrypted file: malformed Argon2id parameters');
+    }
+    return { name: 'Argon2id', memoryKiB, iterations, parallelism };
+  }
+
+  throw new Error('Invalid encrypted file: unsupported KDF');
+}
+
+/**
+ * Derives raw key bytes from a password
+ * @param length - Output length in bytes
+ */
+export async function deriveKeyMaterial(
+  password: string,
+  salt: Uint8Array,
+  kdf: KdfParams,
+  length: number
+): Promise<Uint8Array> {
+  const passwordData = new TextEncoder().encode(password);
+
+  if (kdf.name === 'Argon2id') {
+    return argon2id({
+      password: passwordData,
+      salt,
+      iterations: kdf.iterations,
+      parallelism: kdf.parallelism,
+      memorySize: kdf.memoryKiB,
+      hashLength: length,
+      outputType: 'binary',
+    });
+  }
+
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('Web Crypto API not available');
+  }
+
+  const baseKey = await globalThis.crypto.subtle.importKey('raw', passwordData, 'PBKDF2', false, [
+    'deriveBits',
+  ]);
+  const bits = await globalThis.crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: kdf.hash, salt: new Uint8Array(salt), iterations: kdf.iterations },
+    baseKey,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+/** How much slower a phone-class device runs the KDF than a typical dev machine */
+export const PHONE_SLOWDOWN = 4;
+
+export interface CalibrationOptions {
+  /** Target unlock time on the phone-class baseline, in milliseconds */
+  targetMs: number;
+  /** Slowdown of the baseline relative to this machine (defaults to {@link PHONE_SLOWDOWN}) */
+  slowdown?: number;
+}
+
+async function timeDerivation(kdf: KdfParams): Promise<number> {
+  const salt = new Uint8Array(16);
+  let best = Infinity;
+
+  // Best of two, so a one-off warm-up (WASM compile, JIT) doesn't skew the result
+  for (let run = 0; run < 2; run++) {
+    const start = performance.now();
+    await deriveKeyMaterial('calibration', salt, kdf, 32);
+    best = Math.min(best, performance.now() - start);
+  }
+  return best;
+}
+
+/**
+ * Picks KDF parameters that take about `targetMs` on a phone-class baseline
+ * Measures this machine and scales by the baseline slowdown. Argon2id spends the
+ * budget on memory first (up to {@link MAX_ARGON2_MEMORY_KIB}), then on passes.
+ * Neither goes below its floor ({@link MIN_ARGON2_MEMORY_KIB}, {@link LEGACY_KDF}),
+ * even if that overshoots the target.
+ */
+export async function calibrateKdf(
+  name: KdfName,
+  { targetMs, slowdown = PHONE_SLOWDOWN }: CalibrationOptions
+): Promise<KdfParams> {
+  if (!(targetMs > 0) || !(slowdown > 0)) {
+    throw new Error('Calibration target and slowdown must be positive');
+  }
+
+  if (name === 'PBKDF2') {
+    const probe = { ...LEGACY_KDF };
+    const msPerIteration = ((await timeDerivation(probe)) * slowdown) / probe.iterations;
+    const iterations = Math.floor(targetMs / msPerIteration / 10_000) * 10_000;
+
+    return { ...LEGACY_KDF, iterations: Math.max(LEGACY_KDF.iterations, iterations) };
+  }
+
+  const probe: Argon2idKdfParams = { ...DEFAULT_KDF, iterations: 1 };
+  const msPerKiBPass = ((await timeDerivation(probe)) * slowdown) / probe.memoryKiB;
+  const budget = targetMs / msPerKiBPass;
+
+  const memoryKiB = Math.min(
+    MAX_ARGON2_MEMORY_KIB,
+    Math.max(MIN_ARGON2_MEMORY_KIB, Math.floor(budget / 1024) * 1024)
+  );
+
+  return {
+    name: 'Argon2id',
+    memoryKiB,
+    iterations: Math.max(1, Math.floor(budget / memoryKiB)),
+    parallelism: 1,
+  };
+}
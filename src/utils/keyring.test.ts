@@ -0,0 +1,145 @@
+/**
+ * Test suite for the access-level keyring
+ * Tests creation, serialization, key slots and password rotation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createKeyring,
+  keyringLevels,
+  parseKeyring,
+  rekeyKeyring,
+  removeSlot,
+  serializeKeyring,
+  unlockKeyring,
+  withSlot,
+  wrapSlot,
+} from './keyring';
+import { sessionFromKeys } from './session';
+import { generateSalt, wrapKey, deriveWrappingKey, generateMasterKey } from './crypto-utils';
+import { LEGACY_KDF } from './kdf';
+import { bytesToBase64 } from './encoding';
+
+describe('Keyring', () => {
+  const oldPassword = 'OldPassword#2024';
+  const newPassword = 'NewPassword#2025';
+  const friendsPassword = 'FriendsPassword#1';
+  const levels = ['private', 'shared'];
+
+  it('should round-trip through serialization', async () => {
+    const { keyring } = await createKeyring(oldPassword, levels);
+    const parsed = parseKeyring(serializeKeyring(keyring));
+
+    expect(parsed).toEqual(keyring);
+    expect(parsed.slots[0].name).toBe('owner');
+    expect(parsed.slots[0].wrappedKeys.private).toHaveLength(40);
+  });
+
+  it('should unlock non-extractable level keys with the right password', async () => {
+    const { keyring } = await createKeyring(oldPassword, levels);
+    const { slot, keys } = await unlockKeyring(keyring, oldPassword);
+
+    expect(slot).toBe('owner');
+    expect([...keys.keys()]).toEqual(levels);
+    expect(keys.get('private')?.extractable).toBe(false);
+    await expect(unlockKeyring(keyring, 'wrong')).rejects.toThrow('Incorrect password');
+  });
+
+  it('should let a second slot unlock a subset of the levels', async () => {
+    const { keyring, keys } = await createKeyring(oldPassword, levels);
+    const friends = await wrapSlot(
+      'friends',
+      friendsPassword,
+      new Map([['shared', keys.get('shared')!]])
+    );
+    const withFriends = withSlot(keyring, friends);
+    const envelope = await sessionFromKeys(keys).encrypt('a photo', 'shared');
+
+    const unlocked = await unlockKeyring(withFriends, friendsPassword);
+
+    expect(unlocked.slot).toBe('friends');
+    expect([...unlocked.keys.keys()]).toEqual(['shared']);
+    const decrypted = await sessionFromKeys(unlocked.keys).decrypt(envelope);
+    expect(new TextDecoder().decode(decrypted)).toBe('a photo');
+    expect(keyringLevels(withFriends)).toEqual(levels);
+  });
+
+  it('should remove slots but never the last one', async () => {
+    const { keyring, keys } = await createKeyring(oldPassword, levels);
+    const withFriends = withSlot(keyring, await wrapSlot('friends', friendsPassword, keys));
+
+    const removed = removeSlot(withFriends, 'friends');
+
+    expect(removed.slots.map(slot => slot.name)).toEqual(['owner']);
+    await expect(unlockKeyring(removed, friendsPassword)).rejects.toThrow('Incorrect password');
+    expect(() => removeSlot(removed, 'owner')).toThrow('last key slot');
+    expect(() => removeSlot(removed, 'nobody')).toThrow('No key slot named "nobody"');
+  });
+
+  it('should rotate the password without touching encrypted content', async () => {
+    const { keyring, keys } = await createKeyring(oldPassword, levels);
+    const envelope = await sessionFromKeys(keys).encrypt('still readable', 'private');
+
+    const rotated = await rekeyKeyring(keyring, oldPassword, newPassword);
+
+    expect(rotated.slots[0].salt).not.toEqual(keyring.slots[0].salt);
+    await expect(unlockKeyring(rotated, oldPassword)).rejects.toThrow('Incorrect password');
+
+    const session = sessionFromKeys((await unlockKeyring(rotated, newPassword)).keys);
+    expect(new TextDecoder().decode(await session.decrypt(envelope))).toBe('still readable');
+  });
+
+  it('should only rekey the slot the current password opens', async () => {
+    const { keyring, keys } = await createKeyring(oldPassword, levels);
+    const withFriends = withSlot(keyring, await wrapSlot('friends', friendsPassword, keys));
+
+    const rotated = await rekeyKeyring(withFriends, friendsPassword, newPassword);
+
+    expect(rotated.slots[0]).toEqual(withFriends.slots[0]);
+    expect((await unlockKeyring(rotated, newPassword)).slot).toBe('friends');
+  });
+
+  it('should refuse to rekey with the wrong current password', async () => {
+    const { keyring } = await createKeyring(oldPassword, levels);
+
+    await expect(rekeyKeyring(keyring, 'wrong', newPassword)).rejects.toThrow(
+      'Incorrect password'
+    );
+  });
+
+  it('should read a v1 keyring as an owner slot with the legacy master key', async () => {
+    const salt = generateSalt();
+    const masterKey = await generateMasterKey();
+    const wrappingKey = await deriveWrappingKey(oldPassword, salt, LEGACY_KDF);
+    const wrapped = await wrapKey(masterKey, wrappingKey);
+    const v1 = {
+      v: 1,
+      kdf: LEGACY_KDF,
+      salt: bytesToBase64(salt),
+      wrappedMasterKey: bytesToBase64(wrapped),
+    };
+
+    const { slot, keys } = await unlockKeyring(parseKeyring(v1), oldPassword);
+
+    expect(slot).toBe('owner');
+    expect([...keys.keys()]).toEqual(['master']);
+  });
+
+  it('should reject malformed keyrings', () => {
+    expect(() => parseKeyring({ v: 3 })).toThrow('unsupported version');
+    expect(() => parseKeyring({ v: 2, slots: [] })).toThrow('no key slots');
+    expect(() =>
+      parseKeyring({
+        v: 2,
+        slots: [
+          {
+            name: 'owner',
+            kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: 1000 },
+            salt: 'AAAA',
+            keys: { private: 'AAAA' },
+          },
+        ],
+      })
+    ).toThrow('malformed wrapped key for "private"');
+  });
+});
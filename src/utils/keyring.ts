@@ -0,0 +1,280 @@
+/**
+ * Keyring holding the access-level master keys, wrapped under one or more passwords
+ * Content files are encrypted with random per-file data keys wrapped by the master key
+ * of their category's access level, so rotating a password only rewrites this small
+ * record (public/keyring.json).
+ * @remarks Works like LUKS key slots: each slot wraps some of the level keys under its
+ * own password, so several passwords can unlock the same content and a slot can be
+ * limited to some access levels. Unwrapping doubles as the password check: AES-KW
+ * fails its integrity check under the wrong password-derived key.
+ */
+
+import {
+  deriveWrappingKey,
+  generateMasterKey,
+  generateSalt,
+  unwrapMasterKey,
+  wrapKey,
+} from './crypto-utils';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { LEGACY_KEY_ID, readBase64Field, WRAPPED_KEY_LENGTH } from './envelope';
+import { isObject, type JsonObject } from './json-guards';
+import { DEFAULT_KDF, parseKdfParams, type KdfParams } from './kdf';
+
+export const KEYRING_VERSION = 2;
+
+/** Site-absolute URL of the keyring (written to public/keyring.json) */
+export const KEYRING_URL = '/keyring.json';
+
+/** Message of the error thrown when a password opens no key slot */
+export const INCORRECT_PASSWORD = 'Incorrect password';
+
+/**
+ * One password's view of the keyring
+ */
+export interface KeySlot {
+  name: string;
+  kdf: KdfParams;
+  salt: Uint8Array;
+  /** Access-level master keys, each wrapped with AES-KW under the password-derived key */
+  wrappedKeys: Record<string, Uint8Array>;
+}
+
+export interface Keyring {
+  version: typeof KEYRING_VERSION;
+  slots: KeySlot[];
+}
+
+/**
+ * Result of unlocking a keyring: the slot the password opened and its level keys
+ */
+export interface UnlockedSlot {
+  slot: string;
+  keys: Map<string, CryptoKey>;
+}
+
+interface KeySlotJSON {
+  name: string;
+  kdf: KdfParams;
+  salt: string;
+  keys: Record<string, string>;
+}
+
+interface KeyringJSON {
+  v: typeof KEYRING_VERSION;
+  slots: KeySlotJSON[];
+}
+
+function readWrappedKey(value: unknown, level: string): Uint8Array {
+  const wrapped = typeof value === 'string' ? base64ToBytes(value) : null;
+  if (!wrapped || wrapped.length !== WRAPPED_KEY_LENGTH) {
+    throw new Error(`Invalid keyring: malformed wrapped key for "${level}"`);
+  }
+  return wrapped;
+}
+
+function parseSlot(value: unknown): KeySlot {
+  if (!isObject(value) || typeof value.name !== 'string' || !isObject(value.keys)) {
+    throw new Error('Invalid keyring: malformed key slot');
+  }
+
+  const wrappedKeys: Record<string, Uint8Array> = {};
+  for (const [level, wrapped] of Object.entries(value.keys)) {
+    wrappedKeys[level] = readWrappedKey(wrapped, level);
+  }
+
+  return {
+    name: value.name,
+    kdf: parseKdfParams(value.kdf),
+    salt: readBase64Field(value, 'salt'),
+    wrappedKeys,
+  };
+}
+
+/**
+ * Reads the v1 keyring: a single master key under the site password
+ */
+function parseLegacyKeyring(value: JsonObject): Keyring {
+  return {
+    version: KEYRING_VERSION,
+    slots: [
+      {
+        name: 'owner',
+        kdf: parseKdfParams(value.kdf),
+        salt: readBase64Field(value, 'salt'),
+        wrappedKeys: { [LEGACY_KEY_ID]: readWrappedKey(value.wrappedMasterKey, 'master key') },
+      },
+    ],
+  };
+}
+
+/**
+ * Parses keyring JSON text or an already-parsed value
+ * @remarks A v1 keyring is read as one "owner" slot holding the legacy master key
+ * @throws If the keyring is malformed or from an unsupported version
+ */
+export function parseKeyring(input: unknown): Keyring {
+  const value: unknown = typeof input === 'string' ? JSON.parse(input) : input;
+
+  if (isObject(value) && value.v === 1) {
+    return parseLegacyKeyring(value);
+  }
+  if (!isObject(value) || value.v !== KEYRING_VERSION) {
+    throw new Error('Invalid keyring: unsupported version');
+  }
+  if (!Array.isArray(value.slots) || value.slots.length === 0) {
+    throw new Error('Invalid keyring: no key slots');
+  }
+
+  return { version: KEYRING_VERSION, slots: value.slots.map(parseSlot) };
+}
+
+/**
+ * Serializes a keyring to the JSON text stored in public/keyring.json
+ */
+export function serializeKeyring(keyring: Keyring): string {
+  const json: KeyringJSON = {
+    v: KEYRING_VERSION,
+    slots: keyring.slots.map(slot => ({
+      name: slot.name,
+      kdf: { ...slot.kdf },
+      salt: bytesToBase64(slot.salt),
+      keys: Object.fromEntries(
+        Object.entries(slot.wrappedKeys).map(([level, wrapped]) => [level, bytesToBase64(wrapped)])
+      ),
+    })),
+  };
+
+  return JSON.stringify(json, null, 2) + '\n';
+}
+
+/**
+ * Access levels any slot in the keyring can unlock
+ */
+export function keyringLevels(keyring: Keyring): string[] {
+  return [...new Set(keyring.slots.flatMap(slot => Object.keys(slot.wrappedKeys)))];
+}
+
+/**
+ * Wraps level keys under a password into a new slot with a fresh salt
+ * @param keys - Extractable level master keys the slot should grant
+ */
+export async function wrapSlot(
+  name: string,
+  password: string,
+  keys: Map<string, CryptoKey>,
+  kdf: KdfParams = DEFAULT_KDF
+): Promise<KeySlot> {
+  const salt = generateSalt();
+  const wrappingKey = await deriveWrappingKey(password, salt, kdf);
+
+  const wrappedKeys: Record<string, Uint8Array> = {};
+  for (const [level, key] of keys) {
+    wrappedKeys[level] = await wrapKey(key, wrappingKey);
+  }
+
+  return { name, kdf: { ...kdf }, salt, wrappedKeys };
+}
+
+/**
+ * Returns a keyring with the slot added, or replacing the slot of the same name
+ */
+export function withSlot(keyring: Keyring, slot: KeySlot): Keyring {
+  const index = keyring.slots.findIndex(s => s.name === slot.name);
+  const slots = [...keyring.slots];
+  if (index === -1) {
+    slots.push(slot);
+  } else {
+    slots[index] = slot;
+  }
+  return { version: KEYRING_VERSION, slots };
+}
+
+/**
+ * Returns a keyring without the named slot
+ * @throws If the slot does not exist or is the last one
+ */
+export function removeSlot(keyring: Keyring, name: string): Keyring {
+  if (!keyring.slots.some(slot => slot.name === name)) {
+    throw new Error(`No key slot named "${name}"`);
+  }
+  if (keyring.slots.length === 1) {
+    throw new Error('Cannot remove the last key slot');
+  }
+  return { version: KEYRING_VERSION, slots: keyring.slots.filter(slot => slot.name !== name) };
+}
+
+/**
+ * Creates a keyring with one slot and a newly generated master key per access level
+ * @returns The keyring and the (extractable) level keys it wraps
+ */
+export async function createKeyring(
+  password: string,
+  levels: string[],
+  slotName = 'owner',
+  kdf: KdfParams = DEFAULT_KDF
+): Promise<{ keyring: Keyring; keys: Map<string, CryptoKey> }> {
+  const keys = new Map<string, CryptoKey>();
+  for (const level of levels) {
+    keys.set(level, await generateMasterKey());
+  }
+
+  const slot = await wrapSlot(slotName, password, keys, kdf);
+  return { keyring: { version: KEYRING_VERSION, slots: [slot] }, keys };
+}
+
+async function unlockSlot(
+  slot: KeySlot,
+  password: string,
+  extractable: boolean
+): Promise<Map<string, CryptoKey> | null> {
+  const wrappingKey = await deriveWrappingKey(password, slot.salt, slot.kdf);
+  const keys = new Map<string, CryptoKey>();
+
+  try {
+    for (const [level, wrapped] of Object.entries(slot.wrappedKeys)) {
+      keys.set(level, await unwrapMasterKey(wrapped, wrappingKey, extractable));
+    }
+  } catch {
+    return null;
+  }
+  return keys;
+}
+
+/**
+ * Unwraps the level keys of the first slot the password opens
+ * @remarks Slots are tried in order, so each costs one key derivation
+ * @param extractable - Only true when the keys must be re-wrapped (rekey, new slots)
+ * @throws Error('Incorrect password') if the password opens no slot
+ */
+export async function unlockKeyring(
+  keyring: Keyring,
+  password: string,
+  extractable = false
+): Promise<UnlockedSlot> {
+  for (const slot of keyring.slots) {
+    const keys = await unlockSlot(slot, password, extractable);
+    if (keys) {
+      return { slot: slot.name, keys };
+    }
+  }
+  throw new Error(INCORRECT_PASSWORD);
+}
+
+/**
+ * Re-wraps the keys of the slot the current password opens under a new password
+ * Content files are untouched because their data keys are wrapped by the level keys.
+ * @param kdf - KDF parameters for the new password (defaults to the slot's current ones)
+ * @throws Error('Incorrect password') if the current password opens no slot
+ */
+export async function rekeyKeyring(
+  keyring: Keyring,
+  currentPassword: string,
+  newPassword: string,
+  kdf?: KdfParams
+): Promise<Keyring> {
+  const { slot: name, keys } = await unlockKeyring(keyring, currentPassword, true);
+  const current = keyring.slots.find(slot => slot.name === name);
+
+  return withSlot(keyring, await wrapSlot(name, newPassword, keys, kdf ?? current?.kdf));
+}
@@ -0,0 +1,68 @@
+/**
+ * Files encrypted in one section per access level
+ * The manifest and the search index group their categories by access level and
+ * encrypt each group under that level's key, so a password only reveals the
+ * sections of the levels it unlocks.
+ */
+
+import { accessLevelOf } from './content-categories';
+import { envelopeToJSON, parseEnvelope } from './envelope';
+import { isObject } from './json-guards';
+import type { ContentSession } from './session';
+
+/**
+ * Groups per-category values by the access level of their category
+ * @throws If a category is not configured
+ */
+export function groupByLevel<T>(categories: Record<string, T>): Record<string, Record<string, T>> {
+  const byLevel: Record<string, Record<string, T>> = {};
+  for (const [category, value] of Object.entries(categories)) {
+    const level = accessLevelOf(category);
+    byLevel[level] ??= {};
+    byLevel[level][category] = value;
+  }
+  return byLevel;
+}
+
+/**
+ * Encrypts each level's plaintext under that level's key
+ * @returns JSON of `{ v, sections }`, with an envelope per level
+ */
+export async function encryptLevelSections(
+  sections: Record<string, string>,
+  session: ContentSession,
+  version: number
+): Promise<string> {
+  const encrypted: Record<string, unknown> = {};
+  for (const [level, plaintext] of Object.entries(sections)) {
+    encrypted[level] = envelopeToJSON(await session.encrypt(plaintext, level));
+  }
+
+  return JSON.stringify({ v: version, sections: encrypted });
+}
+
+/**
+ * Decrypts the sections the session can open, skipping locked levels
+ * @param name - What the file holds, for errors
+ * @throws If the file is not of this version, or a section fails to decrypt
+ */
+export async function decryptLevelSections(
+  json: string,
+  session: ContentSession,
+  version: number,
+  name: string
+): Promise<string[]> {
+  const value: unknown = JSON.parse(json);
+  if (!isObject(value) || value.v !== version || !isObject(value.sections)) {
+    throw new Error(`Invalid ${name}: unsupported version`);
+  }
+
+  const sections: string[] = [];
+  for (const [level, envelopeJson] of Object.entries(value.sections)) {
+    if (session.keys.has(level)) {
+      const plaintext = await session.decrypt(parseEnvelope(envelopeJson));
+      sections.push(new TextDecoder().decode(plaintext));
+    }
+  }
+  return sections;
+}
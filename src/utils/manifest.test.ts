@@ -0,0 +1,162 @@
+/**
+ * Test suite for the encrypted content manifest
+ * Tests encryption round-trips, validation, and fetching
+ */
+
+import { describe, it, expect, vi, afterEach, beforeAll } from 'vitest';
+import {
+  encryptManifest,
+  decryptManifest,
+  fetchManifest,
+  parseManifest,
+  MANIFEST_URL,
+  ContentManifest,
+} from './manifest';
+import { createSession, sessionFromKeys, ContentSession } from './session';
+
+describe('Content manifest', () => {
+  const testPassword = 'ManifestPassword#1';
+
+  const manifest: ContentManifest = {
+    version: 2,
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    categories: {
+      poems: [
+        {
+          path: '/objects/0123456789abcdef0123456789abcdef.enc',
+          name: 'lake.md',
+          relativePath: 'summer/lake.md',
+          size: 42,
+          contentType: 'text/markdown',
+          sha256: 'ab'.repeat(32),
+        },
+      ],
+      pictures: [],
+    },
+  };
+
+  let session: ContentSession;
+
+  beforeAll(async () => {
+    ({ session } = await createSession(testPassword));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should round-trip through encryption', async () => {
+    const encrypted = await encryptManifest(manifest, session);
+
+    expect(encrypted).not.toContain('lake.md');
+    expect(encrypted).not.toContain('summer');
+    expect(await decryptManifest(encrypted, session)).toEqual(manifest);
+  });
+
+  it('should fail to decrypt under a different session', async () => {
+    const encrypted = await encryptManifest(manifest, session);
+    const { session: other } = await createSession('wrong');
+
+    await expect(decryptManifest(encrypted, other)).rejects.toThrow();
+  });
+
+  it('should only reveal categories from unlocked access levels', async () => {
+    const encrypted = await encryptManifest(manifest, session);
+    const friends = sessionFromKeys(new Map([['shared', session.keys.get('shared')!]]));
+
+    const loaded = await decryptManifest(encrypted, friends);
+
+    expect(loaded.categories).toEqual({ pictures: [] });
+    expect(JSON.parse(encrypted).sections).toHaveProperty('private');
+  });
+
+  it('should reject unsupported versions', () => {
+    expect(() => parseManifest(JSON.stringify({ ...manifest, version: 3 }))).toThrow(
+      'unsupported version'
+    );
+  });
+
+  it('should read version 1 entries as top-level files', () => {
+    const { relativePath: _relativePath, ...entry } = manifest.categories.poems[0];
+    const v1 = { ...manifest, version: 1, categories: { poems: [entry] } };
+
+    expect(parseManifest(JSON.stringify(v1)).categories.poems[0].relativePath).toBe('lake.md');
+  });
+
+  it('should reject malformed entries', () => {
+    const broken = { ...manifest, categories: { poems: [{ path: '/poems/x.enc' }] } };
+
+    expect(() => parseManifest(JSON.stringify(broken))).toThrow('malformed entry in "poems"');
+  });
+
+  it('should read image info and its variants', () => {
+    const variant = {
+      path: '/objects/fedcba9876543210fedcba9876543210.enc',
+      width: 320,
+      height: 240,
+      size: 9000,
+      contentType: 'image/webp',
+      sha256: 'cd'.repeat(32),
+    };
+    const image = { width: 4000, height: 3000, placeholder: '#336699', variants: [variant] };
+    const photo = {
+      ...manifest.categories.poems[0],
+      name: 'dawn.jpg',
+      relativePath: 'dawn.jpg',
+      contentType: 'image/jpeg',
+      image,
+    };
+    const withImage = { ...manifest, categories: { pictures: [photo] } };
+
+    expect(parseManifest(JSON.stringify(withImage)).categories.pictures[0].image).toEqual(image);
+    expect(parseManifest(JSON.stringify(manifest)).categories.poems[0]).not.toHaveProperty('image');
+
+    const badColor = { pictures: [{ ...photo, image: { ...image, placeholder: 'blue' } }] };
+    expect(() => parseManifest(JSON.stringify({ ...manifest, categories: badColor }))).toThrow(
+      'malformed image info in "pictures"'
+    );
+    const badVariant = {
+      pictures: [{ ...photo, image: { ...image, variants: [{ ...variant, width: 0 }] } }],
+    };
+    expect(() => parseManifest(JSON.stringify({ ...manifest, categories: badVariant }))).toThrow(
+      'malformed image variant in "pictures"'
+    );
+  });
+
+  it('should read entry metadata', () => {
+    const meta = { title: 'The Lake', date: '2025-07-14', tags: ['summer', 'water'] };
+    const poem = { ...manifest.categories.poems[0], meta };
+    const withMeta = { ...manifest, categories: { poems: [poem] } };
+
+    expect(parseManifest(JSON.stringify(withMeta)).categories.poems[0].meta).toEqual(meta);
+    expect(parseManifest(JSON.stringify(manifest)).categories.poems[0]).not.toHaveProperty('meta');
+
+    const badDate = { poems: [{ ...poem, meta: { ...meta, date: 'July 14th' } }] };
+    expect(() => parseManifest(JSON.stringify({ ...manifest, categories: badDate }))).toThrow(
+      'malformed metadata in "poems"'
+    );
+    const badTags = { poems: [{ ...poem, meta: { ...meta, tags: 'summer' } }] };
+    expect(() => parseManifest(JSON.stringify({ ...manifest, categories: badTags }))).toThrow(
+      'malformed metadata in "poems"'
+    );
+  });
+
+  it('should fetch and decrypt the manifest from the site root', async () => {
+    const encrypted = await encryptManifest(manifest, session);
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, text: async () => encrypted });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const loaded = await fetchManifest(session);
+
+    expect(fetchMock).toHaveBeenCalledWith(MANIFEST_URL);
+    expect(loaded.categories.poems[0].name).toBe('lake.md');
+  });
+
+  it('should report a missing manifest', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, statusText: 'Not Found' }));
+
+    await expect(fetchManifest(session)).rejects.toThrow(
+      'Failed to load content manifest: Not Found'
+    );
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Encrypted content manifest
+ * Lists every encrypted object per category; generated by the encryption CLI and
+ * loaded by the browser after unlock, since GitHub Pages cannot list directories.
+ * Objects have opaque names (see ./object-names), so this is the only place real
+ * file names and folders appear.
+ * @remarks Categories are grouped into one encrypted section per access level, so a
+ * password only reveals the listings of the levels it unlocks.
+ */
+
+import { isObject } from './json-guards';
+import { decryptLevelSections, encryptLevelSections, groupByLevel } from './level-sections';
+import type { ContentSession } from './session';
+
+export const MANIFEST_VERSION = 2;
+// Version 1 entries have no relativePath (files were flat, named after their .enc)
+const SUPPORTED_MANIFEST_VERSIONS = [1, MANIFEST_VERSION];
+
+/** Version of the public/manifest.enc wrapper around the per-level sections */
+export const MANIFEST_FILE_VERSION = 2;
+
+/** Site-absolute URL of the encrypted manifest (written to public/manifest.enc) */
+export const MANIFEST_URL = '/manifest.enc';
+
+export interface ManifestEntry {
+  /** Site-absolute URL of the encrypted object */
+  path: string;
+  /** Original file name */
+  name: string;
+  /** Original path within the category directory, '/'-separated */
+  relativePath: string;
+  /** Plaintext size in bytes */
+  size: number;
+  contentType: string;
+  /** SHA-256 of the plaintext, lowercase hex */
+  sha256: string;
+  /** Size, placeholder and smaller copies, for images in gallery categories */
+  image?: ImageInfo;
+  /** From the file's front matter or .meta.yml sidecar (see ./content-metadata) */
+  meta?: EntryMetadata;
+}
+
+export interface EntryMetadata {
+  title?: string;
+  /** Calendar date as YYYY-MM-DD */
+  date?: string;
+  tags?: string[];
+  description?: string;
+  /** Path within the category of an image shown with the file */
+  cover?: string;
+}
+
+/** A smaller copy of an image, encrypted as its own object */
+export interface ImageVariant {
+  /** Site-absolute URL of the encrypted object */
+  path: string;
+  width: number;
+  height: number;
+  /** Plaintext size in bytes */
+  size: number;
+  contentType: string;
+  /** SHA-256 of the plaintext, lowercase hex */
+  sha256: string;
+}
+
+export interface ImageInfo {
+  /** Dimensions of the original, upright */
+  width: number;
+  height: number;
+  /** Dominant colour as #rrggbb, shown until anything is decrypted */
+  placeholder: string;
+  /** Copies narrower than the original, narrowest first */
+  variants: ImageVariant[];
+}
+
+export interface ContentManifest {
+  version: typeof MANIFEST_VERSION;
+  generatedAt: string;
+  categories: Record<string, ManifestEntry[]>;
+}
+
+function isDimension(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function parseVariant(value: unknown, category: string): ImageVariant {
+  if (
+    !isObject(value) ||
+    typeof value.path !== 'string' ||
+    !isDimension(value.width) ||
+    !isDimension(value.height) ||
+    typeof value.size !== 'number' ||
+    typeof value.contentType !== 'string' ||
+    typeof value.sha256 !== 'string'
+  ) {
+    throw new Error(`Invalid manifest: malformed image variant in "${category}"`);
+  }
+
+  return {
+    path: value.path,
+    width: value.width,
+    height: value.height,
+    size: value.size,
+    contentType: value.contentType,
+    sha256: value.sha256,
+  };
+}
+
+function parseImageInfo(value: unknown, category: string): ImageInfo {
+  if (
+    !isObject(value) ||
+    !isDimension(value.width) ||
+    !isDimension(value.height) ||
+    typeof value.placeholder !== 'string' ||
+    !/^#[0-9a-f]{6}$/i.test(value.placeholder) ||
+    !Array.isArray(value.variants)
+  ) {
+    throw new Error(`Invalid manifest: malformed image info in "${category}"`);
+  }
+
+  return {
+    width: value.width,
+    height: value.height,
+    placeholder: value.placeholder,
+    variants: value.variants.map(variant => parseVariant(variant, category)),
+  };
+}
+
+function isOptionalString(value: unknown): value is string | undefined {
+  return value === undefined || typeof value === 'string';
+}
+
+function parseMetadata(value: unknown, category: string): EntryMetadata {
+  if (
+    !isObject(value) ||
+    !isOptionalString(value.title) ||
+    !isOptionalString(value.date) ||
+    (value.date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value.date)) ||
+    (value.tags !== undefined &&
+      !(Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string'))) ||
+    !isOptionalString(value.description) ||
+    !isOptionalString(value.cover)
+  ) {
+    throw new Error(`Invalid manifest: malformed metadata in "${category}"`);
+  }
+
+  // In the CLI's order, so the CLI sees an unchanged manifest as equal
+  return {
+    ...(value.title !== undefined && { title: value.title }),
+    ...(value.date !== undefined && { date: value.date }),
+    ...(value.tags !== undefined && { tags: value.tags }),
+    ...(value.description !== undefined && { description: value.description }),
+    ...(value.cover !== undefined && { cover: value.cover }),
+  };
+}
+
+function parseEntry(value: unknown, category: string, version: number): ManifestEntry {
+  if (
+    !isObject(value) ||
+    typeof value.path !== 'string' ||
+    typeof value.name !== 'string' ||
+    (version > 1 && typeof value.relativePath !== 'string') ||
+    typeof value.size !== 'number' ||
+    typeof value.contentType !== 'string' ||
+    typeof value.sha256 !== 'string'
+  ) {
+    throw new Error(`Invalid manifest: malformed entry in "${category}"`);
+  }
+
+  const entry: ManifestEntry = {
+    path: value.path,
+    name: value.name,
+    relativePath: typeof value.relativePath === 'string' ? value.relativePath : value.name,
+    size: value.size,
+    contentType: value.contentType,
+    sha256: value.sha256,
+  };
+  if (value.image !== undefined) {
+    entry.image = parseImageInfo(value.image, category);
+  }
+  if (value.meta !== undefined) {
+    entry.meta = parseMetadata(value.meta, category);
+  }
+  return entry;
+}
+
+/**
+ * Parses and validates decrypted manifest JSON
+ * @throws If the manifest is malformed or from an unsupported version
+ */
+export function parseManifest(json: string): ContentManifest {
+  const value: unknown = JSON.parse(json);
+
+  if (
+    !isObject(value) ||
+    typeof value.version !== 'number' ||
+    !SUPPORTED_MANIFEST_VERSIONS.includes(value.version)
+  ) {
+    throw new Error('Invalid manifest: unsupported version');
+  }
+  const { version } = value;
+  if (typeof value.generatedAt !== 'string' || !isObject(value.categories)) {
+    throw new Error('Invalid manifest: missing generatedAt or categories');
+  }
+
+  const categories: Record<string, ManifestEntry[]> = {};
+  for (const [category, entries] of Object.entries(value.categories)) {
+    if (!Array.isArray(entries)) {
+      throw new Error(`Invalid manifest: "${category}" must be a list`);
+    }
+    categories[category] = entries.map(entry => parseEntry(entry, category, version));
+  }
+
+  return { version: MANIFEST_VERSION, generatedAt: value.generatedAt, categories };
+}
+
+/**
+ * Encrypts a manifest into the JSON for public/manifest.enc
+ * Each category goes into the section of its access level.
+ */
+export async function encryptManifest(
+  manifest: ContentManifest,
+  session: ContentSession
+): Promise<string> {
+  const sections: Record<string, string> = {};
+  for (const [level, categories] of Object.entries(groupByLevel(manifest.categories))) {
+    sections[level] = JSON.stringify({ ...manifest, categories });
+  }
+
+  return encryptLevelSections(sections, session, MANIFEST_FILE_VERSION);
+}
+
+/**
+ * Decrypts the sections of public/manifest.enc the session can open
+ * Categories from locked access levels are left out.
+ * @throws If the manifest is malformed
+ */
+export async function decryptManifest(
+  json: string,
+  session: ContentSession
+): Promise<ContentManifest> {
+  const sections = await decryptLevelSections(json, session, MANIFEST_FILE_VERSION, 'manifest');
+
+  const manifest: ContentManifest = { version: MANIFEST_VERSION, generatedAt: '', categories: {} };
+  for (const plaintext of sections) {
+    const section = parseManifest(plaintext);
+    manifest.generatedAt = section.generatedAt;
+    Object.assign(manifest.categories, section.categories);
+  }
+
+  return manifest;
+}
+
+/**
+ * Fetches and decrypts the site manifest
+ * @param session - Unlocked session
+ * @param url - Manifest URL (defaults to {@link MANIFEST_URL})
+ */
+export async function fetchManifest(
+  session: ContentSession,
+  url: string = MANIFEST_URL
+): Promise<ContentManifest> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load content manifest: ${response.statusText}`);
+  }
+
+  return decryptManifest(await response.text(), session);
+}
@@ -0,0 +1,108 @@
+/**
+ * Test suite for decrypted media URLs
+ * Tests which types stream through a MediaSource, and feeding one past a full buffer
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { canStreamMedia, createMediaUrl } from './media-stream';
+import { bytesToStream } from './encoding';
+
+// Holds three one-second chunks, then refuses appends as Chrome does at its quota
+class FakeSourceBuffer extends EventTarget {
+  chunks: number[] = [];
+  private appended = 0;
+
+  get buffered() {
+    const chunks = this.chunks;
+    return {
+      length: chunks.length > 0 ? 1 : 0,
+      start: () => chunks[0],
+      end: () => chunks[chunks.length - 1] + 1,
+    };
+  }
+
+  appendBuffer(_data: Uint8Array) {
+    if (this.chunks.length >= 3) {
+      throw new DOMException('Buffer full', 'QuotaExceededError');
+    }
+    this.chunks.push(this.appended++);
+    queueMicrotask(() => this.dispatchEvent(new Event('updateend')));
+  }
+
+  remove(start: number, end: number) {
+    this.chunks = this.chunks.filter(second => second < start || second + 1 > end);
+    queueMicrotask(() => this.dispatchEvent(new Event('updateend')));
+  }
+}
+
+class FakeMediaSource extends EventTarget {
+  static isTypeSupported = () => true;
+  static last: FakeMediaSource;
+  readyState = 'open';
+  sourceBuffer = new FakeSourceBuffer();
+  endOfStream = vi.fn();
+
+  constructor() {
+    super();
+    FakeMediaSource.last = this;
+  }
+
+  addSourceBuffer() {
+    return this.sourceBuffer;
+  }
+}
+
+function chunks(count: number): ReadableStream<Uint8Array> {
+  return bytesToStream(new Uint8Array(count)).pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(bytes, controller) {
+        bytes.forEach(byte => controller.enqueue(new Uint8Array([byte])));
+      },
+    })
+  );
+}
+
+async function play(playbackTime?: () => number): Promise<FakeMediaSource> {
+  vi.stubGlobal('MediaSource', FakeMediaSource);
+  URL.createObjectURL = vi.fn(() => 'blob:track');
+
+  await createMediaUrl(chunks(5), 'audio/mpeg', { playbackTime });
+  const mediaSource = FakeMediaSource.last;
+  mediaSource.dispatchEvent(new Event('sourceopen'));
+  await vi.waitFor(() => expect(mediaSource.endOfStream).toHaveBeenCalled());
+  return mediaSource;
+}
+
+describe('Media streams', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should only stream formats a MediaSource plays from any file', () => {
+    expect(canStreamMedia('audio/mpeg')).toBe(false);
+
+    vi.stubGlobal('MediaSource', FakeMediaSource);
+
+    expect(canStreamMedia('audio/mpeg')).toBe(true);
+    expect(canStreamMedia('audio/webm')).toBe(true);
+    expect(canStreamMedia('audio/mp4')).toBe(false);
+    expect(canStreamMedia('video/mp4')).toBe(false);
+    expect(canStreamMedia('image/jpeg')).toBe(false);
+  });
+
+  it('should drop played media when the buffer is full', async () => {
+    const mediaSource = await play(() => 40);
+
+    expect(mediaSource.endOfStream).toHaveBeenCalledWith();
+    expect(mediaSource.sourceBuffer.chunks).toEqual([3, 4]);
+  });
+
+  it('should end with an error when a full buffer cannot be freed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const mediaSource = await play();
+
+    expect(mediaSource.endOfStream).toHaveBeenCalledWith('decode');
+  });
+});
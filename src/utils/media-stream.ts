@@ -0,0 +1,147 @@
+/**
+ * Object URLs for decrypted media streams
+ * Audio and video the browser can demux incrementally are fed to a MediaSource
+ * as segments are decrypted, so playback starts before the download finishes.
+ * Images are not: an `<img>` only renders from a Blob once every byte is there.
+ */
+
+import { streamToBytes } from './encoding';
+
+// Byte-stream formats a MediaSource plays from any ordinary file. MP4 (.m4a, phone
+// videos) is left out: it must be fragmented, which most files are not.
+const STREAMABLE_TYPES = ['audio/mpeg', 'audio/webm', 'video/webm'];
+
+// Seconds of played media kept behind the playback position, for short seeks back
+const BACK_BUFFER_SECONDS = 30;
+
+// How long to wait for playback to advance when the buffer is full
+const FULL_BUFFER_WAIT_MS = 1000;
+
+/**
+ * Whether the browser can play this type from a MediaSource while it downloads
+ */
+export function canStreamMedia(mimeType: string): boolean {
+  return (
+    typeof MediaSource !== 'undefined' &&
+    STREAMABLE_TYPES.includes(mimeType) &&
+    MediaSource.isTypeSupported(mimeType)
+  );
+}
+
+export interface MediaUrlOptions {
+  /**
+   * Playback position of the element playing the URL, in seconds
+   * Lets a full buffer drop what has been played; without it a track too long for
+   * the browser's buffer stops where the buffer fills.
+   */
+  playbackTime?: () => number;
+}
+
+/**
+ * Creates an object URL for decrypted media
+ * Falls back to a Blob (available once the stream ends) for types a MediaSource
+ * cannot play from an ordinary file, such as MP4 and images.
+ * @returns URL to pass to an `<audio>`, `<video>` or `<img>`; release it with
+ * `URL.revokeObjectURL` when done
+ */
+export async function createMediaUrl(
+  stream: ReadableStream<Uint8Array>,
+  mimeType: string,
+  { playbackTime }: MediaUrlOptions = {}
+): Promise<string> {
+  if (!canStreamMedia(mimeType)) {
+    const bytes = new Uint8Array(await streamToBytes(stream));
+    return URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+  }
+
+  const mediaSource = new MediaSource();
+  mediaSource.addEventListener(
+    'sourceopen',
+    () => {
+      void feedMediaSource(mediaSource, stream, mimeType, playbackTime);
+    },
+    { once: true }
+  );
+  return URL.createObjectURL(mediaSource);
+}
+
+async function feedMediaSource(
+  mediaSource: MediaSource,
+  stream: ReadableStream<Uint8Array>,
+  mimeType: string,
+  playbackTime: (() => number) | undefined
+): Promise<void> {
+  const sourceBuffer = mediaSource.addSourceBuffer(mimeType);
+  const reader = stream.getReader();
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        mediaSource.endOfStream();
+        return;
+      }
+
+      while (!(await appendChunk(sourceBuffer, value))) {
+        if (!playbackTime) {
+          throw new Error('Media buffer is full');
+        }
+        await freeBuffer(sourceBuffer, playbackTime());
+        // The element let go of the URL (another track, or closed) while waiting
+        if (mediaSource.readyState !== 'open') {
+          await reader.cancel();
+          return;
+        }
+      }
+    }
+  } catch (err) {
+    console.error('Failed to stream media:', err);
+    await reader.cancel(err).catch(() => undefined);
+    if (mediaSource.readyState === 'open') {
+      mediaSource.endOfStream('decode');
+    }
+  }
+}
+
+/**
+ * Appends a chunk once the buffer has finished its previous update
+ * @returns False if the buffer is full (the browser's quota, ~12 MB of audio in Chrome)
+ */
+function appendChunk(sourceBuffer: SourceBuffer, chunk: Uint8Array): Promise<boolean> {
+  return new Promise<boolean>((resolve, reject) => {
+    try {
+      sourceBuffer.appendBuffer(new Uint8Array(chunk));
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+        resolve(false);
+        return;
+      }
+      throw err;
+    }
+    sourceBuffer.addEventListener('updateend', () => resolve(true), { once: true });
+    sourceBuffer.addEventListener('error', () => reject(new Error('Media append failed')), {
+      once: true,
+    });
+  });
+}
+
+/**
+ * Drops media played long enough ago, or waits for playback to advance when none has
+ */
+async function freeBuffer(sourceBuffer: SourceBuffer, currentTime: number): Promise<void> {
+  const { buffered } = sourceBuffer;
+  const start = buffered.length > 0 ? buffered.start(0) : 0;
+  const end = currentTime - BACK_BUFFER_SECONDS;
+
+  if (end <= start) {
+    await new Promise(resolve => window.setTimeout(resolve, FULL_BUFFER_WAIT_MS));
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    sourceBuffer.addEventListener('updateend', () => resolve(), { once: true });
+    sourceBuffer.addEventListener('error', () => reject(new Error('Media removal failed')), {
+      once: true,
+    });
+    sourceBuffer.remove(start, end);
+  });
+}
@@ -0,0 +1,41 @@
+/**
+ * MIME type lookup for content files
+ * Shared by the encryption CLI (manifest generation) and the browser
+ */
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  json: 'application/json',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  svg: 'image/svg+xml',
+  html: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+};
+
+/**
+ * Determine MIME type from filename
+ */
+export function getMimeType(filename: string): string {
+  const ext = filename.split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES[ext] || 'application/octet-stream';
+}
+
+/**
+ * Whether a MIME type is text that compresses well (poems, writing, markup)
+ */
+export function isTextType(mimeType: string): boolean {
+  return (
+    mimeType.startsWith('text/') || mimeType === 'application/json' || mimeType === 'image/svg+xml'
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * Test suite for opaque object names
+ * Tests that names are stable, keyed, and reveal nothing about the file
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deriveNamingKey, objectName } from './object-names';
+import { generateMasterKey } from './crypto-utils';
+
+describe('Object names', () => {
+  it('should be stable for the same level key, category and path', async () => {
+    const levelKey = await generateMasterKey();
+
+    const first = await objectName(await deriveNamingKey(levelKey), 'poems', 'summer/lake.md');
+    const second = await objectName(await deriveNamingKey(levelKey), 'poems', 'summer/lake.md');
+
+    expect(first).toMatch(/^[0-9a-f]{32}$/);
+    expect(second).toBe(first);
+  });
+
+  it('should depend on the category, the path and the level key', async () => {
+    const namingKey = await deriveNamingKey(await generateMasterKey());
+    const otherKey = await deriveNamingKey(await generateMasterKey());
+    const name = await objectName(namingKey, 'poems', 'lake.md');
+
+    expect(await objectName(namingKey, 'writing', 'lake.md')).not.toBe(name);
+    expect(await objectName(namingKey, 'poems', 'summer/lake.md')).not.toBe(name);
+    expect(await objectName(otherKey, 'poems', 'lake.md')).not.toBe(name);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Opaque names for encrypted objects
+ * Encrypted files are published as /objects/<name>.enc, where the name is an HMAC
+ * of the category and the file's path within it. The real names and folders only
+ * appear inside the encrypted manifest.
+ * @remarks Names are stable across runs (so unchanged files keep their object) and
+ * cannot be computed without the access-level key.
+ */
+
+/** Directory under public/ (and URL prefix) holding the encrypted objects */
+export const OBJECTS_DIR = 'objects';
+
+/** Hex characters kept from the HMAC (128 bits) */
+const OBJECT_NAME_LENGTH = 32;
+
+const NAMING_INFO = new TextEncoder().encode('buhbuh object names v1');
+
+/**
+ * Derives the HMAC key for object names from an access-level master key
+ * HKDF keeps the naming key separate from the key-wrapping use of the level key.
+ * @param levelKey - Extractable level master key (the CLI unlocks them extractable)
+ */
+export async function deriveNamingKey(levelKey: CryptoKey): Promise<CryptoKey> {
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', levelKey));
+  try {
+    const hkdfKey = await crypto.subtle.importKey('raw', raw, 'HKDF', false, ['deriveKey']);
+    return await crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: NAMING_INFO },
+      hkdfKey,
+      { name: 'HMAC', hash: 'SHA-256', length: 256 },
+      false,
+      ['sign']
+    );
+  } finally {
+    raw.fill(0);
+  }
+}
+
+/**
+ * Computes the object name for a content file
+ * @param category - Content category id
+ * @param relativePath - Path within the category directory, '/'-separated
+ * @returns Lowercase hex name, without the .enc suffix
+ */
+export async function objectName(
+  namingKey: CryptoKey,
+  category: string,
+  relativePath: string
+): Promise<string> {
+  const mac = await crypto.subtle.sign(
+    'HMAC',
+    namingKey,
+    new TextEncoder().encode(`${category}/${relativePath}`)
+  );
+
+  return Array.from(new Uint8Array(mac), byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .slice(0, OBJECT_NAME_LENGTH);
+}
@@ -0,0 +1,64 @@
+/**
+ * Test suite for the offline cache rules
+ * Tests cache keys, invalidation by content hash and which responses are kept
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  contentCacheKey,
+  isCacheableResponse,
+  staleContentKeys,
+  type OfflineBuild,
+} from './offline-cache';
+
+const build: OfflineBuild = {
+  version: 'v2',
+  shell: ['/index.html', '/assets/index-abc.js'],
+  content: {
+    '/manifest.enc': '1111111111111111',
+    '/objects/aaaa.enc': '2222222222222222',
+    '/objects/bbbb.enc': '3333333333333333',
+  },
+};
+
+describe('Offline cache', () => {
+  it('should key encrypted files by path and content hash', () => {
+    expect(contentCacheKey('/objects/aaaa.enc', build)).toBe(
+      '/objects/aaaa.enc?v=2222222222222222'
+    );
+    expect(contentCacheKey('/manifest.enc', build)).toBe('/manifest.enc?v=1111111111111111');
+  });
+
+  it('should not key files the build does not list', () => {
+    expect(contentCacheKey('/objects/cccc.enc', build)).toBeNull();
+    expect(contentCacheKey('/index.html', build)).toBeNull();
+    expect(contentCacheKey('toString', build)).toBeNull();
+  });
+
+  it('should find removed files and old versions', () => {
+    const cached = [
+      'https://example.com/objects/aaaa.enc?v=2222222222222222',
+      'https://example.com/objects/bbbb.enc?v=0000000000000000',
+      'https://example.com/objects/gone.enc?v=4444444444444444',
+      'https://example.com/manifest.enc?v=1111111111111111',
+      'https://example.com/objects/aaaa.enc',
+    ];
+
+    expect(staleContentKeys(cached, build)).toEqual([
+      'https://example.com/objects/bbbb.enc?v=0000000000000000',
+      'https://example.com/objects/gone.enc?v=4444444444444444',
+      'https://example.com/objects/aaaa.enc',
+    ]);
+  });
+
+  it('should only keep complete same-origin responses', () => {
+    const response = (status: number, type: Response['type'], redirected = false) =>
+      ({ status, type, redirected }) as Response;
+
+    expect(isCacheableResponse(response(200, 'basic'))).toBe(true);
+    expect(isCacheableResponse(response(206, 'basic'))).toBe(false);
+    expect(isCacheableResponse(response(404, 'basic'))).toBe(false);
+    expect(isCacheableResponse(response(0, 'opaque'))).toBe(false);
+    expect(isCacheableResponse(response(200, 'basic', true))).toBe(false);
+  });
+});
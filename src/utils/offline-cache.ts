@@ -0,0 +1,65 @@
+/**
+ * Offline cache rules shared by the service worker and the page
+ * The build lists the app shell and a hash of every encrypted file; the service
+ * worker stores encrypted files under `<path>?v=<hash>`, so a re-encrypted file
+ * (same opaque name, new bytes) misses the cache and the old copy is dropped.
+ * @remarks Only what the server sends is cached: ciphertext, the public keyring and
+ * the app shell. Decrypted content never reaches Cache Storage.
+ */
+
+/** Description of a build, generated by the `offlineCache` Vite plugin */
+export interface OfflineBuild {
+  /** Changes whenever the shell or any encrypted file changes */
+  version: string;
+  /** Site-absolute URLs of the app shell */
+  shell: string[];
+  /** Content hash of every encrypted file (and the keyring), by site-absolute URL */
+  content: Record<string, string>;
+}
+
+export const SHELL_CACHE_PREFIX = 'buhbuh-shell-';
+
+/** Holds encrypted files across builds; stale entries are pruned on activation */
+export const CONTENT_CACHE = 'buhbuh-content';
+
+/** Precached at install, so a returning visitor can unlock and search without a connection */
+export const PRECACHED_CONTENT = ['/manifest.enc', '/search-index.enc', '/keyring.json'];
+
+/**
+ * Cache key of an encrypted file in this build, or null if the build doesn't list it
+ */
+export function contentCacheKey(path: string, build: OfflineBuild): string | null {
+  const hash = Object.hasOwn(build.content, path) ? build.content[path] : undefined;
+  return hash ? `${path}?v=${hash}` : null;
+}
+
+/**
+ * Cached keys that no longer match this build: removed files and old versions
+ * @param cachedUrls - Absolute or site-absolute URLs of the cached requests
+ */
+export function staleContentKeys(cachedUrls: string[], build: OfflineBuild): string[] {
+  return cachedUrls.filter(url => {
+    const { pathname, search } = new URL(url, 'https://cache.invalid');
+    return contentCacheKey(pathname, build) !== `${pathname}${search}`;
+  });
+}
+
+/**
+ * Whether a response is a complete copy worth keeping
+ * Partial (206), redirected and opaque responses are left to the network.
+ */
+export function isCacheableResponse(response: Response): boolean {
+  return response.status === 200 && response.type === 'basic' && !response.redirected;
+}
+
+/** Requests the page sends to the service worker */
+export type OfflineRequest =
+  | { type: 'status'; paths: string[] }
+  | { type: 'save'; paths: string[] }
+  | { type: 'remove'; paths: string[] };
+
+/** Replies from the service worker; `save` sends progress before its final reply */
+export type OfflineReply =
+  | { type: 'status'; cached: number; total: number }
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'error'; message: string };
@@ -0,0 +1,98 @@
+/**
+ * Test suite for the audio play queue
+ * Tests ordering, wrapping at the ends, repeat modes and shuffle
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createQueue,
+  currentTrack,
+  cycleRepeat,
+  jumpTo,
+  setShuffle,
+  skipNext,
+  skipPrevious,
+} from './play-queue';
+
+const TRACKS = ['a', 'b', 'c', 'd', 'e'];
+
+/**
+ * Deterministic stand-in for Math.random
+ */
+function seeded(seed = 1): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+describe('Play queue', () => {
+  it('should start at the chosen track and play in listing order', () => {
+    let queue = createQueue(TRACKS, 2);
+    const played = [currentTrack(queue)];
+
+    for (let next = skipNext(queue); next; next = skipNext(next)) {
+      played.push(currentTrack(next));
+      queue = next;
+    }
+
+    expect(played).toEqual(['c', 'd', 'e']);
+    expect(currentTrack(skipPrevious(queue))).toBe('d');
+  });
+
+  it('should wrap around only when repeating all', () => {
+    const last = createQueue(TRACKS, 4);
+    const first = createQueue(TRACKS, 0);
+
+    expect(skipNext(last)).toBeNull();
+    expect(skipPrevious(first)).toBe(first);
+    expect(currentTrack(skipNext({ ...last, repeat: 'all' })!)).toBe('a');
+    expect(currentTrack(skipPrevious({ ...first, repeat: 'all' }))).toBe('e');
+  });
+
+  it('should replay the track when it ends on repeat-one, but still skip on next', () => {
+    const queue = createQueue(TRACKS, 1, { repeat: 'one' });
+
+    expect(currentTrack(skipNext(queue, true)!)).toBe('b');
+    expect(currentTrack(skipNext(queue)!)).toBe('c');
+  });
+
+  it('should cycle repeat modes', () => {
+    const queue = createQueue(TRACKS, 0);
+
+    expect(cycleRepeat(queue).repeat).toBe('all');
+    expect(cycleRepeat(cycleRepeat(queue)).repeat).toBe('one');
+    expect(cycleRepeat(cycleRepeat(cycleRepeat(queue))).repeat).toBe('off');
+  });
+
+  it('should shuffle around the current track and visit every track once', () => {
+    let queue = setShuffle(createQueue(TRACKS, 3), true, seeded());
+    const played = [currentTrack(queue)];
+
+    for (let next = skipNext(queue); next; next = skipNext(next)) {
+      played.push(currentTrack(next));
+      queue = next;
+    }
+
+    expect(played[0]).toBe('d');
+    expect([...played].sort()).toEqual(TRACKS);
+  });
+
+  it('should keep the current track when shuffle is switched off', () => {
+    const shuffled = createQueue(TRACKS, 1, { shuffle: true }, seeded(7));
+    const moved = skipNext(skipNext(shuffled)!)!;
+
+    const unshuffled = setShuffle(moved, false);
+
+    expect(currentTrack(unshuffled)).toBe(currentTrack(moved));
+    expect(unshuffled.order).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should jump to a track from the listing', () => {
+    const queue = createQueue(TRACKS, 0, { shuffle: true }, seeded(3));
+
+    expect(currentTrack(jumpTo(queue, 4))).toBe('e');
+    expect(() => createQueue(TRACKS, 5)).toThrow('not in a queue of 5');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Play queue for the audio player
+ * Pure state transitions: the queue keeps the listing order of its tracks and a
+ * separate play order, so shuffle can be switched off again without losing the
+ * listing, and the current track stays put when shuffle is toggled.
+ */
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface PlayQueue<T> {
+  /** Tracks in listing order */
+  tracks: T[];
+  /** Play order, as indexes into tracks */
+  order: number[];
+  /** Index into order of the current track */
+  position: number;
+  shuffle: boolean;
+  repeat: RepeatMode;
+}
+
+/** Cycle used by the repeat button */
+const REPEAT_CYCLE: Record<RepeatMode, RepeatMode> = { off: 'all', all: 'one', one: 'off' };
+
+/**
+ * Fisher-Yates shuffle of the indexes other than `first`, which leads the order
+ */
+function shuffledOrder(length: number, first: number, random: () => number): number[] {
+  const rest = Array.from({ length }, (_, i) => i).filter(i => i !== first);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return [first, ...rest];
+}
+
+function listingOrder(length: number): number[] {
+  return Array.from({ length }, (_, i) => i);
+}
+
+/**
+ * Creates a queue starting at a track
+ * @param startIndex - Index into tracks of the first track to play
+ * @throws If the queue would be empty or the start is out of range
+ */
+export function createQueue<T>(
+  tracks: T[],
+  startIndex: number,
+  options: { shuffle?: boolean; repeat?: RepeatMode } = {},
+  random: () => number = Math.random
+): PlayQueue<T> {
+  if (startIndex < 0 || startIndex >= tracks.length) {
+    throw new Error(`Track ${startIndex} is not in a queue of ${tracks.length}`);
+  }
+
+  const shuffle = options.shuffle ?? false;
+  const order = shuffle
+    ? shuffledOrder(tracks.length, startIndex, random)
+    : listingOrder(tracks.length);
+
+  return {
+    tracks,
+    order,
+    position: order.indexOf(startIndex),
+    shuffle,
+    repeat: options.repeat ?? 'off',
+  };
+}
+
+/**
+ * The track at the current position
+ */
+export function currentTrack<T>(queue: PlayQueue<T>): T {
+  return queue.tracks[queue.order[queue.position]];
+}
+
+/**
+ * Moves to the next track
+ * @param ended - Whether the current track finished on its own; only then does
+ * repeat-one replay it (pressing next always moves on)
+ * @returns The new queue, or null when the end is reached and repeat is off
+ */
+export function skipNext<T>(queue: PlayQueue<T>, ended = false): PlayQueue<T> | null {
+  if (ended && queue.repeat === 'one') {
+    return queue;
+  }
+  if (queue.position + 1 < queue.order.length) {
+    return { ...queue, position: queue.position + 1 };
+  }
+  return queue.repeat === 'off' ? null : { ...queue, position: 0 };
+}
+
+/**
+ * Moves to the previous track, wrapping to the last one when repeating
+ * @returns The new queue (unchanged at the start of a non-repeating queue)
+ */
+export function skipPrevious<T>(queue: PlayQueue<T>): PlayQueue<T> {
+  if (queue.position > 0) {
+    return { ...queue, position: queue.position - 1 };
+  }
+  return queue.repeat === 'off' ? queue : { ...queue, position: queue.order.length - 1 };
+}
+
+/**
+ * Plays a track from the listing
+ * @param trackIndex - Index into tracks
+ */
+export function jumpTo<T>(queue: PlayQueue<T>, trackIndex: number): PlayQueue<T> {
+  const position = queue.order.indexOf(trackIndex);
+  return position === -1 ? queue : { ...queue, position };
+}
+
+/**
+ * Switches shuffle on or off, keeping the current track
+ * Shuffling puts the current track first so every other track still plays once.
+ */
+export function setShuffle<T>(
+  queue: PlayQueue<T>,
+  shuffle: boolean,
+  random: () => number = Math.random
+): PlayQueue<T> {
+  const current = queue.order[queue.position];
+  const order = shuffle
+    ? shuffledOrder(queue.tracks.length, current, random)
+    : listingOrder(queue.tracks.length);
+
+  return { ...queue, order, position: order.indexOf(current), shuffle };
+}
+
+/**
+ * Advances the repeat mode: off, then all, then one
+ */
+export function cycleRepeat<T>(queue: PlayQueue<T>): PlayQueue<T> {
+  return { ...queue, repeat: REPEAT_CYCLE[queue.repeat] };
+}
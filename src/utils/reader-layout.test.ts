@@ -0,0 +1,44 @@
+/**
+ * Test suite for reader text layout
+ * Tests stanza splitting and reading back stored preferences
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_READER_PREFERENCES,
+  parseReaderPreferences,
+  stepFontSize,
+  toStanzas,
+} from './reader-layout';
+
+describe('Reader layout', () => {
+  it('should split stanzas on blank lines and keep indentation', () => {
+    const poem = '\nThe lake was still\n  and so were we  \r\n\r\n \n\nThen the wind\n';
+
+    expect(toStanzas(poem)).toEqual([['The lake was still', '  and so were we'], ['Then the wind']]);
+  });
+
+  it('should treat text without blank lines as one stanza', () => {
+    expect(toStanzas('one\ntwo\nthree')).toEqual([['one', 'two', 'three']]);
+    expect(toStanzas('  \n\n')).toEqual([]);
+  });
+
+  it('should read stored preferences and fall back per field', () => {
+    expect(parseReaderPreferences('{"fontSize":22,"lineWidth":"wide"}')).toEqual({
+      fontSize: 22,
+      lineWidth: 'wide',
+    });
+    expect(parseReaderPreferences('{"fontSize":1000,"lineWidth":"wide"}')).toEqual({
+      fontSize: DEFAULT_READER_PREFERENCES.fontSize,
+      lineWidth: 'wide',
+    });
+    expect(parseReaderPreferences('not json')).toEqual(DEFAULT_READER_PREFERENCES);
+    expect(parseReaderPreferences(null)).toEqual(DEFAULT_READER_PREFERENCES);
+  });
+
+  it('should step font sizes within range', () => {
+    expect(stepFontSize(18, 1)).toBe(20);
+    expect(stepFontSize(14, -1)).toBe(14);
+    expect(stepFontSize(28, 1)).toBe(28);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Text layout for the reader
+ * Splits plain-text poems into stanzas and lines, and keeps the reader's font size
+ * and line width between visits.
+ */
+
+import { isObject } from './json-guards';
+
+/**
+ * Splits a poem into stanzas of lines
+ * Blank lines (even several, or ones holding only spaces) separate stanzas; each
+ * line keeps its leading indentation but loses trailing whitespace.
+ */
+export function toStanzas(text: string): string[][] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/)
+    .map(stanza =>
+      stanza
+        .split('\n')
+        .map(line => line.trimEnd())
+        .filter(line => line !== '')
+    )
+    .filter(stanza => stanza.length > 0);
+}
+
+export type LineWidth = 'narrow' | 'medium' | 'wide';
+
+export interface ReaderPreferences {
+  /** Body text size in pixels */
+  fontSize: number;
+  lineWidth: LineWidth;
+}
+
+export const READER_FONT_SIZES = [14, 16, 18, 20, 22, 24, 28];
+
+export const LINE_WIDTHS: LineWidth[] = ['narrow', 'medium', 'wide'];
+
+export const DEFAULT_READER_PREFERENCES: ReaderPreferences = { fontSize: 18, lineWidth: 'medium' };
+
+/** localStorage key for the reader preferences */
+export const READER_PREFERENCES_KEY = 'buhbuh:reader';
+
+/**
+ * Reads stored preferences, falling back to the defaults for anything missing or invalid
+ */
+export function parseReaderPreferences(stored: string | null): ReaderPreferences {
+  let value: unknown = null;
+  try {
+    value = stored ? JSON.parse(stored) : null;
+  } catch {
+    // Unreadable preferences are not worth an error: start over
+  }
+  if (!isObject(value)) {
+    return DEFAULT_READER_PREFERENCES;
+  }
+
+  return {
+    fontSize: READER_FONT_SIZES.includes(value.fontSize as number)
+      ? (value.fontSize as number)
+      : DEFAULT_READER_PREFERENCES.fontSize,
+    lineWidth: LINE_WIDTHS.includes(value.lineWidth as LineWidth)
+      ? (value.lineWidth as LineWidth)
+      : DEFAULT_READER_PREFERENCES.lineWidth,
+  };
+}
+
+/**
+ * Moves the font size one step up or down, staying within the available sizes
+ */
+export function stepFontSize(fontSize: number, step: 1 | -1): number {
+  const index = READER_FONT_SIZES.indexOf(fontSize);
+  const next = Math.min(Math.max(index + step, 0), READER_FONT_SIZES.length - 1);
+  return READER_FONT_SIZES[next];
+}
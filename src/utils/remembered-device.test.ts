@@ -0,0 +1,149 @@
+/**
+ * Test suite for remembering a device
+ * Tests wrapping under the device key, expiry and forgetting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateMasterKey } from './crypto-utils';
+import {
+  forgetDevice,
+  rememberDevice,
+  rememberedUntil,
+  restoreDevice,
+  type DeviceStore,
+  type RememberedDevice,
+} from './remembered-device';
+import { sessionFromKeys } from './session';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+function memoryStore(initial: unknown = null): DeviceStore & { record: unknown } {
+  const store = {
+    record: initial,
+    get: async () => store.record,
+    put: async (record: RememberedDevice) => {
+      store.record = record;
+    },
+    delete: async () => {
+      store.record = null;
+    },
+  };
+  return store;
+}
+
+async function levelKeys(): Promise<Map<string, CryptoKey>> {
+  return new Map([
+    ['public', await generateMasterKey()],
+    ['private', await generateMasterKey()],
+  ]);
+}
+
+describe('Remembered device', () => {
+  it('should restore keys that open content from the original session', async () => {
+    const store = memoryStore();
+    const keys = await levelKeys();
+    const envelope = await sessionFromKeys(keys).encrypt('remembered', 'private');
+
+    await rememberDevice(keys, 7, store, NOW);
+    const restored = await restoreDevice(store, NOW + DAY_MS);
+
+    expect([...restored!.keys()]).toEqual(['public', 'private']);
+    const decrypted = await sessionFromKeys(restored!).decrypt(envelope);
+    expect(new TextDecoder().decode(decrypted)).toBe('remembered');
+  });
+
+  it('should only store non-extractable keys and wrapped bytes', async () => {
+    const store = memoryStore();
+
+    const unwrapped = await rememberDevice(await levelKeys(), 7, store, NOW);
+
+    const record = store.record as RememberedDevice;
+    expect(record.deviceKey.extractable).toBe(false);
+    expect(record.deviceKey.usages.sort()).toEqual(['unwrapKey', 'wrapKey']);
+    expect(Object.values(record.wrappedKeys).every(bytes => bytes.length === 40)).toBe(true);
+    expect([...unwrapped.values()].every(key => !key.extractable)).toBe(true);
+  });
+
+  it('should expire after the chosen number of days', async () => {
+    const store = memoryStore();
+    await rememberDevice(await levelKeys(), 7, store, NOW);
+
+    expect(await rememberedUntil(store, NOW)).toEqual(new Date(NOW + 7 * DAY_MS));
+    expect(await restoreDevice(store, NOW + 7 * DAY_MS)).toBeNull();
+    expect(store.record).toBeNull();
+  });
+
+  it('should keep the levels remembered for another password', async () => {
+    const store = memoryStore();
+    await rememberDevice(await levelKeys(), 7, store, NOW);
+    const friends = new Map([['friends', await generateMasterKey()]]);
+
+    const unwrapped = await rememberDevice(friends, 30, store, NOW + DAY_MS);
+
+    expect([...unwrapped.keys()]).toEqual(['friends']);
+    const restored = await restoreDevice(store, NOW + 10 * DAY_MS);
+    expect([...restored!.keys()].sort()).toEqual(['friends', 'private', 'public']);
+    expect(await rememberedUntil(store, NOW)).toEqual(new Date(NOW + 31 * DAY_MS));
+  });
+
+  it('should not keep the levels of an expired record', async () => {
+    const store = memoryStore();
+    await rememberDevice(await levelKeys(), 1, store, NOW);
+    const friends = new Map([['friends', await generateMasterKey()]]);
+
+    await rememberDevice(friends, 7, store, NOW + 2 * DAY_MS);
+
+    expect([...(await restoreDevice(store, NOW + 2 * DAY_MS))!.keys()]).toEqual(['friends']);
+  });
+
+  it('should forget the device', async () => {
+    const store = memoryStore();
+    await rememberDevice(await levelKeys(), 1, store, NOW);
+
+    await forgetDevice(store);
+
+    expect(await rememberedUntil(store, NOW)).toBeNull();
+    expect(await restoreDevice(store, NOW)).toBeNull();
+  });
+
+  it('should report a device that was never remembered', async () => {
+    const store = memoryStore();
+
+    expect(await restoreDevice(store, NOW)).toBeNull();
+    expect(await rememberedUntil(store, NOW)).toBeNull();
+  });
+
+  it('should drop unreadable records', async () => {
+    const store = memoryStore({
+      version: 1,
+      deviceKey: 'not a key',
+      wrappedKeys: {},
+      expiresAt: NOW,
+    });
+
+    expect(await restoreDevice(store, 0)).toBeNull();
+    expect(store.record).toBeNull();
+  });
+
+  it('should drop records whose keys no longer unwrap', async () => {
+    const store = memoryStore();
+    await rememberDevice(await levelKeys(), 7, store, NOW);
+    const record = store.record as RememberedDevice;
+    record.wrappedKeys.private = new Uint8Array(40);
+
+    expect(await restoreDevice(store, NOW)).toBeNull();
+    expect(store.record).toBeNull();
+  });
+
+  it('should reject invalid durations', async () => {
+    const keys = await levelKeys();
+
+    await expect(rememberDevice(keys, 0, memoryStore())).rejects.toThrow(
+      'Invalid number of days: 0'
+    );
+    await expect(rememberDevice(keys, 1.5, memoryStore())).rejects.toThrow(
+      'Invalid number of days: 1.5'
+    );
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * "Remember this device"
+ * The unlocked level keys are wrapped (AES-KW) under a device key that is generated
+ * in the browser as non-extractable and kept in IndexedDB, so the next visit can
+ * unwrap them without the password. The device key's bytes never leave the
+ * browser's key store, and the record expires after the chosen number of days.
+ * @remarks Anyone with this browser profile can open the content until it expires or
+ * is forgotten, which is the trade the visitor opts into.
+ */
+
+import { unwrapMasterKey, wrapKey } from './crypto-utils';
+import { KEY_WRAP_ALGORITHM } from './envelope';
+import { isObject } from './json-guards';
+
+/** Choices offered for how long a device stays remembered */
+export const REMEMBER_DAYS_OPTIONS = [1, 7, 30];
+
+export const DEFAULT_REMEMBER_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RECORD_VERSION = 1;
+
+export interface RememberedDevice {
+  version: typeof RECORD_VERSION;
+  /** Non-extractable AES-KW key the level keys are wrapped under */
+  deviceKey: CryptoKey;
+  /** Wrapped level master keys, by access level */
+  wrappedKeys: Record<string, Uint8Array>;
+  /** Milliseconds since the epoch after which the record is ignored and removed */
+  expiresAt: number;
+}
+
+/**
+ * Where the record is kept; IndexedDB in the browser
+ */
+export interface DeviceStore {
+  get(): Promise<unknown>;
+  put(record: RememberedDevice): Promise<void>;
+  delete(): Promise<void>;
+}
+
+const DB_NAME = 'buhbuh';
+const STORE_NAME = 'device';
+const RECORD_KEY = 'session';
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  return settle(request);
+}
+
+async function inStore<T>(
+  mode: 'readonly' | 'readwrite',
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await settle(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * The record store in IndexedDB
+ * Reads as empty where IndexedDB is unavailable (private modes of some browsers, Node).
+ */
+export function indexedDbDeviceStore(): DeviceStore {
+  const available = () => typeof indexedDB !== 'undefined';
+
+  return {
+    get: async () => (available() ? inStore('readonly', store => store.get(RECORD_KEY)) : null),
+    put: async record => {
+      if (!available()) {
+        throw new Error('This browser cannot remember devices');
+      }
+      await inStore('readwrite', store => store.put(record, RECORD_KEY));
+    },
+    delete: async () => {
+      if (available()) {
+        await inStore('readwrite', store => store.delete(RECORD_KEY));
+      }
+    },
+  };
+}
+
+function parseRecord(value: unknown): RememberedDevice | null {
+  if (
+    !isObject(value) ||
+    value.version !== RECORD_VERSION ||
+    !(value.deviceKey instanceof CryptoKey) ||
+    typeof value.expiresAt !== 'number' ||
+    !isObject(value.wrappedKeys)
+  ) {
+    return null;
+  }
+  const wrapped = Object.values(value.wrappedKeys);
+  if (wrapped.length === 0 || !wrapped.every(bytes => bytes instanceof Uint8Array)) {
+    return null;
+  }
+  return value as unknown as RememberedDevice;
+}
+
+/**
+ * Wraps the level keys under the device key and stores them
+ * Levels an unexpired record already holds (from another password) stay remembered
+ * under the same device key; the whole record then expires after `days`.
+ * @param keys - Extractable level master keys (unlocked with `extractable` set)
+ * @returns The same keys unwrapped again as non-extractable, for the session
+ * @throws If `days` is not a positive integer or the record cannot be stored
+ */
+export async function rememberDevice(
+  keys: ReadonlyMap<string, CryptoKey>,
+  days: number,
+  store: DeviceStore = indexedDbDeviceStore(),
+  now = Date.now()
+): Promise<Map<string, CryptoKey>> {
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error(`Invalid number of days: ${days}`);
+  }
+
+  const previous = parseRecord(await store.get());
+  const kept = previous && previous.expiresAt > now ? previous : null;
+  const deviceKey =
+    kept?.deviceKey ??
+    (await crypto.subtle.generateKey({ name: KEY_WRAP_ALGORITHM, length: 256 }, false, [
+      'wrapKey',
+      'unwrapKey',
+    ]));
+  const wrappedKeys: Record<string, Uint8Array> = { ...kept?.wrappedKeys };
+  const unwrapped = new Map<string, CryptoKey>();
+  for (const [level, key] of keys) {
+    wrappedKeys[level] = await wrapKey(key, deviceKey);
+    unwrapped.set(level, await unwrapMasterKey(wrappedKeys[level], deviceKey));
+  }
+
+  await store.put({
+    version: RECORD_VERSION,
+    deviceKey,
+    wrappedKeys,
+    expiresAt: now + days * DAY_MS,
+  });
+  return unwrapped;
+}
+
+/**
+ * Unwraps the remembered level keys
+ * Expired or unreadable records are removed.
+ * @returns Non-extractable level keys, or null if this device is not remembered
+ */
+export async function restoreDevice(
+  store: DeviceStore = indexedDbDeviceStore(),
+  now = Date.now()
+): Promise<Map<string, CryptoKey> | null> {
+  const stored = await store.get();
+  if (stored === null || stored === undefined) {
+    return null;
+  }
+  const record = parseRecord(stored);
+  if (!record || record.expiresAt <= now) {
+    await store.delete();
+    return null;
+  }
+
+  try {
+    const keys = new Map<string, CryptoKey>();
+    for (const [level, wrapped] of Object.entries(record.wrappedKeys)) {
+      keys.set(level, await unwrapMasterKey(wrapped, record.deviceKey));
+    }
+    return keys;
+  } catch {
+    await store.delete();
+    return null;
+  }
+}
+
+/**
+ * When the remembered keys expire, or null if this device is not remembered
+ */
+export async function rememberedUntil(
+  store: DeviceStore = indexedDbDeviceStore(),
+  now = Date.now()
+): Promise<Date | null> {
+  const record = parseRecord(await store.get());
+  return record && record.expiresAt > now ? new Date(record.expiresAt) : null;
+}
+
+/**
+ * Removes the remembered keys, so the next visit needs the password again
+ */
+export async function forgetDevice(store: DeviceStore = indexedDbDeviceStore()): Promise<void> {
+  await store.delete();
+}
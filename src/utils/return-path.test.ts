@@ -0,0 +1,30 @@
+/**
+ * Test suite for post-unlock redirects
+ * Tests that deep links are followed and off-site targets are dropped
+ */
+
+import { describe, it, expect } from 'vitest';
+import { safeReturnPath } from './return-path';
+
+describe('Return path', () => {
+  it('should keep site paths with their search and hash', () => {
+    expect(safeReturnPath('/c/poems')).toBe('/c/poems');
+    expect(safeReturnPath('/c/poems/summer%2Flake.md?x=1#end')).toBe(
+      '/c/poems/summer%2Flake.md?x=1#end'
+    );
+  });
+
+  it.each(['https://evil.example/c/poems', '//evil.example', '/\\evil.example', 'c/poems'])(
+    'should reject %s',
+    value => {
+      expect(safeReturnPath(value)).toBeUndefined();
+    }
+  );
+
+  it('should ignore missing values and the gate itself', () => {
+    expect(safeReturnPath(undefined)).toBeUndefined();
+    expect(safeReturnPath(42)).toBeUndefined();
+    expect(safeReturnPath('/')).toBeUndefined();
+    expect(safeReturnPath('/?redirect=%2F')).toBeUndefined();
+  });
+});
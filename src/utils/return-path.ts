@@ -0,0 +1,29 @@
+/**
+ * Where to send the visitor after unlocking
+ * The auth guard records the requested URL in the gate's `?redirect=` parameter.
+ * Only same-site paths are followed, so a crafted link cannot bounce a freshly
+ * unlocked visitor to another origin.
+ */
+
+/**
+ * Validates a `?redirect=` value
+ * @returns The path (with its search and hash), or undefined if it is missing or
+ * could point off-site
+ */
+export function safeReturnPath(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.startsWith('/')) {
+    return undefined;
+  }
+
+  // Protocol-relative ("//host") and backslash ("/\host") forms leave the site
+  if (value.startsWith('//') || value.startsWith('/\\')) {
+    return undefined;
+  }
+
+  // The gate itself would just redirect again
+  if (value === '/' || value.startsWith('/?') || value.startsWith('/#')) {
+    return undefined;
+  }
+
+  return value;
+}
@@ -0,0 +1,175 @@
+/**
+ * Test suite for the encrypted search index
+ * Tests document building, matching and ranking, and encryption round-trips
+ */
+
+import { describe, it, expect, vi, afterEach, beforeAll } from 'vitest';
+import {
+  SEARCH_INDEX_URL,
+  describeForSearch,
+  decryptSearchIndex,
+  encryptSearchIndex,
+  fetchSearchIndex,
+  parseSearchIndex,
+  searchContent,
+  titleIndex,
+  titleOf,
+  toPlainText,
+  type SearchIndex,
+} from './search-index';
+import { createSession, sessionFromKeys, type ContentSession } from './session';
+import { manifestEntry } from '@/test/fixtures';
+
+const index: SearchIndex = {
+  version: 1,
+  categories: {
+    poems: [
+      describeForSearch(
+        manifestEntry('summer/the-lake.txt'),
+        'Still water\nunder the birches,\nthe lake keeps the sky.'
+      ),
+      describeForSearch(
+        manifestEntry('winter/snow.txt'),
+        'Snow on the lake path and on the roofs.'
+      ),
+    ],
+    pictures: [describeForSearch(manifestEntry('trips/lakeside_dawn.jpg'))],
+  },
+};
+
+describe('Search index', () => {
+  let session: ContentSession;
+
+  beforeAll(async () => {
+    ({ session } = await createSession('SearchPassword#1'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should take titles from file names and tags from folders', () => {
+    expect(titleOf('the-lake.txt')).toBe('the lake');
+    expect(titleOf('lakeside_dawn.jpg')).toBe('lakeside dawn');
+    expect(titleOf('.txt')).toBe('.txt');
+    expect(index.categories.poems[0].tags).toEqual(['summer']);
+    expect(index.categories.pictures[0].text).toBe('');
+  });
+
+  it('should keep only the words of markdown and HTML', () => {
+    const markdown = '# The Lake\n\n> *Still* water, [birches](https://example.com)\n\n- one\n';
+
+    expect(toPlainText(markdown, 'text/markdown')).toBe('The Lake Still water, birches one');
+    expect(toPlainText('<p>Tom &amp; Jerry</p><script>x()</script>', 'text/html')).toBe(
+      'Tom & Jerry'
+    );
+    expect(toPlainText('a\n\n  b', 'text/plain')).toBe('a b');
+  });
+
+  it('should index metadata and leave front matter out of the text', () => {
+    const poem = {
+      ...manifestEntry('summer/lake.md'),
+      meta: { title: 'Still Water', tags: ['dawn', 'summer'], description: 'By the birches' },
+    };
+    const text = '---\ntitle: Still Water\n---\nThe lake keeps the sky.';
+    const document = describeForSearch(poem, text);
+
+    expect(document).toMatchObject({
+      title: 'Still Water',
+      tags: ['summer', 'dawn'],
+      description: 'By the birches',
+      text: 'The lake keeps the sky.',
+    });
+    const hits = searchContent({ version: 1, categories: { poems: [document] } }, 'birches');
+    expect(hits.map(hit => hit.document.path)).toEqual([poem.path]);
+    expect(hits[0].snippet).toBeUndefined();
+  });
+
+  it('should rank title matches above matches in the text', () => {
+    const hits = searchContent(index, 'LAKE');
+
+    expect(hits.map(hit => hit.document.title)).toEqual(['the lake', 'lakeside dawn', 'snow']);
+    expect(hits[2].snippet).toEqual({
+      before: 'Snow on the ',
+      match: 'lake',
+      after: ' path and on the roofs.',
+    });
+  });
+
+  it('should need every word of the query', () => {
+    const hits = searchContent(index, 'lake birches');
+
+    expect(hits.map(hit => hit.category)).toEqual(['poems']);
+    expect(hits[0].snippet?.match).toBe('lake');
+    expect(searchContent(index, 'winter')[0].document.title).toBe('snow');
+    expect(searchContent(index, 'lake volcano')).toEqual([]);
+    expect(searchContent(index, '   ')).toEqual([]);
+  });
+
+  it('should mark the match where lower-casing changes the text length', () => {
+    const document = describeForSearch(manifestEntry('trip.txt'), 'İİ İzmir by the LAKE shore');
+
+    const [hit] = searchContent({ version: 1, categories: { writing: [document] } }, 'lake');
+
+    expect(hit.snippet).toEqual({ before: 'İİ İzmir by the ', match: 'LAKE', after: ' shore' });
+    expect(searchContent({ version: 1, categories: { writing: [document] } }, 'l.ke')).toEqual(
+      []
+    );
+  });
+
+  it('should cut long snippets at both ends', () => {
+    const text = `${'a '.repeat(100)}lake${' b'.repeat(100)}`;
+    const long = describeForSearch(manifestEntry('long.txt'), text);
+
+    const [hit] = searchContent({ version: 1, categories: { writing: [long] } }, 'lake');
+
+    expect(hit.snippet?.before.startsWith('…')).toBe(true);
+    expect(hit.snippet?.after.endsWith('…')).toBe(true);
+  });
+
+  it('should build a title-only index from the manifest', () => {
+    const titles = titleIndex({ poems: [manifestEntry('summer/the-lake.txt')] });
+
+    expect(searchContent(titles, 'lake')[0].document.text).toBe('');
+    expect(searchContent(titles, 'birches')).toEqual([]);
+  });
+
+  it('should round-trip through encryption, by access level', async () => {
+    const encrypted = await encryptSearchIndex(index, session);
+    const friends = sessionFromKeys(new Map([['shared', session.keys.get('shared')!]]));
+
+    expect(encrypted).not.toContain('birches');
+    expect(await decryptSearchIndex(encrypted, session)).toEqual(index);
+    expect((await decryptSearchIndex(encrypted, friends)).categories).toEqual({
+      pictures: index.categories.pictures,
+    });
+  });
+
+  it('should reject malformed indexes', () => {
+    expect(() => parseSearchIndex(JSON.stringify({ ...index, version: 2 }))).toThrow(
+      'unsupported version'
+    );
+    expect(() =>
+      parseSearchIndex(JSON.stringify({ version: 1, categories: { poems: [{ title: 'x' }] } }))
+    ).toThrow('malformed document in "poems"');
+  });
+
+  it('should fetch and decrypt the index from the site root', async () => {
+    const encrypted = await encryptSearchIndex(index, session);
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, text: async () => encrypted });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const loaded = await fetchSearchIndex(session);
+
+    expect(fetchMock).toHaveBeenCalledWith(SEARCH_INDEX_URL);
+    expect(loaded.categories.poems).toHaveLength(2);
+  });
+
+  it('should report a missing index', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, statusText: 'Not Found' }));
+
+    await expect(fetchSearchIndex(session)).rejects.toThrow(
+      'Failed to load search index: Not Found'
+    );
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Encrypted full-text search index
+ * Built by the encryption CLI next to the manifest: a title, tags and description for
+ * every file, and the plain text of text files (poems, writing, markdown). The browser fetches it
+ * the first time search is opened and matches queries in the page, so neither the
+ * queries nor the results ever leave it.
+ * @remarks Like the manifest, each access level gets its own encrypted section.
+ */
+
+import { splitFrontMatter } from './content-metadata';
+import { isObject } from './json-guards';
+import { decryptLevelSections, encryptLevelSections, groupByLevel } from './level-sections';
+import type { ManifestEntry } from './manifest';
+import type { ContentSession } from './session';
+
+export const SEARCH_INDEX_VERSION = 1;
+
+/** Version of the public/search-index.enc wrapper around the per-level sections */
+export const SEARCH_INDEX_FILE_VERSION = 1;
+
+/** Site-absolute URL of the encrypted index (written to public/search-index.enc) */
+export const SEARCH_INDEX_URL = '/search-index.enc';
+
+/** Characters of a file's text kept in the index; longer works are searched by their start */
+export const SEARCH_TEXT_LIMIT = 100_000;
+
+export interface SearchDocument {
+  /** Site-absolute URL of the file's object, as in the manifest */
+  path: string;
+  /** SHA-256 of the plaintext the text was taken from */
+  sha256: string;
+  title: string;
+  /** Folders the file sits in, then the tags from its metadata */
+  tags: string[];
+  /** From the file's metadata */
+  description?: string;
+  /** Plain text of a text file with its markup removed; empty for other files */
+  text: string;
+}
+
+export interface SearchIndex {
+  version: typeof SEARCH_INDEX_VERSION;
+  categories: Record<string, SearchDocument[]>;
+}
+
+export interface SearchHit {
+  category: string;
+  document: SearchDocument;
+  /** Text around the first match in the file's contents, when the contents matched */
+  snippet?: { before: string; match: string; after: string };
+}
+
+// A query term found in the title counts for more than one in the tags, description or text
+const TITLE_WEIGHT = 10;
+const TAG_WEIGHT = 5;
+const DESCRIPTION_WEIGHT = 3;
+const TEXT_WEIGHT = 1;
+
+/** Characters of context shown before and after a match */
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Whether a file's contents go into the index
+ */
+export function isSearchableText(contentType: string): boolean {
+  return contentType.startsWith('text/');
+}
+
+/**
+ * Strips front matter and markup from a text file, leaving the words a reader sees
+ * Whitespace is collapsed and the result is cut at {@link SEARCH_TEXT_LIMIT}.
+ */
+export function toPlainText(text: string, contentType: string): string {
+  let plain = splitFrontMatter(text).body;
+  if (contentType === 'text/html') {
+    plain = plain
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&');
+  } else if (contentType === 'text/markdown') {
+    plain = plain
+      .replace(/^\s*(```|~~~).*$/gm, '')
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/^\s{0,3}(#{1,6}|>+|[-*+]|\d+\.)\s+/gm, '')
+      .replace(/[*_~`]+/g, '');
+  }
+
+  return plain.replace(/\s+/g, ' ').trim().slice(0, SEARCH_TEXT_LIMIT);
+}
+
+/**
+ * Title of a file: its name without the extension, with dashes and underscores as spaces
+ */
+export function titleOf(name: string): string {
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return base.replace(/[-_]+/g, ' ').trim() || name;
+}
+
+/**
+ * Builds the index document for a manifest entry
+ * The title, tags and description come from the file's metadata where it has them.
+ * @param text - Decrypted contents, for text files
+ */
+export function describeForSearch(entry: ManifestEntry, text?: string): SearchDocument {
+  const folders = entry.relativePath.split('/').slice(0, -1);
+  const description = entry.meta?.description;
+
+  return {
+    path: entry.path,
+    sha256: entry.sha256,
+    title: entry.meta?.title ?? titleOf(entry.name),
+    tags: [...new Set([...folders, ...(entry.meta?.tags ?? [])])],
+    ...(description && { description }),
+    text: text === undefined ? '' : toPlainText(text, entry.contentType),
+  };
+}
+
+/**
+ * An index of titles and tags only, from the manifest
+ * Stands in while the real index loads, or when the site has none.
+ */
+export function titleIndex(categories: Record<string, ManifestEntry[]>): SearchIndex {
+  return {
+    version: SEARCH_INDEX_VERSION,
+    categories: Object.fromEntries(
+      Object.entries(categories).map(([category, entries]) => [
+        category,
+        entries.map(entry => describeForSearch(entry)),
+      ])
+    ),
+  };
+}
+
+/**
+ * Finds the files matching every word of a query, best matches first
+ * Matching is case-insensitive and on substrings, so "lake" also finds "lakes".
+ */
+export function searchContent(index: SearchIndex, query: string, limit = 50): SearchHit[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return [];
+  }
+  // Found in the text as written: lower-casing can change its length (İ becomes i̇),
+  // which would shift the snippet
+  const patterns = terms.map(term => new RegExp(escapeRegExp(term), 'iu'));
+
+  const scored: { hit: SearchHit; score: number }[] = [];
+  for (const [category, documents] of Object.entries(index.categories)) {
+    for (const document of documents) {
+      const title = document.title.toLowerCase();
+      const tags = document.tags.join(' ').toLowerCase();
+      const description = document.description?.toLowerCase() ?? '';
+      let score = 0;
+      let textMatch: { at: number; length: number } | undefined;
+
+      for (const [i, term] of terms.entries()) {
+        const found = patterns[i].exec(document.text);
+        const termScore =
+          (title.includes(term) ? TITLE_WEIGHT : 0) +
+          (tags.includes(term) ? TAG_WEIGHT : 0) +
+          (description.includes(term) ? DESCRIPTION_WEIGHT : 0) +
+          (found ? TEXT_WEIGHT : 0);
+        if (termScore === 0) {
+          score = 0;
+          break;
+        }
+        score += termScore;
+        if (found && !textMatch) {
+          textMatch = { at: found.index, length: found[0].length };
+        }
+      }
+
+      if (score > 0) {
+        const snippet = textMatch && snippetAt(document.text, textMatch.at, textMatch.length);
+        scored.push({ hit: { category, document, ...(snippet && { snippet }) }, score });
+      }
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.hit.document.title.localeCompare(b.hit.document.title))
+    .slice(0, limit)
+    .map(({ hit }) => hit);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function snippetAt(text: string, at: number, length: number): SearchHit['snippet'] {
+  const start = Math.max(at - SNIPPET_CONTEXT, 0);
+  const end = Math.min(at + length + SNIPPET_CONTEXT, text.length);
+  return {
+    before: (start > 0 ? '…' : '') + text.slice(start, at),
+    match: text.slice(at, at + length),
+    after: text.slice(at + length, end) + (end < text.length ? '…' : ''),
+  };
+}
+
+function parseDocument(value: unknown, category: string): SearchDocument {
+  if (
+    !isObject(value) ||
+    typeof value.path !== 'string' ||
+    typeof value.sha256 !== 'string' ||
+    typeof value.title !== 'string' ||
+    !Array.isArray(value.tags) ||
+    !value.tags.every(tag => typeof tag === 'string') ||
+    (value.description !== undefined && typeof value.description !== 'string') ||
+    typeof value.text !== 'string'
+  ) {
+    throw new Error(`Invalid search index: malformed document in "${category}"`);
+  }
+
+  return {
+    path: value.path,
+    sha256: value.sha256,
+    title: value.title,
+    tags: value.tags,
+    ...(typeof value.description === 'string' && { description: value.description }),
+    text: value.text,
+  };
+}
+
+/**
+ * Parses and validates decrypted search index JSON
+ * @throws If the index is malformed or from an unsupported version
+ */
+export function parseSearchIndex(json: string): SearchIndex {
+  const value: unknown = JSON.parse(json);
+  if (!isObject(value) || value.version !== SEARCH_INDEX_VERSION) {
+    throw new Error('Invalid search index: unsupported version');
+  }
+  if (!isObject(value.categories)) {
+    throw new Error('Invalid search index: missing categories');
+  }
+
+  const categories: Record<string, SearchDocument[]> = {};
+  for (const [category, documents] of Object.entries(value.categories)) {
+    if (!Array.isArray(documents)) {
+      throw new Error(`Invalid search index: "${category}" must be a list`);
+    }
+    categories[category] = documents.map(document => parseDocument(document, category));
+  }
+
+  return { version: SEARCH_INDEX_VERSION, categories };
+}
+
+/**
+ * Encrypts a search index into the JSON for public/search-index.enc
+ * Each category goes into the section of its access level.
+ */
+export async function encryptSearchIndex(
+  index: SearchIndex,
+  session: ContentSession
+): Promise<string> {
+  const sections: Record<string, string> = {};
+  for (const [level, categories] of Object.entries(groupByLevel(index.categories))) {
+    sections[level] = JSON.stringify({ ...index, categories });
+  }
+
+  return encryptLevelSections(sections, session, SEARCH_INDEX_FILE_VERSION);
+}
+
+/**
+ * Decrypts the sections of public/search-index.enc the session can open
+ * @throws If the index is malformed
+ */
+export async function decryptSearchIndex(
+  json: string,
+  session: ContentSession
+): Promise<SearchIndex> {
+  const sections = await decryptLevelSections(
+    json,
+    session,
+    SEARCH_INDEX_FILE_VERSION,
+    'search index'
+  );
+
+  const index: SearchIndex = { version: SEARCH_INDEX_VERSION, categories: {} };
+  for (const plaintext of sections) {
+    Object.assign(index.categories, parseSearchIndex(plaintext).categories);
+  }
+  return index;
+}
+
+/**
+ * Fetches and decrypts the search index
+ * @param url - Index URL (defaults to {@link SEARCH_INDEX_URL})
+ */
+export async function fetchSearchIndex(
+  session: ContentSession,
+  url: string = SEARCH_INDEX_URL
+): Promise<SearchIndex> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load search index: ${response.statusText}`);
+  }
+
+  return decryptSearchIndex(await response.text(), session);
+}
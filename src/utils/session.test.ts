@@ -0,0 +1,160 @@
+/**
+ * Test suite for the decryption session
+ * Tests password verification via the keyring and per-file data keys
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createSession,
+  openSession,
+  fetchSession,
+  mergeSessions,
+  sealSession,
+  sessionFromKeys,
+} from './session';
+import { encryptEnvelope } from './crypto-utils';
+import { parseEnvelope, serializeEnvelope } from './envelope';
+import { KEYRING_URL, serializeKeyring } from './keyring';
+import { bytesToStream, streamToBytes } from './encoding';
+
+describe('Content session', () => {
+  const testPassword = 'SessionPassword!99';
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should reject an incorrect password', async () => {
+    const { keyring } = await createSession(testPassword);
+
+    await expect(openSession('not-it', keyring)).rejects.toThrow('Incorrect password');
+  });
+
+  it('should decrypt files written by another session on the same keyring', async () => {
+    const { session: writer, keyring } = await createSession(testPassword);
+    const envelope = await writer.encrypt('shared secret', 'private');
+
+    const reader = await openSession(testPassword, keyring);
+    const decrypted = await reader.decrypt(parseEnvelope(serializeEnvelope(envelope)));
+
+    expect(new TextDecoder().decode(decrypted)).toBe('shared secret');
+  });
+
+  it('should give every file its own wrapped data key', async () => {
+    const { session } = await createSession(testPassword);
+    const first = await session.encrypt('same', 'private');
+    const second = await session.encrypt('same', 'private');
+
+    expect(first.wrappedKey).toHaveLength(40);
+    expect(first.wrappedKey).not.toEqual(second.wrappedKey);
+  });
+
+  it('should not re-derive the key for each file', async () => {
+    const { session: writer, keyring } = await createSession(testPassword);
+    const envelopes = await Promise.all(
+      Array.from({ length: 5 }, (_, i) => writer.encrypt(`file ${i}`, 'private'))
+    );
+
+    const reader = await openSession(testPassword, keyring);
+    // Every password derivation ends by importing the derived bytes as a key
+    const importSpy = vi.spyOn(globalThis.crypto.subtle, 'importKey');
+
+    for (const envelope of envelopes) {
+      await reader.decrypt(envelope);
+    }
+
+    expect(importSpy).not.toHaveBeenCalled();
+  });
+
+  it('should refuse files from a different keyring', async () => {
+    const { session: other } = await createSession(testPassword);
+    const { session } = await createSession(testPassword);
+    const foreign = await other.encrypt('not yours', 'private');
+
+    await expect(session.decrypt(foreign)).rejects.toThrow();
+  });
+
+  it('should refuse password-encrypted envelopes', async () => {
+    const { session } = await createSession(testPassword);
+    const legacy = await encryptEnvelope('per-file salt', testPassword);
+
+    await expect(session.decrypt(legacy)).rejects.toThrow('re-run the encrypt script');
+  });
+
+  it('should only decrypt the access levels it holds', async () => {
+    const { session } = await createSession(testPassword);
+    const friends = sessionFromKeys(new Map([['shared', session.keys.get('shared')!]]));
+    const envelope = await session.encrypt('for the partner only', 'private');
+
+    await expect(friends.decrypt(envelope)).rejects.toThrow('"private" access level');
+    await expect(friends.encrypt('x', 'private')).rejects.toThrow('Locked');
+  });
+
+  it('should combine levels from a second password', async () => {
+    const { session } = await createSession(testPassword);
+    const shared = sessionFromKeys(new Map([['shared', session.keys.get('shared')!]]));
+    const priv = sessionFromKeys(new Map([['private', session.keys.get('private')!]]));
+    const envelope = await session.encrypt('both', 'private');
+
+    const merged = mergeSessions(shared, priv);
+
+    expect([...merged.keys.keys()].sort()).toEqual(['private', 'shared']);
+    expect(new TextDecoder().decode(await merged.decrypt(envelope))).toBe('both');
+  });
+
+  it('should seal keys unlocked as extractable', async () => {
+    const { session: writer, keyring } = await createSession(testPassword);
+    const envelope = await writer.encrypt('sealed', 'private');
+    const opened = await openSession(testPassword, keyring, true);
+
+    const sealed = await sealSession(opened);
+
+    expect([...sealed.keys.values()].every(key => !key.extractable)).toBe(true);
+    expect(new TextDecoder().decode(await sealed.decrypt(envelope))).toBe('sealed');
+  });
+
+  it('should stream-encrypt under a level key and decrypt with another session', async () => {
+    const { session: writer, keyring } = await createSession(testPassword);
+    // Several 64 KiB segments
+    const song = Uint8Array.from({ length: 200_000 }, (_, i) => i % 251);
+
+    const sealed = await streamToBytes(
+      bytesToStream(song).pipeThrough(await writer.encryptStream('private'))
+    );
+    const reader = await openSession(testPassword, keyring);
+    const decrypted = await streamToBytes(bytesToStream(sealed).pipeThrough(reader.decryptStream()));
+
+    expect(decrypted).toEqual(song);
+  });
+
+  it('should report a locked level through the decrypted stream', async () => {
+    const { session } = await createSession(testPassword);
+    const friends = sessionFromKeys(new Map([['shared', session.keys.get('shared')!]]));
+    const sealed = await streamToBytes(
+      bytesToStream(new TextEncoder().encode('song')).pipeThrough(
+        await session.encryptStream('private')
+      )
+    );
+
+    await expect(
+      streamToBytes(bytesToStream(sealed).pipeThrough(friends.decryptStream()))
+    ).rejects.toThrow('"private" access level');
+    await expect(friends.encryptStream('private')).rejects.toThrow('Locked');
+  });
+
+  it('should fetch the keyring and open a session', async () => {
+    const { session: writer, keyring } = await createSession(testPassword);
+    const envelope = await writer.encrypt('fetched', 'private');
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      text: async () => serializeKeyring(keyring),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const session = await fetchSession(testPassword);
+
+    expect(fetchMock).toHaveBeenCalledWith(KEYRING_URL);
+    expect(new TextDecoder().decode(await session.decrypt(envelope))).toBe('fetched');
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unlocked decryption session
+ * Unwraps the access-level master keys once from the keyring, then reuses those
+ * non-extractable CryptoKeys to unwrap each file's data key instead of re-running
+ * PBKDF2 per file. Unlocking and whole-envelope decryption run on the crypto worker
+ * pool (see ./crypto-pool) when the browser has one.
+ */
+
+import { ACCESS_LEVELS } from './content-categories';
+import {
+  encryptWithMasterKey,
+  generateDataKey,
+  unwrapDataKey,
+  wrapKey,
+} from './crypto-utils';
+import { pooledCrypto } from './crypto-pool';
+import { KEY_WRAP_ALGORITHM, type Envelope, type WrappedKeyEnvelope } from './envelope';
+import { KEYRING_URL, createKeyring, parseKeyring, type Keyring } from './keyring';
+import {
+  DEFAULT_SEGMENT_SIZE,
+  STREAM_NONCE_PREFIX_LENGTH,
+  createStreamDecryptor,
+  createStreamEncryptor,
+  type StreamCompression,
+} from './stream-envelope';
+
+export interface ContentSession {
+  /** Unlocked master keys by access level */
+  readonly keys: ReadonlyMap<string, CryptoKey>;
+  /**
+   * Encrypts plaintext under a fresh data key wrapped by the level's master key
+   * @throws If the session has not unlocked that access level
+   */
+  encrypt(plaintext: string | Uint8Array, level: string): Promise<WrappedKeyEnvelope>;
+  /**
+   * Decrypts an envelope whose data key is wrapped by one of the level keys
+   * @throws If the envelope was encrypted directly with a password, or its level is locked
+   */
+  decrypt(envelope: Envelope): Promise<Uint8Array>;
+  /**
+   * Creates a transform that encrypts a byte stream into the binary container
+   * @param compression - Applied to the plaintext before encryption (default none)
+   * @throws If the session has not unlocked that access level
+   */
+  encryptStream(
+    level: string,
+    compression?: StreamCompression
+  ): Promise<TransformStream<Uint8Array, Uint8Array>>;
+  /**
+   * Creates a transform that decrypts (and decompresses) a binary container as it arrives
+   * @remarks Errors (locked level, corrupt or truncated data) surface through the stream
+   */
+  decryptStream(): TransformStream<Uint8Array, Uint8Array>;
+}
+
+/**
+ * Builds a session around unwrapped level master keys
+ */
+export function sessionFromKeys(keys: ReadonlyMap<string, CryptoKey>): ContentSession {
+  const keyFor = (level: string): CryptoKey => {
+    const key = keys.get(level);
+    if (!key) {
+      throw new Error(`Locked: this content needs the "${level}" access level`);
+    }
+    return key;
+  };
+
+  return {
+    keys,
+    encrypt: async (plaintext, level) => encryptWithMasterKey(plaintext, keyFor(level), level),
+    decrypt: async envelope => {
+      if (envelope.kind !== 'wrapped-key') {
+        throw new Error('File was encrypted directly with a password; re-run the encrypt script');
+      }
+      return pooledCrypto.decryptWithMasterKey(envelope, keyFor(envelope.keyId));
+    },
+    encryptStream: async (level, compression = 'none') => {
+      const masterKey = keyFor(level);
+      const dataKey = await generateDataKey();
+
+      return createStreamEncryptor(dataKey, {
+        keyId: level,
+        wrappedKey: await wrapKey(dataKey, masterKey),
+        segmentSize: DEFAULT_SEGMENT_SIZE,
+        noncePrefix: crypto.getRandomValues(new Uint8Array(STREAM_NONCE_PREFIX_LENGTH)),
+        compression,
+      });
+    },
+    decryptStream: () =>
+      createStreamDecryptor(async header => unwrapDataKey(header.wrappedKey, keyFor(header.keyId))),
+  };
+}
+
+/**
+ * Combines the access levels of several sessions, e.g. after a second password
+ */
+export function mergeSessions(...sessions: ContentSession[]): ContentSession {
+  return sessionFromKeys(new Map(sessions.flatMap(session => [...session.keys])));
+}
+
+/**
+ * Opens a session with the levels of the first key slot the password unlocks
+ * @param extractable - Only true when the keys must be wrapped again (remembering a device)
+ * @throws Error('Incorrect password') if the password opens no slot
+ */
+export async function openSession(
+  password: string,
+  keyring: Keyring,
+  extractable = false
+): Promise<ContentSession> {
+  return sessionFromKeys((await pooledCrypto.unlockKeyring(keyring, password, extractable)).keys);
+}
+
+/**
+ * Re-imports the keys of a session opened with `extractable` as non-extractable
+ * For when they were unlocked to be remembered but never were.
+ */
+export async function sealSession(session: ContentSession): Promise<ContentSession> {
+  const keys = new Map<string, CryptoKey>();
+  for (const [level, key] of session.keys) {
+    const raw = await crypto.subtle.exportKey('raw', key);
+    keys.set(
+      level,
+      await crypto.subtle.importKey('raw', raw, KEY_WRAP_ALGORITHM, false, ['wrapKey', 'unwrapKey'])
+    );
+  }
+  return sessionFromKeys(keys);
+}
+
+/**
+ * Creates a new keyring and a session for it
+ * Used by the encryption CLI when no keyring exists yet.
+ * @param levels - Access levels to generate keys for (defaults to every configured level)
+ */
+export async function createSession(
+  password: string,
+  levels: string[] = ACCESS_LEVELS
+): Promise<{ session: ContentSession; keyring: Keyring }> {
+  const { keyring, keys } = await createKeyring(password, levels);
+  return { session: sessionFromKeys(keys), keyring };
+}
+
+/**
+ * Fetches the keyring and opens a session with it
+ * @param password - Password entered by the user
+ * @param url - Keyring URL (defaults to {@link KEYRING_URL})
+ * @param extractable - See {@link openSession}
+ */
+export async function fetchSession(
+  password: string,
+  url: string = KEYRING_URL,
+  extractable = false
+): Promise<ContentSession> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load keyring: ${response.statusText}`);
+  }
+
+  return openSession(password, parseKeyring(await response.text()), extractable);
+}
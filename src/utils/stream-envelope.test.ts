@@ -0,0 +1,185 @@
+/**
+ * Test suite for the streamed container format
+ * Tests segmenting, header parsing and detection of truncated, reordered or tampered data
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createStreamDecryptor,
+  createStreamEncryptor,
+  decodeStreamHeader,
+  encodeStreamHeader,
+  isStreamContainer,
+  STREAM_NONCE_PREFIX_LENGTH,
+  type StreamCompression,
+  type StreamHeader,
+} from './stream-envelope';
+import { generateDataKey } from './crypto-utils';
+import { concatBytes, streamToBytes } from './encoding';
+
+const SEGMENT_SIZE = 16;
+const SEALED_SEGMENT = SEGMENT_SIZE + 16;
+
+/**
+ * Streams bytes in uneven chunks, so segments never line up with chunk boundaries
+ */
+function chunked(bytes: Uint8Array, size = 7): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (let offset = 0; offset < bytes.length; offset += size) {
+        controller.enqueue(bytes.slice(offset, offset + size));
+      }
+      controller.close();
+    },
+  });
+}
+
+describe('Streamed container', () => {
+  const header = (compression: StreamCompression = 'none'): StreamHeader => ({
+    keyId: 'private',
+    wrappedKey: new Uint8Array(40),
+    segmentSize: SEGMENT_SIZE,
+    noncePrefix: crypto.getRandomValues(new Uint8Array(STREAM_NONCE_PREFIX_LENGTH)),
+    compression,
+  });
+
+  const seal = async (plaintext: Uint8Array, key: CryptoKey, compression?: StreamCompression) => {
+    const sealedHeader = header(compression);
+    const bytes = await streamToBytes(
+      chunked(plaintext).pipeThrough(createStreamEncryptor(key, sealedHeader))
+    );
+    return { bytes, prefixLength: encodeStreamHeader(sealedHeader).length };
+  };
+
+  const open = (bytes: Uint8Array, key: CryptoKey) =>
+    streamToBytes(chunked(bytes, 5).pipeThrough(createStreamDecryptor(async () => key)));
+
+  it.each([0, 1, SEGMENT_SIZE, SEGMENT_SIZE * 3, SEGMENT_SIZE * 3 + 5])(
+    'should round-trip %i bytes',
+    async length => {
+      const key = await generateDataKey();
+      const plaintext = crypto.getRandomValues(new Uint8Array(length));
+
+      const { bytes } = await seal(plaintext, key);
+
+      expect(isStreamContainer(bytes)).toBe(true);
+      expect(await open(bytes, key)).toEqual(plaintext);
+    }
+  );
+
+  it('should seal the last full segment as the final one', async () => {
+    const key = await generateDataKey();
+    const exact = await seal(new Uint8Array(SEGMENT_SIZE * 2), key);
+    const empty = await seal(new Uint8Array(0), key);
+
+    expect(exact.bytes.length - exact.prefixLength).toBe(SEALED_SEGMENT * 2);
+    // Even an empty file has a (tag-only) final segment
+    expect(empty.bytes.length - empty.prefixLength).toBe(16);
+  });
+
+  it('should parse the header it wrote', async () => {
+    const written = header();
+    const prefix = encodeStreamHeader(written);
+
+    expect(decodeStreamHeader(prefix.subarray(0, prefix.length - 1))).toBeNull();
+    expect(decodeStreamHeader(prefix)?.header).toEqual(written);
+    expect(() => decodeStreamHeader(new TextEncoder().encode('{"v":2,"alg":"x"}'))).toThrow(
+      'not a streamed container'
+    );
+  });
+
+  it('should read version 1 headers as uncompressed', async () => {
+    const prefix = encodeStreamHeader(header('gzip')).slice();
+    prefix[4] = 1;
+
+    expect(decodeStreamHeader(prefix)?.header.compression).toBe('none');
+  });
+
+  it('should reject an unknown compression format', async () => {
+    const prefix = encodeStreamHeader({ ...header(), compression: 'brotli' as StreamCompression });
+
+    expect(() => decodeStreamHeader(prefix)).toThrow('unsupported compression brotli');
+  });
+
+  it.each(['deflate', 'gzip'] as const)(
+    'should compress text with %s before encrypting',
+    async compression => {
+      const key = await generateDataKey();
+      const poem = 'the lake was still and so were we\n'.repeat(50);
+
+      const plain = await seal(new TextEncoder().encode(poem), key);
+      const compressed = await seal(new TextEncoder().encode(poem), key, compression);
+
+      expect(decodeStreamHeader(compressed.bytes)?.header.compression).toBe(compression);
+      expect(compressed.bytes.length).toBeLessThan(plain.bytes.length / 4);
+      expect(new TextDecoder().decode(await open(compressed.bytes, key))).toBe(poem);
+    }
+  );
+
+  it('should detect truncation of a compressed stream', async () => {
+    const key = await generateDataKey();
+    const text = Uint8Array.from({ length: 4000 }, (_, i) => (i * 7) % 256);
+    const { bytes, prefixLength } = await seal(text, key, 'deflate');
+
+    const truncated = bytes.slice(0, prefixLength + SEALED_SEGMENT);
+
+    await expect(open(truncated, key)).rejects.toThrow('corrupt or truncated');
+  });
+
+  it('should detect truncation at a segment boundary', async () => {
+    const key = await generateDataKey();
+    const { bytes, prefixLength } = await seal(new Uint8Array(SEGMENT_SIZE * 3), key);
+
+    const truncated = bytes.slice(0, prefixLength + SEALED_SEGMENT * 2);
+
+    await expect(open(truncated, key)).rejects.toThrow('corrupt or truncated at segment 1');
+  });
+
+  it('should detect reordered segments', async () => {
+    const key = await generateDataKey();
+    const { bytes, prefixLength } = await seal(new Uint8Array(SEGMENT_SIZE * 3), key);
+    const segment = (index: number) => {
+      const start = prefixLength + index * SEALED_SEGMENT;
+      return bytes.subarray(start, start + SEALED_SEGMENT);
+    };
+
+    const reordered = concatBytes(
+      bytes.subarray(0, prefixLength),
+      segment(1),
+      segment(0),
+      bytes.subarray(prefixLength + SEALED_SEGMENT * 2)
+    );
+
+    await expect(open(reordered, key)).rejects.toThrow('corrupt or truncated at segment 0');
+  });
+
+  it('should reject a tampered header or segment', async () => {
+    const key = await generateDataKey();
+    const { bytes, prefixLength } = await seal(new Uint8Array(SEGMENT_SIZE * 2), key);
+
+    // Header bytes are authenticated as additional data: re-encode with a new segment size
+    const tamperedHeader = { ...decodeStreamHeader(bytes)!.header, segmentSize: SEGMENT_SIZE + 1 };
+    const withHeader = concatBytes(
+      encodeStreamHeader(tamperedHeader),
+      bytes.subarray(prefixLength)
+    );
+    const withSegment = bytes.slice();
+    withSegment[prefixLength + 3] ^= 1;
+
+    await expect(open(withHeader, key)).rejects.toThrow('corrupt or truncated');
+    await expect(open(withSegment, key)).rejects.toThrow('corrupt or truncated at segment 0');
+  });
+
+  it('should reject the wrong key', async () => {
+    const { bytes } = await seal(new TextEncoder().encode('song'), await generateDataKey());
+
+    await expect(open(bytes, await generateDataKey())).rejects.toThrow('corrupt or truncated');
+  });
+
+  it('should reject a stream that ends inside the header', async () => {
+    const key = await generateDataKey();
+    const { bytes, prefixLength } = await seal(new Uint8Array(4), key);
+
+    await expect(open(bytes.slice(0, prefixLength - 1), key)).rejects.toThrow('truncated');
+  });
+});
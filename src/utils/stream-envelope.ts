@@ -0,0 +1,403 @@
+/**
+ * Binary .enc container: chunked streaming AEAD with optional compression
+ * Lets the browser decrypt files segment by segment while they download, instead
+ * of buffering, base64-decoding and decrypting the whole file in one call.
+ *
+ * Layout: "BUHS" magic | version (1 byte) | header length (u32 BE) | header JSON | segments
+ *
+ * Each segment is AES-256-GCM over up to `segmentSize` plaintext bytes, with the
+ * whole prefix up to the segments as additional data and the nonce
+ * `noncePrefix (7 bytes) | segment counter (u32 BE) | final flag (1 byte)`.
+ * When the header names a `compression` format, the plaintext is compressed before
+ * segmenting and decompressed after decryption.
+ * @remarks The final flag (the STREAM construction) makes truncation at a segment
+ * boundary detectable, and the counter makes reordering detectable.
+ */
+
+import { base64ToBytes, bytesToBase64, concatBytes } from './encoding';
+import {
+  GCM_NONCE_LENGTH,
+  GCM_TAG_LENGTH,
+  KEY_WRAP_ALGORITHM,
+  WRAPPED_KEY_LENGTH,
+} from './envelope';
+import { isObject } from './json-guards';
+
+/** "BUHS": identifies a streamed container (JSON envelopes start with "{") */
+export const STREAM_MAGIC = new Uint8Array([0x42, 0x55, 0x48, 0x53]);
+export const STREAM_VERSION = 2;
+export const STREAM_ALGORITHM = 'AES-256-GCM-STREAM';
+export const DEFAULT_SEGMENT_SIZE = 64 * 1024;
+export const STREAM_NONCE_PREFIX_LENGTH = 7;
+
+const PREAMBLE_LENGTH = STREAM_MAGIC.length + 1 + 4;
+const MAX_HEADER_LENGTH = 64 * 1024;
+const MAX_SEGMENT_SIZE = 16 * 1024 * 1024;
+const MAX_SEGMENTS = 0xffffffff;
+// Version 1 headers have no compression field
+const SUPPORTED_VERSIONS = [1, STREAM_VERSION];
+
+/** Compression applied to the plaintext before encryption */
+export type StreamCompression = 'none' | 'deflate' | 'gzip';
+const COMPRESSIONS: readonly StreamCompression[] = ['none', 'deflate', 'gzip'];
+
+export interface StreamHeader {
+  /** Access level whose master key wraps the data key */
+  keyId: string;
+  /** Per-file AES-256 data key, wrapped with AES-KW under the master key */
+  wrappedKey: Uint8Array;
+  /** Plaintext bytes per segment (the final segment may be shorter) */
+  segmentSize: number;
+  noncePrefix: Uint8Array;
+  compression: StreamCompression;
+}
+
+interface StreamHeaderJSON {
+  alg: typeof STREAM_ALGORITHM;
+  key: { wrap: typeof KEY_WRAP_ALGORITHM; kid: string; wrapped: string };
+  segmentSize: number;
+  noncePrefix: string;
+  compression: StreamCompression;
+}
+
+/**
+ * Queue of byte chunks that can be consumed in arbitrary sizes without
+ * re-copying everything buffered so far
+ */
+function createByteQueue() {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  const copy = (n: number, consume: boolean): Uint8Array<ArrayBuffer> => {
+    const out = new Uint8Array(n);
+    let offset = 0;
+    let index = 0;
+
+    while (offset < n) {
+      const head = chunks[index];
+      const count = Math.min(head.length, n - offset);
+      out.set(head.subarray(0, count), offset);
+      offset += count;
+
+      if (!consume) {
+        index++;
+      } else if (count === head.length) {
+        chunks.shift();
+      } else {
+        chunks[0] = head.subarray(count);
+      }
+    }
+
+    if (consume) {
+      length -= n;
+    }
+    return out;
+  };
+
+  return {
+    get length() {
+      return length;
+    },
+    push(chunk: Uint8Array) {
+      if (chunk.length > 0) {
+        chunks.push(chunk);
+        length += chunk.length;
+      }
+    },
+    peek: (n: number) => copy(n, false),
+    take: (n: number) => copy(n, true),
+  };
+}
+
+/**
+ * Checks whether bytes start with the streamed container magic
+ */
+export function isStreamContainer(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= STREAM_MAGIC.length &&
+    STREAM_MAGIC.every((byte, index) => bytes[index] === byte)
+  );
+}
+
+/**
+ * Encodes the container prefix: magic, version, header length and header JSON
+ * @returns Bytes written before the first segment (and authenticated by every segment)
+ */
+export function encodeStreamHeader(header: StreamHeader): Uint8Array {
+  const json: StreamHeaderJSON = {
+    alg: STREAM_ALGORITHM,
+    key: { wrap: KEY_WRAP_ALGORITHM, kid: header.keyId, wrapped: bytesToBase64(header.wrappedKey) },
+    segmentSize: header.segmentSize,
+    noncePrefix: bytesToBase64(header.noncePrefix),
+    compression: header.compression,
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(json));
+
+  const preamble = new Uint8Array(PREAMBLE_LENGTH);
+  preamble.set(STREAM_MAGIC);
+  preamble[STREAM_MAGIC.length] = STREAM_VERSION;
+  new DataView(preamble.buffer).setUint32(STREAM_MAGIC.length + 1, headerBytes.length);
+
+  return concatBytes(preamble, headerBytes);
+}
+
+function parseStreamHeader(headerBytes: Uint8Array, version: number): StreamHeader {
+  const value: unknown = JSON.parse(new TextDecoder().decode(headerBytes));
+
+  if (!isObject(value) || value.alg !== STREAM_ALGORITHM) {
+    throw new Error('Invalid encrypted file: unsupported stream algorithm');
+  }
+  const key = value.key;
+  if (!isObject(key) || key.wrap !== KEY_WRAP_ALGORITHM || typeof key.kid !== 'string') {
+    throw new Error('Invalid encrypted file: unsupported key wrapping');
+  }
+  if (typeof key.wrapped !== 'string' || typeof value.noncePrefix !== 'string') {
+    throw new Error('Invalid encrypted file: malformed stream header');
+  }
+
+  const compression = version === 1 ? 'none' : value.compression;
+  if (!COMPRESSIONS.includes(compression as StreamCompression)) {
+    throw new Error(`Invalid encrypted file: unsupported compression ${String(compression)}`);
+  }
+
+  const wrappedKey = base64ToBytes(key.wrapped);
+  const noncePrefix = base64ToBytes(value.noncePrefix);
+  const { segmentSize } = value;
+  if (
+    wrappedKey.length !== WRAPPED_KEY_LENGTH ||
+    noncePrefix.length !== STREAM_NONCE_PREFIX_LENGTH ||
+    typeof segmentSize !== 'number' ||
+    !Number.isInteger(segmentSize) ||
+    segmentSize < 1 ||
+    segmentSize > MAX_SEGMENT_SIZE
+  ) {
+    throw new Error('Invalid encrypted file: malformed stream header');
+  }
+
+  return {
+    keyId: key.kid,
+    wrappedKey,
+    segmentSize,
+    noncePrefix,
+    compression: compression as StreamCompression,
+  };
+}
+
+/**
+ * Reads the container prefix from the start of a streamed file
+ * @returns The header and the raw prefix bytes, or null if more bytes are needed
+ * @throws If the bytes are not a supported streamed container
+ */
+export function decodeStreamHeader(
+  bytes: Uint8Array
+): { header: StreamHeader; prefix: Uint8Array<ArrayBuffer> } | null {
+  if (bytes.length < PREAMBLE_LENGTH) {
+    return null;
+  }
+  if (!isStreamContainer(bytes)) {
+    throw new Error('Invalid encrypted file: not a streamed container');
+  }
+  const version = bytes[STREAM_MAGIC.length];
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported stream version: ${version}`);
+  }
+
+  const headerLength = new DataView(bytes.buffer, bytes.byteOffset).getUint32(
+    STREAM_MAGIC.length + 1
+  );
+  if (headerLength > MAX_HEADER_LENGTH) {
+    throw new Error('Invalid encrypted file: stream header too large');
+  }
+  if (bytes.length < PREAMBLE_LENGTH + headerLength) {
+    return null;
+  }
+
+  const prefix = bytes.slice(0, PREAMBLE_LENGTH + headerLength);
+  return { header: parseStreamHeader(prefix.subarray(PREAMBLE_LENGTH), version), prefix };
+}
+
+function segmentNonce(
+  noncePrefix: Uint8Array,
+  counter: number,
+  final: boolean
+): Uint8Array<ArrayBuffer> {
+  if (counter > MAX_SEGMENTS) {
+    throw new Error('Encrypted stream has too many segments');
+  }
+
+  const nonce = new Uint8Array(GCM_NONCE_LENGTH);
+  nonce.set(noncePrefix);
+  new DataView(nonce.buffer).setUint32(STREAM_NONCE_PREFIX_LENGTH, counter);
+  nonce[GCM_NONCE_LENGTH - 1] = final ? 1 : 0;
+  return nonce;
+}
+
+type ByteSink = (chunk: Uint8Array) => Promise<void>;
+
+/**
+ * Routes chunks through a (de)compression stream before handing them to `sink`
+ * @returns `write` for input chunks and `close`, which resolves once the
+ * (de)compressor has drained into `sink`
+ */
+function throughCompression(
+  codec: CompressionStream | DecompressionStream | null,
+  sink: ByteSink
+): { write: ByteSink; close: () => Promise<void> } {
+  if (!codec) {
+    return { write: sink, close: async () => undefined };
+  }
+
+  const writer = codec.writable.getWriter();
+  const reader = codec.readable.getReader();
+  const drained = (async () => {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      await sink(value);
+    }
+  })();
+  // A failing sink must not leave writes waiting on backpressure forever
+  drained.catch(err => writer.abort(err).catch(() => undefined));
+
+  return {
+    write: chunk => writer.write(new Uint8Array(chunk)),
+    close: async () => {
+      await writer.close();
+      await drained;
+    },
+  };
+}
+
+/**
+ * Creates a transform that encrypts a byte stream into the streamed container
+ * Plaintext is compressed first when the header names a compression format.
+ * @param dataKey - AES-GCM data key whose wrapped form is in the header
+ * @param header - Container header (written first)
+ */
+export function createStreamEncryptor(
+  dataKey: CryptoKey,
+  header: StreamHeader
+): TransformStream<Uint8Array, Uint8Array> {
+  const prefix = new Uint8Array(encodeStreamHeader(header));
+  const queue = createByteQueue();
+  let counter = 0;
+  let input: ReturnType<typeof throughCompression>;
+
+  const encryptSegment = async (plaintext: Uint8Array<ArrayBuffer>, final: boolean) => {
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: segmentNonce(header.noncePrefix, counter++, final),
+        additionalData: prefix,
+      },
+      dataKey,
+      plaintext
+    );
+    return new Uint8Array(ciphertext);
+  };
+
+  return new TransformStream({
+    start(controller) {
+      controller.enqueue(prefix);
+      input = throughCompression(
+        header.compression === 'none' ? null : new CompressionStream(header.compression),
+        async chunk => {
+          queue.push(chunk);
+          // Always hold back at least one byte: the last segment is only known at flush
+          while (queue.length > header.segmentSize) {
+            controller.enqueue(await encryptSegment(queue.take(header.segmentSize), false));
+          }
+        }
+      );
+    },
+    async transform(chunk) {
+      await input.write(chunk);
+    },
+    async flush(controller) {
+      await input.close();
+      controller.enqueue(await encryptSegment(queue.take(queue.length), true));
+    },
+  });
+}
+
+/**
+ * Creates a transform that decrypts a streamed container as it arrives
+ * Output is decompressed when the header names a compression format.
+ * @param resolveKey - Unwraps the data key named by the header
+ * @throws (through the stream) If the data is corrupt, reordered or truncated
+ */
+export function createStreamDecryptor(
+  resolveKey: (header: StreamHeader) => Promise<CryptoKey>
+): TransformStream<Uint8Array, Uint8Array> {
+  const queue = createByteQueue();
+  let opened: {
+    header: StreamHeader;
+    prefix: Uint8Array<ArrayBuffer>;
+    key: CryptoKey;
+    output: ReturnType<typeof throughCompression>;
+  } | null = null;
+  let counter = 0;
+
+  const decryptSegment = async (length: number, final: boolean) => {
+    if (!opened) {
+      throw new Error('Invalid encrypted file: truncated stream header');
+    }
+
+    const segment = counter;
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: segmentNonce(opened.header.noncePrefix, counter++, final),
+          additionalData: opened.prefix,
+        },
+        opened.key,
+        queue.take(length)
+      );
+      return new Uint8Array(plaintext);
+    } catch {
+      throw new Error(`Encrypted stream is corrupt or truncated at segment ${segment}`);
+    }
+  };
+
+  return new TransformStream({
+    async transform(chunk, controller) {
+      queue.push(chunk);
+
+      if (!opened) {
+        const decoded = decodeStreamHeader(
+          queue.peek(Math.min(queue.length, PREAMBLE_LENGTH + MAX_HEADER_LENGTH))
+        );
+        if (!decoded) {
+          return;
+        }
+        queue.take(decoded.prefix.length);
+
+        const { compression } = decoded.header;
+        opened = {
+          ...decoded,
+          key: await resolveKey(decoded.header),
+          output: throughCompression(
+            compression === 'none' ? null : new DecompressionStream(compression),
+            async plaintext => controller.enqueue(plaintext)
+          ),
+        };
+      }
+
+      // A full segment followed by more data cannot be the final one
+      const sealedSegment = opened.header.segmentSize + GCM_TAG_LENGTH;
+      while (queue.length > sealedSegment) {
+        await opened.output.write(await decryptSegment(sealedSegment, false));
+      }
+    },
+    async flush() {
+      if (!opened || queue.length < GCM_TAG_LENGTH) {
+        throw new Error('Encrypted stream is truncated');
+      }
+      await opened.output.write(await decryptSegment(queue.length, true));
+      await opened.output.close();
+    },
+  });
+}
@@ -1,8 +1,110 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { copyFileSync, existsSync, readFileSync, readdirSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import type { OfflineBuild } from './src/utils/offline-cache'
+
+/**
+ * GitHub Pages serves 404.html for any path without a file, so a copy of the app
+ * shell lets deep links like /c/poems/lake.md load the SPA and route client-side
+ */
+function spaFallback(): Plugin {
+  let outDir = 'dist'
+  return {
+    name: 'spa-fallback',
+    apply: 'build',
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir)
+    },
+    closeBundle() {
+      copyFileSync(resolve(outDir, 'index.html'), resolve(outDir, '404.html'))
+    },
+  }
+}
+
+/** Files from public/ that belong to the app shell */
+const PUBLIC_SHELL = ['/app.webmanifest', '/icon.svg']
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex')
+
+/**
+ * Hashes the encrypted files in public/ (the keyring, manifest, search index and objects)
+ * @returns Short content hash by site-absolute URL
+ */
+function hashEncryptedFiles(publicDir: string): Record<string, string> {
+  const files = ['keyring.json', 'manifest.enc', 'search-index.enc']
+  const objectsDir = resolve(publicDir, 'objects')
+  if (existsSync(objectsDir)) {
+    files.push(
+      ...readdirSync(objectsDir)
+        .filter(name => name.endsWith('.enc'))
+        .map(name => `objects/${name}`)
+    )
+  }
+
+  const content: Record<string, string> = {}
+  for (const file of files) {
+    const path = resolve(publicDir, file)
+    if (existsSync(path)) {
+      content[`/${file}`] = sha256(readFileSync(path)).slice(0, 16)
+    }
+  }
+  return content
+}
+
+/**
+ * Builds src/service-worker.ts to /sw.js and gives it the list of what to cache:
+ * the app shell of this bundle and a hash of every encrypted file, so a deploy
+ * that changes any of them installs a new service worker that drops the old copies
+ */
+function offlineCache(): Plugin {
+  let publicDir = ''
+  return {
+    name: 'offline-cache',
+    apply: 'build',
+    config() {
+      return {
+        build: {
+          rollupOptions: {
+            input: { index: 'index.html', sw: 'src/service-worker.ts' },
+            output: {
+              // Registered by a fixed URL, and at the root so it controls every route
+              entryFileNames: chunk =>
+                chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js',
+            },
+          },
+        },
+      }
+    },
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    generateBundle(_options, bundle) {
+      const worker = bundle['sw.js']
+      if (worker?.type !== 'chunk') {
+        throw new Error('offline-cache: sw.js was not built')
+      }
+
+      const assets = Object.keys(bundle)
+        .filter(file => file !== 'sw.js' && file !== 'index.html' && !file.endsWith('.map'))
+        .map(file => `/${file}`)
+      const shell = ['/index.html', ...assets.sort(), ...PUBLIC_SHELL]
+      const content = hashEncryptedFiles(publicDir)
+      const build: OfflineBuild = {
+        version: sha256(JSON.stringify({ shell, content })).slice(0, 16),
+        shell,
+        content,
+      }
+
+      // A global rather than an inlined constant, so the minifier can't duplicate it
+      worker.code = `self.__OFFLINE_BUILD__=${JSON.stringify(build)};\n${worker.code}`
+    },
+  }
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), spaFallback(), offlineCache()],
   base: '/',
   resolve: {
     alias: {